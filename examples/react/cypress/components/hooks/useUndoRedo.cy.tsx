@@ -0,0 +1,84 @@
+import { useEffect } from 'react';
+import { ReactFlow, ReactFlowInstance, useReactFlow, useStoreApi, useUndoRedo } from '@xyflow/react';
+
+import { nodes as initialNodes, edges as initialEdges } from '../../fixtures/simpleflow';
+
+type Helpers = {
+  flow: ReactFlowInstance;
+  store: ReturnType<typeof useStoreApi>;
+};
+
+describe('useUndoRedo.cy.tsx', () => {
+  let helpers: Helpers;
+
+  beforeEach(() => {
+    cy.mount(
+      <ReactFlow defaultNodes={initialNodes} defaultEdges={initialEdges}>
+        <HookHelperComponent onChange={(nextHelpers) => (helpers = nextHelpers)} />
+      </ReactFlow>
+    );
+  });
+
+  it('undoes and redoes a position change', () => {
+    cy.then(() =>
+      helpers.store.getState().triggerNodeChanges([{ id: '1', type: 'position', position: { x: 100, y: 100 } }])
+    );
+
+    cy.wrap(null).should(() => expect(helpers.store.getState().canUndo).to.be.true);
+    cy.then(() => helpers.store.getState().undo());
+    cy.wrap(null).should(() => {
+      expect(helpers.flow.getNode('1')?.position).to.be.deep.equal({ x: 0, y: 0 });
+      expect(helpers.store.getState().canRedo).to.be.true;
+    });
+
+    cy.then(() => helpers.store.getState().redo());
+    cy.wrap(null).should(() => expect(helpers.flow.getNode('1')?.position).to.be.deep.equal({ x: 100, y: 100 }));
+  });
+
+  it('restores deleted nodes and their edges', () => {
+    cy.then(() => helpers.flow.deleteElements({ nodes: [{ id: '1' }] }));
+    cy.wrap(null).should(() => {
+      expect(helpers.flow.getNode('1')).to.be.undefined;
+      expect(helpers.flow.getEdges()).to.have.length(0);
+    });
+
+    // the node and its edge got deleted in the same tick, so they are restored in one step
+    cy.then(() => helpers.store.getState().undo());
+    cy.wrap(null).should(() => {
+      expect(helpers.flow.getNode('1')?.position).to.be.deep.equal({ x: 0, y: 0 });
+      expect(helpers.flow.getEdge('e1')).to.include({ source: '1', target: '2' });
+      expect(helpers.store.getState().canUndo).to.be.false;
+    });
+
+    cy.then(() => helpers.store.getState().redo());
+    cy.wrap(null).should(() => {
+      expect(helpers.flow.getNode('1')).to.be.undefined;
+      expect(helpers.flow.getEdge('e1')).to.be.undefined;
+    });
+  });
+
+  it('clears the history', () => {
+    cy.then(() =>
+      helpers.store.getState().triggerNodeChanges([{ id: '2', type: 'position', position: { x: 0, y: 0 } }])
+    );
+    cy.wrap(null).should(() => expect(helpers.store.getState().canUndo).to.be.true);
+
+    cy.then(() => helpers.store.getState().clearHistory());
+    cy.wrap(null).should(() => expect(helpers.store.getState().canUndo).to.be.false);
+  });
+});
+
+// test specific helpers
+
+const HookHelperComponent = ({ onChange }: { onChange: (helpers: Helpers) => void }) => {
+  const flow = useReactFlow();
+  const store = useStoreApi();
+
+  useUndoRedo();
+
+  useEffect(() => {
+    onChange({ flow, store });
+  }, [flow, store]);
+
+  return null;
+};
@@ -0,0 +1,63 @@
+import { Controls, type AriaLabelConfig } from '@xyflow/react';
+
+import ControlledFlow from '../../support/ControlledFlow';
+import * as simpleflow from '../../fixtures/simpleflow';
+
+const ariaLabelConfig: Partial<AriaLabelConfig> = {
+  'edge.ariaLabel': ({ source, target }) => `Kante von ${source} nach ${target}`,
+  'handle.ariaLabel': ({ nodeId, type }) => `${type === 'source' ? 'Ausgang' : 'Eingang'} von Knoten ${nodeId}`,
+  'node.navigation.noNodeInDirection': ({ direction }) => `Kein Knoten in Richtung ${direction}.`,
+  'node.a11yDescription.default': 'Knotenbeschreibung',
+  'controls.zoomIn.ariaLabel': 'Vergrößern',
+};
+
+describe('<ReactFlow />: Aria label config', () => {
+  it('uses the default labels', () => {
+    cy.mount(
+      <ControlledFlow initialNodes={simpleflow.nodes} initialEdges={simpleflow.edges}>
+        <Controls />
+      </ControlledFlow>
+    );
+
+    cy.get('.react-flow__edge[data-id="e1"]').should('have.attr', 'aria-label', 'Edge from 1 to 2');
+    cy.get('.react-flow__node[data-id="1"] .react-flow__handle.source').should(
+      'have.attr',
+      'aria-label',
+      'source handle of node 1'
+    );
+    cy.get('.react-flow__controls-zoomin').should('have.attr', 'aria-label', 'zoom in');
+  });
+
+  it('overwrites the passed labels', () => {
+    cy.mount(
+      <ControlledFlow initialNodes={simpleflow.nodes} initialEdges={simpleflow.edges} ariaLabelConfig={ariaLabelConfig}>
+        <Controls />
+      </ControlledFlow>
+    );
+
+    cy.get('.react-flow__edge[data-id="e1"]').should('have.attr', 'aria-label', 'Kante von 1 nach 2');
+    cy.get('.react-flow__node[data-id="1"] .react-flow__handle.source').should(
+      'have.attr',
+      'aria-label',
+      'Ausgang von Knoten 1'
+    );
+    cy.get('[id^="react-flow__node-desc"]').should('have.text', 'Knotenbeschreibung');
+    cy.get('.react-flow__controls-zoomin').should('have.attr', 'aria-label', 'Vergrößern');
+    // the other labels keep their default values
+    cy.get('.react-flow__controls-zoomout').should('have.attr', 'aria-label', 'zoom out');
+  });
+
+  it('uses the passed aria live messages', () => {
+    cy.mount(
+      <ControlledFlow
+        initialNodes={simpleflow.nodes}
+        initialEdges={simpleflow.edges}
+        ariaLabelConfig={ariaLabelConfig}
+      />
+    );
+
+    cy.get('.react-flow__node[data-id="1"]').focus().trigger('keydown', { key: 'ArrowUp' });
+
+    cy.get('[aria-live]').should('contain', 'Kein Knoten in Richtung up.');
+  });
+});
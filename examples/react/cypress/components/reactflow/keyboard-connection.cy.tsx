@@ -0,0 +1,87 @@
+import type { IsValidConnection, Node } from '@xyflow/react';
+
+import ControlledFlow from '../../support/ControlledFlow';
+
+const nodes: Node[] = [
+  { id: '1', data: { label: 'Node 1' }, position: { x: 0, y: 0 } },
+  { id: '2', data: { label: 'Node 2' }, position: { x: 0, y: 150 } },
+  { id: '3', data: { label: 'Node 3' }, position: { x: 300, y: 300 } },
+];
+
+// connections to the same node would be the closest handle otherwise
+const isValidConnection: IsValidConnection = (connection) => connection.source !== connection.target;
+
+const sourceHandle = '.react-flow__node[data-id="1"] .react-flow__handle.source';
+
+describe('<ReactFlow />: Keyboard connections', () => {
+  it('connects to the closest handle', () => {
+    const onConnect = cy.spy().as('onConnect');
+    const onConnectStart = cy.spy().as('onConnectStart');
+    const onConnectEnd = cy.spy().as('onConnectEnd');
+
+    cy.mount(
+      <ControlledFlow
+        initialNodes={nodes}
+        isValidConnection={isValidConnection}
+        onConnect={onConnect}
+        onConnectStart={onConnectStart}
+        onConnectEnd={onConnectEnd}
+      />
+    );
+
+    cy.get(sourceHandle)
+      .focus()
+      .trigger('keydown', { key: 'Enter' })
+      .then(() => {
+        expect(onConnectStart.callCount).to.be.eq(1);
+        expect(onConnect.callCount).to.be.eq(0);
+      })
+      .trigger('keydown', { key: 'Enter' })
+      .then(() => {
+        expect(onConnect.callCount).to.be.eq(1);
+        expect(onConnect.firstCall.args[0]).to.include({ source: '1', target: '2' });
+        expect(onConnectEnd.callCount).to.be.eq(1);
+      });
+  });
+
+  it('chooses the next handle with the arrow keys', () => {
+    const onConnect = cy.spy().as('onConnect');
+
+    cy.mount(<ControlledFlow initialNodes={nodes} isValidConnection={isValidConnection} onConnect={onConnect} />);
+
+    cy.get(sourceHandle)
+      .focus()
+      .trigger('keydown', { key: 'Enter' })
+      .trigger('keydown', { key: 'ArrowRight' })
+      .trigger('keydown', { key: 'Enter' })
+      .then(() => {
+        expect(onConnect.callCount).to.be.eq(1);
+        expect(onConnect.firstCall.args[0]).to.include({ source: '1', target: '3' });
+      });
+  });
+
+  it('cancels the connection with escape', () => {
+    const onConnect = cy.spy().as('onConnect');
+    const onConnectEnd = cy.spy().as('onConnectEnd');
+
+    cy.mount(
+      <ControlledFlow
+        initialNodes={nodes}
+        isValidConnection={isValidConnection}
+        onConnect={onConnect}
+        onConnectEnd={onConnectEnd}
+      />
+    );
+
+    cy.get(sourceHandle)
+      .focus()
+      .trigger('keydown', { key: 'Enter' })
+      .trigger('keydown', { key: 'Escape' })
+      .then(() => {
+        expect(onConnect.callCount).to.be.eq(0);
+        expect(onConnectEnd.callCount).to.be.eq(1);
+      });
+
+    cy.get('[aria-live]').should('contain', 'Connection canceled.');
+  });
+});
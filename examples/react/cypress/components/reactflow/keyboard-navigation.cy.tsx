@@ -0,0 +1,57 @@
+import type { Edge, Node } from '@xyflow/react';
+
+import ControlledFlow from '../../support/ControlledFlow';
+
+const nodes: Node[] = [
+  { id: '1', data: { label: 'Node 1' }, position: { x: 0, y: 0 } },
+  { id: '2', data: { label: 'Node 2' }, position: { x: 300, y: 0 } },
+  { id: '3', data: { label: 'Node 3' }, position: { x: 0, y: 200 } },
+];
+
+const edges: Edge[] = [
+  { id: 'e1-2', source: '1', target: '2' },
+  { id: 'e1-3', source: '1', target: '3' },
+];
+
+const node = (id: string) => `.react-flow__node[data-id="${id}"]`;
+const edge = (id: string) => `.react-flow__edge[data-id="${id}"]`;
+
+describe('<ReactFlow />: Keyboard navigation', () => {
+  it('moves the focus to the nearest node with the arrow keys', () => {
+    cy.mount(<ControlledFlow initialNodes={nodes} initialEdges={edges} />);
+
+    cy.get(node('1')).focus().trigger('keydown', { key: 'ArrowRight' });
+    cy.get(node('2')).should('have.focus');
+
+    cy.get(node('2')).trigger('keydown', { key: 'ArrowLeft' });
+    cy.get(node('1')).should('have.focus').trigger('keydown', { key: 'ArrowDown' });
+    cy.get(node('3')).should('have.focus');
+  });
+
+  it('announces when there is no node in a direction', () => {
+    cy.mount(<ControlledFlow initialNodes={nodes} initialEdges={edges} />);
+
+    cy.get(node('1')).focus().trigger('keydown', { key: 'ArrowUp' });
+
+    cy.get(node('1')).should('have.focus');
+    cy.get('[aria-live]').should('contain', 'There is no node up of this node.');
+  });
+
+  it('cycles through the edges of a node and goes back to it', () => {
+    cy.mount(<ControlledFlow initialNodes={nodes} initialEdges={edges} />);
+
+    cy.get(node('1')).focus().trigger('keydown', { key: 'e' });
+    cy.get(edge('e1-2')).should('have.focus').trigger('keydown', { key: 'ArrowRight' });
+    cy.get(edge('e1-3')).should('have.focus').trigger('keydown', { key: 'ArrowRight' });
+    cy.get(edge('e1-2')).should('have.focus').trigger('keydown', { key: 'n' });
+    cy.get(node('1')).should('have.focus');
+  });
+
+  it('announces when a node has no connected edges', () => {
+    cy.mount(<ControlledFlow initialNodes={nodes} />);
+
+    cy.get(node('1')).focus().trigger('keydown', { key: 'e' });
+
+    cy.get('[aria-live]').should('contain', 'The node has no connected edges.');
+  });
+});
@@ -0,0 +1,77 @@
+import { SelectionMode, type Node } from '@xyflow/react';
+
+import { edges } from '../../fixtures/simpleflow';
+import ControlledFlow from '../../support/ControlledFlow';
+
+// the edge runs straight down from node 1 to node 2, far away from both nodes in the middle
+const nodes: Node[] = [
+  { id: '1', data: { label: 'Node 1' }, position: { x: 0, y: 0 } },
+  { id: '2', data: { label: 'Node 2' }, position: { x: 0, y: 400 } },
+];
+
+const select = (from: { x: number; y: number }, to: { x: number; y: number }) =>
+  cy
+    .window()
+    .then((window) =>
+      cy
+        .get('.react-flow__pane')
+        .trigger('pointerdown', from.x, from.y, { button: 0, pointerId: 1, view: window })
+        .trigger('pointermove', to.x, to.y, { button: 0, pointerId: 1, view: window })
+        .trigger('pointerup', to.x, to.y, { button: 0, pointerId: 1, view: window, force: true })
+    );
+
+const selectMiddleOfEdge = () => select({ x: 20, y: 180 }, { x: 200, y: 220 });
+
+describe('<ReactFlow />: selectEdgesByPath', () => {
+  it('selects the edges that cross the selection', () => {
+    cy.mount(
+      <ControlledFlow
+        initialNodes={nodes}
+        initialEdges={edges}
+        selectionOnDrag
+        panOnDrag={false}
+        selectionMode={SelectionMode.Partial}
+        selectEdgesByPath
+      />
+    );
+
+    selectMiddleOfEdge();
+
+    cy.get('.react-flow__edge').should('have.class', 'selected');
+    cy.get('.react-flow__node.selected').should('not.exist');
+  });
+
+  it('only selects the edges of the selected nodes without it', () => {
+    cy.mount(
+      <ControlledFlow
+        initialNodes={nodes}
+        initialEdges={edges}
+        selectionOnDrag
+        panOnDrag={false}
+        selectionMode={SelectionMode.Partial}
+      />
+    );
+
+    selectMiddleOfEdge();
+
+    cy.get('.react-flow__edge').should('not.have.class', 'selected');
+  });
+
+  it('does not select nodes in the "only" mode', () => {
+    cy.mount(
+      <ControlledFlow
+        initialNodes={nodes}
+        initialEdges={edges}
+        selectionOnDrag
+        panOnDrag={false}
+        selectionMode={SelectionMode.Partial}
+        selectEdgesByPath="only"
+      />
+    );
+
+    select({ x: 5, y: 5 }, { x: 200, y: 220 });
+
+    cy.get('.react-flow__edge').should('have.class', 'selected');
+    cy.get('.react-flow__node.selected').should('not.exist');
+  });
+});
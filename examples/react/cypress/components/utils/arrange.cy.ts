@@ -0,0 +1,124 @@
+import { adoptUserNodes, type NodeLookup } from '@xyflow/system';
+import {
+  getNodeAlignmentChanges,
+  getNodeDistributionChanges,
+  getNodeScaleChanges,
+  type Node,
+  type NodeAlignment,
+  type NodeChange,
+  type XYPosition,
+} from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '2', data: {}, position: { x: 150, y: 100 }, measured: { width: 50, height: 50 } },
+  { id: '3', data: {}, position: { x: 400, y: 30 }, measured: { width: 100, height: 100 } },
+  { id: 'group', data: {}, position: { x: 100, y: 300 }, measured: { width: 200, height: 200 } },
+  { id: 'child', data: {}, position: { x: 20, y: 20 }, measured: { width: 50, height: 50 }, parentId: 'group' },
+  { id: 'rotated', data: {}, position: { x: 300, y: 300 }, measured: { width: 100, height: 20 }, rotation: 90 },
+];
+
+const getPositions = (changes: NodeChange[]): Record<string, XYPosition> =>
+  Object.fromEntries(changes.flatMap((change) => (change.type === 'position' ? [[change.id, change.position!]] : [])));
+
+describe('getNodeAlignmentChanges Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  const align = (alignment: NodeAlignment, nodeIds = ['1', '2', '3']) =>
+    getPositions(getNodeAlignmentChanges({ nodeIds, nodeLookup, alignment }));
+
+  it('aligns the nodes horizontally', () => {
+    expect(align('left')).to.be.deep.equal({ '2': { x: 0, y: 100 }, '3': { x: 0, y: 30 } });
+    expect(align('right')).to.be.deep.equal({ '1': { x: 400, y: 0 }, '2': { x: 450, y: 100 } });
+    expect(align('center-x')).to.be.deep.equal({
+      '1': { x: 200, y: 0 },
+      '2': { x: 225, y: 100 },
+      '3': { x: 200, y: 30 },
+    });
+  });
+
+  it('aligns the nodes vertically', () => {
+    expect(align('top')).to.be.deep.equal({ '2': { x: 150, y: 0 }, '3': { x: 400, y: 0 } });
+    expect(align('bottom')).to.be.deep.equal({ '1': { x: 0, y: 100 }, '3': { x: 400, y: 50 } });
+    expect(align('center-y')).to.be.deep.equal({
+      '1': { x: 0, y: 50 },
+      '2': { x: 150, y: 50 },
+      '3': { x: 400, y: 25 },
+    });
+  });
+
+  it('needs at least two nodes', () => {
+    expect(align('left', ['1'])).to.be.deep.equal({});
+  });
+
+  it('skips child nodes if their parent gets aligned as well', () => {
+    expect(align('left', ['group', 'child', '2'])).to.be.deep.equal({ '2': { x: 100, y: 100 } });
+  });
+
+  it('returns positions relative to the parent', () => {
+    expect(align('right', ['child', '3'])).to.be.deep.equal({ child: { x: 350, y: 20 } });
+  });
+
+  it('aligns the rotated bounds of the nodes', () => {
+    expect(align('left', ['1', 'rotated'])).to.be.deep.equal({ rotated: { x: -40, y: 300 } });
+  });
+});
+
+describe('getNodeDistributionChanges Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  it('makes the gaps between the nodes equal', () => {
+    const horizontal = getNodeDistributionChanges({ nodeIds: ['1', '2', '3'], nodeLookup, distribution: 'horizontal' });
+    const vertical = getNodeDistributionChanges({ nodeIds: ['1', '2', '3'], nodeLookup, distribution: 'vertical' });
+
+    expect(getPositions(horizontal)).to.be.deep.equal({ '2': { x: 225, y: 100 } });
+    expect(getPositions(vertical)).to.be.deep.equal({ '3': { x: 400, y: 25 } });
+  });
+
+  it('needs at least three nodes', () => {
+    expect(getNodeDistributionChanges({ nodeIds: ['1', '2'], nodeLookup, distribution: 'horizontal' })).to.be.empty;
+  });
+});
+
+describe('getNodeScaleChanges Testing', () => {
+  const scaledNodes: Node[] = [
+    { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+    { id: '2', data: {}, position: { x: 200, y: 150 }, measured: { width: 100, height: 50 } },
+    { id: 'child', data: {}, position: { x: 10, y: 10 }, measured: { width: 20, height: 20 }, parentId: '2' },
+  ];
+  const nodeLookup: NodeLookup = new Map();
+  const from = { x: 0, y: 0, width: 300, height: 200 };
+  const to = { x: 0, y: 0, width: 600, height: 400 };
+
+  adoptUserNodes(scaledNodes, nodeLookup, new Map());
+
+  it('scales the positions and dimensions of the nodes', () => {
+    const changes = getNodeScaleChanges({ nodeIds: ['1', '2'], nodeLookup, from, to });
+
+    expect(getPositions(changes)).to.be.deep.equal({ '1': { x: 0, y: 0 }, '2': { x: 400, y: 300 } });
+    expect(changes).to.deep.include({
+      id: '2',
+      type: 'dimensions',
+      resizing: true,
+      setAttributes: true,
+      dimensions: { width: 200, height: 100 },
+    });
+  });
+
+  it('scales child nodes relative to their scaled parent', () => {
+    const changes = getNodeScaleChanges({ nodeIds: ['1', '2', 'child'], nodeLookup, from, to });
+
+    expect(getPositions(changes).child).to.be.deep.equal({ x: 20, y: 20 });
+  });
+
+  it('only scales the centers of the nodes if they keep their size', () => {
+    const changes = getNodeScaleChanges({ nodeIds: ['1', '2'], nodeLookup, from, to, resizeNodes: false });
+
+    expect(getPositions(changes)).to.be.deep.equal({ '1': { x: 50, y: 25 }, '2': { x: 450, y: 325 } });
+    expect(changes).to.deep.include({ id: '1', type: 'dimensions', resizing: true });
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  getClipboardData,
+  getPastedElements,
+  parseClipboardData,
+  serializeClipboardData,
+  type Edge,
+  type Node,
+} from '@xyflow/react';
+import { adoptUserNodes, type NodeLookup } from '@xyflow/system';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 }, selected: true },
+  { id: '2', data: {}, position: { x: 200, y: 100 }, measured: { width: 100, height: 50 }, selected: true },
+  { id: '3', data: {}, position: { x: 500, y: 500 }, measured: { width: 100, height: 50 } },
+];
+
+const edges: Edge[] = [
+  { id: 'e1-2', source: '1', target: '2', waypoints: [{ x: 100, y: 50 }] },
+  { id: 'e2-3', source: '2', target: '3' },
+];
+
+const getId = (id: string) => `${id}-copy`;
+
+describe('Clipboard Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+  adoptUserNodes(nodes, nodeLookup, new Map());
+  const data = getClipboardData({ nodes, edges, nodeLookup });
+
+  it('copies the selected nodes and the edges between them', () => {
+    expect(data.nodes.map((node) => node.id)).to.be.deep.equal(['1', '2']);
+    expect(data.edges.map((edge) => edge.id)).to.be.deep.equal(['e1-2']);
+  });
+
+  it('serializes and parses the clipboard data', () => {
+    expect(parseClipboardData(serializeClipboardData(data))).to.be.deep.equal(data);
+    expect(parseClipboardData('some text')).to.be.null;
+    expect(parseClipboardData('{"nodes":[]}')).to.be.null;
+  });
+
+  it('moves the pasted elements by the offset', () => {
+    const pasted = getPastedElements({ ...data, getId });
+
+    expect(pasted.nodes.map((node) => node.position)).to.be.deep.equal([
+      { x: 20, y: 20 },
+      { x: 220, y: 120 },
+    ]);
+    expect(pasted.edges[0].waypoints).to.be.deep.equal([{ x: 120, y: 70 }]);
+  });
+
+  it('moves the pasted elements to the position', () => {
+    const pasted = getPastedElements({ ...data, getId, position: { x: 1000, y: 1000 } });
+
+    expect(pasted.nodes.map((node) => node.position)).to.be.deep.equal([
+      { x: 1000, y: 1000 },
+      { x: 1200, y: 1100 },
+    ]);
+    expect(pasted.edges[0].waypoints).to.be.deep.equal([{ x: 1100, y: 1050 }]);
+  });
+
+  it('gives the pasted elements new ids and selects them', () => {
+    const pasted = getPastedElements({ ...data, getId });
+
+    expect(pasted.nodes.map((node) => node.id)).to.be.deep.equal(['1-copy', '2-copy']);
+    expect(pasted.edges[0]).to.include({ id: 'e1-2-copy', source: '1-copy', target: '2-copy', selected: true });
+    expect(pasted.nodes.every((node) => node.selected)).to.be.true;
+  });
+});
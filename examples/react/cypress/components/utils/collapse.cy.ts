@@ -0,0 +1,46 @@
+import { adoptUserNodes, createSpatialIndex, updateEdgeSpatialIndex, type NodeLookup } from '@xyflow/system';
+import { getCollapsedAncestor, type Node } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: 'group', data: {}, position: { x: 0, y: 300 }, measured: { width: 200, height: 200 } },
+  { id: 'inner', data: {}, position: { x: 10, y: 10 }, measured: { width: 150, height: 150 }, parentId: 'group' },
+  { id: 'child', data: {}, position: { x: 10, y: 10 }, measured: { width: 100, height: 50 }, parentId: 'inner' },
+];
+
+describe('Collapse Testing', () => {
+  const collapsedNodeIds = new Set(['group', 'inner']);
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map(), { collapsedNodeIds });
+
+  it('hides the descendants of collapsed nodes', () => {
+    const hiddenIds = [...nodeLookup.values()].filter((node) => node.hidden).map((node) => node.id);
+
+    expect(hiddenIds).to.be.deep.equal(['inner', 'child']);
+  });
+
+  it('does not change the user nodes', () => {
+    expect(nodes.every((node) => node.hidden === undefined)).to.be.true;
+  });
+
+  it('returns the outermost collapsed ancestor', () => {
+    expect(getCollapsedAncestor('child', nodeLookup, collapsedNodeIds)?.id).to.be.equal('group');
+    expect(getCollapsedAncestor('child', nodeLookup, new Set(['inner']))?.id).to.be.equal('inner');
+  });
+
+  it('returns undefined if no ancestor is collapsed', () => {
+    expect(getCollapsedAncestor('1', nodeLookup, collapsedNodeIds)).to.be.undefined;
+    expect(getCollapsedAncestor('group', nodeLookup, collapsedNodeIds)).to.be.undefined;
+  });
+
+  it('uses the collapsed ancestor of hidden nodes for the edge spatial index', () => {
+    const spatialIndex = createSpatialIndex();
+
+    updateEdgeSpatialIndex(spatialIndex, [{ id: 'e1-child', source: '1', target: 'child' }], nodeLookup, {
+      collapsedNodeIds,
+    });
+
+    expect(spatialIndex.getRect('e1-child')).to.be.deep.equal({ x: 0, y: 0, width: 200, height: 500 });
+  });
+});
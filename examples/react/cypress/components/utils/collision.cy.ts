@@ -0,0 +1,58 @@
+import { resolveNodeCollisions, type Node, type NodeMove } from '@xyflow/react';
+import { adoptUserNodes, createSpatialIndex, nodeToRect, type NodeLookup } from '@xyflow/system';
+
+const nodes: Node[] = [
+  { id: 'a', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: 'b', data: {}, position: { x: 120, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: 'c', data: {}, position: { x: 240, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: 'parent', data: {}, position: { x: 0, y: 200 }, measured: { width: 300, height: 200 } },
+  { id: 'child', data: {}, position: { x: 10, y: 10 }, measured: { width: 100, height: 50 }, parentId: 'parent' },
+];
+
+const moveRight = new Map<string, NodeMove>([['a', { from: { x: 0, y: 0 }, to: { x: 60, y: 0 } }]]);
+
+describe('resolveNodeCollisions Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  it('stops moved nodes in front of other nodes', () => {
+    const { positions, pushedPositions } = resolveNodeCollisions({ moves: moveRight, nodeLookup, mode: 'block' });
+
+    expect(positions.get('a')).to.be.deep.equal({ x: 20, y: 0 });
+    expect(pushedPositions.size).to.be.equal(0);
+  });
+
+  it('pushes other nodes out of the way', () => {
+    const { positions, pushedPositions } = resolveNodeCollisions({ moves: moveRight, nodeLookup, mode: 'push' });
+
+    expect(positions.get('a')).to.be.deep.equal({ x: 60, y: 0 });
+    expect(pushedPositions.get('b')).to.be.deep.equal({ x: 160, y: 0 });
+    expect(pushedPositions.get('c')).to.be.deep.equal({ x: 260, y: 0 });
+  });
+
+  it('moves child nodes together with their parent', () => {
+    const moves = new Map<string, NodeMove>([['a', { from: { x: 0, y: 0 }, to: { x: 0, y: 180 } }]]);
+    const { pushedPositions } = resolveNodeCollisions({ moves, nodeLookup, mode: 'push' });
+
+    expect(pushedPositions.get('parent')).to.be.deep.equal({ x: 0, y: 230 });
+    expect(pushedPositions.has('child')).to.be.false;
+  });
+
+  it('only lets nodes collide with their siblings', () => {
+    const moves = new Map<string, NodeMove>([['child', { from: { x: 10, y: 210 }, to: { x: 0, y: 150 } }]]);
+    const { positions } = resolveNodeCollisions({ moves, nodeLookup, mode: 'block' });
+
+    expect(positions.get('child')).to.be.deep.equal({ x: 0, y: 150 });
+  });
+
+  it('finds the same collisions with a spatial index', () => {
+    const spatialIndex = createSpatialIndex();
+    nodeLookup.forEach((node) => spatialIndex.update(node.id, nodeToRect(node)));
+
+    const blocked = resolveNodeCollisions({ moves: moveRight, nodeLookup, mode: 'block', spatialIndex });
+    const pushed = resolveNodeCollisions({ moves: moveRight, nodeLookup, mode: 'push', spatialIndex });
+
+    expect(blocked.positions.get('a')).to.be.deep.equal({ x: 20, y: 0 });
+    expect(Array.from(pushed.pushedPositions.keys())).to.be.deep.equal(['b', 'c']);
+  });
+});
@@ -0,0 +1,70 @@
+import { adoptUserNodes, handleFitParent, type NodeLookup, type ParentLookup } from '@xyflow/system';
+import type { Node } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: 'outer', data: {}, position: { x: 0, y: 0 }, measured: { width: 400, height: 400 }, fitChildren: true },
+  {
+    id: 'parent',
+    data: {},
+    position: { x: 100, y: 100 },
+    measured: { width: 200, height: 200 },
+    fitChildren: { padding: 10 },
+    parentId: 'outer',
+  },
+  { id: 'a', data: {}, position: { x: 10, y: 10 }, measured: { width: 50, height: 50 }, parentId: 'parent' },
+  { id: 'b', data: {}, position: { x: 100, y: 100 }, measured: { width: 50, height: 50 }, parentId: 'parent' },
+  { id: 'static', data: {}, position: { x: 600, y: 0 }, measured: { width: 100, height: 100 } },
+  { id: 'c', data: {}, position: { x: 10, y: 10 }, measured: { width: 50, height: 50 }, parentId: 'static' },
+];
+
+const getChanges = (changes: ReturnType<typeof handleFitParent>, id: string) =>
+  changes.filter((change) => change.id === id);
+
+describe('handleFitParent Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+  const parentLookup: ParentLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, parentLookup);
+
+  const changes = handleFitParent(
+    [{ id: 'b', parentId: 'parent', rect: { x: 300, y: 300, width: 50, height: 50 } }],
+    nodeLookup,
+    parentLookup
+  );
+
+  it('resizes the parent to the bounds of its children plus the padding', () => {
+    expect(getChanges(changes, 'parent')).to.deep.include({
+      id: 'parent',
+      type: 'dimensions',
+      setAttributes: true,
+      dimensions: { width: 260, height: 260 },
+    });
+  });
+
+  it('moves the children so that their absolute positions stay the same', () => {
+    expect(getChanges(changes, 'a')).to.be.deep.equal([{ id: 'a', type: 'position', position: { x: 10, y: 10 } }]);
+    expect(getChanges(changes, 'b')).to.be.deep.equal([{ id: 'b', type: 'position', position: { x: 200, y: 200 } }]);
+  });
+
+  it('fits the ancestors to the fitted parent', () => {
+    expect(getChanges(changes, 'outer')).to.be.deep.equal([
+      { id: 'outer', type: 'position', position: { x: 80, y: 80 } },
+      { id: 'outer', type: 'dimensions', setAttributes: true, dimensions: { width: 300, height: 300 } },
+    ]);
+    expect(getChanges(changes, 'parent').at(-1)).to.be.deep.equal({
+      id: 'parent',
+      type: 'position',
+      position: { x: 20, y: 20 },
+    });
+  });
+
+  it('ignores parents that do not fit their children', () => {
+    const staticChanges = handleFitParent(
+      [{ id: 'c', parentId: 'static', rect: { x: 900, y: 0, width: 50, height: 50 } }],
+      nodeLookup,
+      parentLookup
+    );
+
+    expect(staticChanges).to.be.empty;
+  });
+});
@@ -0,0 +1,72 @@
+import { adoptUserNodes, getEdgePosition, ConnectionMode, type NodeLookup } from '@xyflow/system';
+import { Position, type Node } from '@xyflow/react';
+
+const handles: Node['handles'] = [
+  { type: 'source', position: Position.Right, x: 100, y: 20, width: 1, height: 1 },
+  { type: 'target', position: Position.Left, x: 0, y: 20, width: 1, height: 1 },
+];
+
+const nodes: Node[] = [
+  { id: 'rectangle', data: {}, position: { x: 0, y: 0 }, width: 100, height: 100, floating: true, handles },
+  { id: 'circle', data: {}, position: { x: 300, y: 300 }, width: 100, height: 100, floating: 'circle', handles },
+  { id: 'diamond', data: {}, position: { x: 300, y: 300 }, width: 100, height: 100, floating: 'diamond', handles },
+  { id: 'fixed', data: {}, position: { x: 300, y: 0 }, width: 100, height: 100, handles },
+];
+
+describe('Floating Edges Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  const getPosition = (source: string, target: string, sourceHandle: string | null = null) =>
+    getEdgePosition({
+      id: 'e',
+      sourceNode: nodeLookup.get(source)!,
+      sourceHandle,
+      targetNode: nodeLookup.get(target)!,
+      targetHandle: null,
+      connectionMode: ConnectionMode.Strict,
+    });
+
+  it('connects to the bounding rectangle of the node', () => {
+    const position = getPosition('rectangle', 'circle');
+
+    expect(position?.sourceX).to.be.equal(100);
+    expect(position?.sourceY).to.be.equal(100);
+    expect(position?.sourcePosition).to.be.equal(Position.Right);
+  });
+
+  it('connects to the outline of circles and diamonds', () => {
+    const circle = getPosition('rectangle', 'circle');
+    const diamond = getPosition('rectangle', 'diamond');
+
+    expect(circle?.targetX).to.be.closeTo(350 - 50 / Math.SQRT2, 0.001);
+    expect(circle?.targetY).to.be.closeTo(350 - 50 / Math.SQRT2, 0.001);
+    expect(diamond?.targetX).to.be.equal(325);
+    expect(diamond?.targetY).to.be.equal(325);
+  });
+
+  it('points to the handle of a node that is not floating', () => {
+    const position = getPosition('rectangle', 'fixed');
+
+    expect(position?.targetX).to.be.equal(300);
+    expect(position?.targetY).to.be.equal(20.5);
+    expect(position?.sourceX).to.be.equal(100);
+    expect(position?.sourceY).to.be.closeTo(44.1, 0.001);
+  });
+
+  it('uses the handle if the edge has a handle id', () => {
+    nodeLookup.get('rectangle')!.internals.handleBounds = {
+      source: [
+        { id: 'a', nodeId: 'rectangle', type: 'source', position: Position.Bottom, x: 50, y: 100, width: 0, height: 0 },
+      ],
+      target: null,
+    };
+
+    const position = getPosition('rectangle', 'fixed', 'a');
+
+    expect(position?.sourceX).to.be.equal(50);
+    expect(position?.sourceY).to.be.equal(100);
+    expect(position?.sourcePosition).to.be.equal(Position.Bottom);
+  });
+});
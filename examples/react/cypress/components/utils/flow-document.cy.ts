@@ -0,0 +1,161 @@
+import { migrateFlowDocument, parseFlowDocument, validateFlowDocument, type FlowDocument } from '@xyflow/react';
+
+const document: FlowDocument = {
+  nodes: [
+    { id: '1', data: {}, position: { x: 0, y: 0 } },
+    { id: '2', data: {}, position: { x: 200, y: 0 } },
+  ],
+  edges: [{ id: 'e1-2', source: '1', target: '2' }],
+  viewport: { x: 0, y: 0, zoom: 1 },
+};
+
+const getCodes = (errors: { code: string }[]) => errors.map((error) => error.code);
+
+describe('validateFlowDocument Testing', () => {
+  it('accepts a valid document', () => {
+    expect(validateFlowDocument(document)).to.be.deep.equal([]);
+  });
+
+  it('needs a nodes and an edges array', () => {
+    expect(getCodes(validateFlowDocument({ nodes: [] }))).to.be.deep.equal(['invalid-document']);
+    expect(getCodes(validateFlowDocument(null))).to.be.deep.equal(['invalid-document']);
+  });
+
+  it('needs numeric node positions', () => {
+    const errors = validateFlowDocument({
+      ...document,
+      nodes: [...document.nodes, { id: '3', position: { x: '10', y: 0 } }, { id: '4', position: { x: NaN, y: 0 } }],
+    });
+
+    expect(getCodes(errors)).to.be.deep.equal(['invalid-node', 'invalid-node']);
+  });
+
+  it('needs a numeric viewport', () => {
+    expect(getCodes(validateFlowDocument({ ...document, viewport: { x: 0, y: 0 } }))).to.be.deep.equal([
+      'invalid-viewport',
+    ]);
+    expect(getCodes(validateFlowDocument({ ...document, viewport: undefined }))).to.be.deep.equal([]);
+  });
+
+  it('finds duplicate ids', () => {
+    const errors = validateFlowDocument({
+      nodes: [...document.nodes, document.nodes[0]],
+      edges: [...document.edges, document.edges[0]],
+    });
+
+    expect(errors).to.deep.include({
+      code: 'duplicate-node-id',
+      message: 'There are multiple nodes with the id "1".',
+      id: '1',
+    });
+    expect(getCodes(errors)).to.include('duplicate-edge-id');
+  });
+
+  it('finds missing parents, sources and targets', () => {
+    const errors = validateFlowDocument({
+      nodes: [...document.nodes, { id: '3', data: {}, position: { x: 0, y: 0 }, parentId: 'missing' }],
+      edges: [{ id: 'e', source: 'missing', target: 'missing' }],
+    });
+
+    expect(getCodes(errors)).to.have.members(['missing-parent', 'missing-source', 'missing-target']);
+  });
+
+  it('finds parent cycles', () => {
+    const errors = validateFlowDocument({
+      nodes: [
+        { id: 'a', data: {}, position: { x: 0, y: 0 }, parentId: 'b' },
+        { id: 'b', data: {}, position: { x: 0, y: 0 }, parentId: 'a' },
+      ],
+      edges: [],
+    });
+
+    expect(getCodes(errors)).to.be.deep.equal(['parent-cycle', 'parent-cycle']);
+  });
+});
+
+describe('migrateFlowDocument Testing', () => {
+  const migrations = {
+    1: (doc: Record<string, unknown>) => ({ ...doc, edges: doc.edges ?? [] }),
+    2: (doc: Record<string, unknown>) => ({ ...doc, migrated: true }),
+  };
+
+  it('runs the migrations one after the other', () => {
+    const { document: migrated, errors } = migrateFlowDocument({ nodes: [] }, { version: 2, migrations });
+
+    expect(errors).to.be.deep.equal([]);
+    expect(migrated).to.be.deep.equal({ nodes: [], edges: [], migrated: true, version: 2 });
+  });
+
+  it('only runs the migrations after the version of the document', () => {
+    const { document: migrated } = migrateFlowDocument({ nodes: [], version: 1 }, { version: 2, migrations });
+
+    expect(migrated).to.be.deep.equal({ nodes: [], migrated: true, version: 2 });
+  });
+
+  it('fails for newer documents', () => {
+    const { document: migrated, errors } = migrateFlowDocument({ version: 3 }, { version: 2, migrations });
+
+    expect(migrated).to.be.null;
+    expect(getCodes(errors)).to.be.deep.equal(['unsupported-version']);
+  });
+
+  it('fails for missing migrations', () => {
+    const { document: migrated, errors } = migrateFlowDocument({}, { version: 3, migrations });
+
+    expect(migrated).to.be.null;
+    expect(errors[0].code).to.be.equal('missing-migration');
+    expect(errors[0].message).to.be.equal('There is no migration to version 3.');
+  });
+
+  it('catches errors of the migrations', () => {
+    const { document: migrated, errors } = migrateFlowDocument(
+      {},
+      {
+        version: 1,
+        migrations: {
+          1: () => {
+            throw new Error('broken');
+          },
+        },
+      }
+    );
+
+    expect(migrated).to.be.null;
+    expect(errors[0].code).to.be.equal('migration-failed');
+    expect(errors[0].message).to.be.equal('The migration to version 1 failed: broken');
+  });
+});
+
+describe('parseFlowDocument Testing', () => {
+  it('returns a valid document', () => {
+    const { document: parsed, errors } = parseFlowDocument(document);
+
+    expect(errors).to.be.deep.equal([]);
+    expect(parsed).to.be.equal(document);
+  });
+
+  it('migrates the document before it gets validated', () => {
+    const { document: parsed, errors } = parseFlowDocument(
+      { nodes: document.nodes },
+      { version: 1, migrations: { 1: (doc) => ({ ...doc, edges: [] }) } }
+    );
+
+    expect(errors).to.be.deep.equal([]);
+    expect(parsed?.edges).to.be.deep.equal([]);
+    expect(parsed?.version).to.be.equal(1);
+  });
+
+  it('returns null for invalid documents', () => {
+    const { document: parsed, errors } = parseFlowDocument('{}');
+
+    expect(parsed).to.be.null;
+    expect(getCodes(errors)).to.be.deep.equal(['invalid-document']);
+  });
+
+  it('returns null if the migrated document is invalid', () => {
+    const { document: parsed, errors } = parseFlowDocument({ nodes: [], edges: [{ id: 'e', source: '1' }] });
+
+    expect(parsed).to.be.null;
+    expect(getCodes(errors)).to.be.deep.equal(['invalid-edge']);
+  });
+});
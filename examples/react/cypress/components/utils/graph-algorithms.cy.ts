@@ -0,0 +1,74 @@
+import {
+  getDescendants,
+  getAncestors,
+  getTopologicalOrder,
+  findCycle,
+  isCreatingCycle,
+  getConnectedComponents,
+  getShortestPath,
+  type Edge,
+} from '@xyflow/react';
+import { updateConnectionLookup, type ConnectionLookup } from '@xyflow/system';
+
+const edges: Edge[] = [
+  { id: 'e1-2', source: '1', target: '2' },
+  { id: 'e2-3', source: '2', target: '3' },
+];
+
+const nodeIds = ['1', '2', '3', '4'];
+
+function getConnectionLookup(edges: Edge[]): ConnectionLookup {
+  const connectionLookup: ConnectionLookup = new Map();
+  updateConnectionLookup(connectionLookup, new Map(), edges);
+
+  return connectionLookup;
+}
+
+describe('Graph Algorithms Testing', () => {
+  const connectionLookup = getConnectionLookup(edges);
+  const cyclicConnectionLookup = getConnectionLookup([...edges, { id: 'e3-1', source: '3', target: '1' }]);
+
+  it('tests getDescendants function', () => {
+    expect(getDescendants('1', connectionLookup)).to.be.deep.equal(['2', '3']);
+    expect(getDescendants('3', connectionLookup)).to.be.deep.equal([]);
+  });
+
+  it('tests getAncestors function', () => {
+    expect(getAncestors('3', connectionLookup)).to.be.deep.equal(['2', '1']);
+    expect(getAncestors('4', connectionLookup)).to.be.deep.equal([]);
+  });
+
+  it('tests getTopologicalOrder function', () => {
+    const order = getTopologicalOrder(['3', '2', '1', '4'], connectionLookup)!;
+
+    expect(order).to.have.members(nodeIds);
+    expect(order.indexOf('1')).to.be.lessThan(order.indexOf('2'));
+    expect(order.indexOf('2')).to.be.lessThan(order.indexOf('3'));
+    expect(getTopologicalOrder(['1', '2', '3'], cyclicConnectionLookup)).to.be.null;
+  });
+
+  it('tests findCycle function', () => {
+    expect(findCycle(nodeIds, connectionLookup)).to.be.null;
+    expect(findCycle(nodeIds, cyclicConnectionLookup)).to.have.members(['1', '2', '3']);
+  });
+
+  it('tests isCreatingCycle function', () => {
+    expect(isCreatingCycle({ source: '3', target: '1' }, connectionLookup)).to.be.true;
+    expect(isCreatingCycle({ source: '1', target: '1' }, connectionLookup)).to.be.true;
+    expect(isCreatingCycle({ source: '1', target: '3' }, connectionLookup)).to.be.false;
+  });
+
+  it('tests getConnectedComponents function', () => {
+    expect(getConnectedComponents(nodeIds, connectionLookup)).to.be.deep.equal([['1', '2', '3'], ['4']]);
+  });
+
+  it('tests getShortestPath function', () => {
+    expect(getShortestPath('1', '3', connectionLookup)).to.be.deep.equal({
+      nodeIds: ['1', '2', '3'],
+      edgeIds: ['e1-2', 'e2-3'],
+    });
+    expect(getShortestPath('3', '1', connectionLookup)).to.be.null;
+    expect(getShortestPath('3', '1', connectionLookup, 'incoming')?.nodeIds).to.be.deep.equal(['3', '2', '1']);
+    expect(getShortestPath('1', '4', connectionLookup, 'both')).to.be.null;
+  });
+});
@@ -0,0 +1,98 @@
+import { adoptUserNodes, type NodeLookup } from '@xyflow/system';
+import { getGroupedNodes, getUngroupedNodes, type Node } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 100, y: 100 }, measured: { width: 100, height: 50 } },
+  { id: '2', data: {}, position: { x: 300, y: 200 }, measured: { width: 100, height: 50 } },
+  { id: 'parent', data: {}, position: { x: 500, y: 500 }, measured: { width: 300, height: 300 } },
+  {
+    id: 'child',
+    data: {},
+    position: { x: 50, y: 50 },
+    measured: { width: 100, height: 50 },
+    parentId: 'parent',
+    extent: 'parent',
+  },
+];
+
+const getNodeLookup = (flowNodes: Node[]) => {
+  const nodeLookup: NodeLookup = new Map();
+  adoptUserNodes(flowNodes, nodeLookup, new Map());
+
+  return nodeLookup;
+};
+
+describe('getGroupedNodes Testing', () => {
+  const nodeLookup = getNodeLookup(nodes);
+
+  it('creates a group node around the nodes', () => {
+    const result = getGroupedNodes({ nodes, nodeIds: ['1', '2'], nodeLookup, groupNode: { id: 'group' } });
+
+    expect(result?.groupNode).to.be.deep.equal({
+      type: 'group',
+      data: {},
+      id: 'group',
+      position: { x: 80, y: 80 },
+      width: 340,
+      height: 190,
+    });
+  });
+
+  it('inserts the group node before its children and keeps their absolute positions', () => {
+    const result = getGroupedNodes({ nodes, nodeIds: ['1', '2'], nodeLookup, groupNode: { id: 'group' } });
+
+    expect(result?.nodes.map((node) => node.id)).to.be.deep.equal(['group', '1', '2', 'parent', 'child']);
+    expect(result?.nodes[1]).to.include({ parentId: 'group' });
+    expect(result?.nodes[1].position).to.be.deep.equal({ x: 20, y: 20 });
+    expect(result?.nodes[2].position).to.be.deep.equal({ x: 220, y: 120 });
+  });
+
+  it('keeps the parent of nodes whose ancestor gets grouped as well', () => {
+    const result = getGroupedNodes({ nodes, nodeIds: ['parent', 'child'], nodeLookup, groupNode: { id: 'group' } });
+
+    expect(result?.nodes.find((node) => node.id === 'parent')?.parentId).to.be.equal('group');
+    expect(result?.nodes.find((node) => node.id === 'child')?.parentId).to.be.equal('parent');
+  });
+
+  it('places the group inside of the common parent', () => {
+    const result = getGroupedNodes({ nodes, nodeIds: ['child'], nodeLookup, groupNode: { id: 'group' } });
+
+    expect(result?.groupNode).to.include({ parentId: 'parent' });
+    expect(result?.groupNode.position).to.be.deep.equal({ x: 30, y: 30 });
+    expect(result?.nodes.find((node) => node.id === 'child')?.position).to.be.deep.equal({ x: 20, y: 20 });
+  });
+
+  it('returns null if there is nothing to group', () => {
+    expect(getGroupedNodes({ nodes, nodeIds: [], nodeLookup })).to.be.null;
+  });
+});
+
+describe('getUngroupedNodes Testing', () => {
+  it('removes the group and keeps the absolute positions of its children', () => {
+    const nextNodes = getUngroupedNodes({ nodes, groupId: 'parent', nodeLookup: getNodeLookup(nodes) });
+
+    expect(nextNodes?.map((node) => node.id)).to.be.deep.equal(['1', '2', 'child']);
+    expect(nextNodes?.[2].position).to.be.deep.equal({ x: 550, y: 550 });
+  });
+
+  it('removes the parent extent of nodes without a parent', () => {
+    const nextNodes = getUngroupedNodes({ nodes, groupId: 'parent', nodeLookup: getNodeLookup(nodes) });
+
+    expect(nextNodes?.[2]).not.to.have.any.keys('parentId', 'extent');
+  });
+
+  it('reverts the grouping', () => {
+    const grouped = getGroupedNodes({ nodes, nodeIds: ['1', '2'], nodeLookup: getNodeLookup(nodes) })!;
+    const nextNodes = getUngroupedNodes({
+      nodes: grouped.nodes,
+      groupId: grouped.groupNode.id,
+      nodeLookup: getNodeLookup(grouped.nodes),
+    });
+
+    expect(nextNodes).to.be.deep.equal(nodes);
+  });
+
+  it('returns null if the group does not exist', () => {
+    expect(getUngroupedNodes({ nodes, groupId: 'missing', nodeLookup: getNodeLookup(nodes) })).to.be.null;
+  });
+});
@@ -0,0 +1,63 @@
+import { adoptUserNodes, type NodeLookup } from '@xyflow/system';
+import { snapRectToNodes, type Node, type Rect } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '2', data: {}, position: { x: 300, y: 200 }, measured: { width: 100, height: 50 } },
+  { id: 'dragged', data: {}, position: { x: 500, y: 500 }, measured: { width: 100, height: 50 } },
+  { id: 'child', data: {}, position: { x: 0, y: 0 }, measured: { width: 50, height: 50 }, parentId: 'dragged' },
+];
+
+describe('snapRectToNodes Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  const snap = (rect: Rect, searchRect?: Rect) =>
+    snapRectToNodes({ rect, nodeLookup, draggedNodeIds: new Set(['dragged']), threshold: 5, searchRect });
+
+  it('snaps the rect to the closest node within the threshold', () => {
+    const { snapOffset } = snap({ x: 303, y: 202, width: 100, height: 50 });
+
+    expect(snapOffset).to.be.deep.equal({ x: -3, y: -2 });
+  });
+
+  it('only snaps the axes that are within the threshold', () => {
+    const { snapOffset, helperLines } = snap({ x: 3, y: 100, width: 100, height: 50 });
+
+    expect(snapOffset).to.be.deep.equal({ x: -3, y: 0 });
+    expect(helperLines.every((line) => line.orientation === 'vertical')).to.be.true;
+  });
+
+  it('draws helper lines from the rect to the aligned nodes', () => {
+    const { helperLines } = snap({ x: 3, y: 100, width: 100, height: 50 });
+
+    expect(helperLines).to.be.deep.equal([
+      { orientation: 'vertical', position: 0, start: 0, end: 150 },
+      { orientation: 'vertical', position: 50, start: 0, end: 150 },
+      { orientation: 'vertical', position: 100, start: 0, end: 150 },
+    ]);
+  });
+
+  it('does not snap to nodes that are too far away', () => {
+    const { snapOffset, helperLines } = snap({ x: 20, y: 100, width: 100, height: 50 });
+
+    expect(snapOffset).to.be.deep.equal({ x: 0, y: 0 });
+    expect(helperLines).to.be.empty;
+  });
+
+  it('ignores the dragged nodes and their children', () => {
+    const { snapOffset } = snap({ x: 497, y: 100, width: 100, height: 50 });
+
+    expect(snapOffset).to.be.deep.equal({ x: 0, y: 0 });
+  });
+
+  it('only uses the nodes inside of the search rect', () => {
+    const { snapOffset } = snap(
+      { x: 303, y: 202, width: 100, height: 50 },
+      { x: -10, y: -10, width: 200, height: 200 }
+    );
+
+    expect(snapOffset).to.be.deep.equal({ x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,61 @@
+import { defaultKeymap, getKeymapAction, isKeyComboPressed } from '@xyflow/react';
+
+const keyEvent = (
+  key: string,
+  modifiers: Partial<Pick<KeyboardEvent, 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey'>> = {}
+) => ({
+  key,
+  code: '',
+  shiftKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+describe('Keymap Testing', () => {
+  it('tests isKeyComboPressed function', () => {
+    expect(isKeyComboPressed(keyEvent('ArrowUp'), 'ArrowUp')).to.be.true;
+    expect(isKeyComboPressed(keyEvent('b'), ['a', 'b'])).to.be.true;
+    expect(isKeyComboPressed(keyEvent('a'), null)).to.be.false;
+  });
+
+  it('matches the modifier keys exactly', () => {
+    expect(isKeyComboPressed(keyEvent('ArrowUp', { shiftKey: true }), 'ArrowUp')).to.be.false;
+    expect(isKeyComboPressed(keyEvent('ArrowUp', { shiftKey: true }), 'Shift+ArrowUp')).to.be.true;
+    expect(isKeyComboPressed(keyEvent('Z', { ctrlKey: true, shiftKey: true }), 'Control+Shift+z')).to.be.true;
+  });
+
+  it('supports the plus key', () => {
+    expect(isKeyComboPressed(keyEvent('+', { ctrlKey: true, shiftKey: true }), 'Control++')).to.be.true;
+  });
+
+  describe('tests getKeymapAction function', () => {
+    it('uses the default keys', () => {
+      expect(getKeymapAction(keyEvent('Backspace'), {}, ['delete', 'selectAll'])).to.be.equal('delete');
+    });
+
+    it('disables actions that are set to null', () => {
+      expect(getKeymapAction(keyEvent('Backspace'), { delete: null }, ['delete'])).to.be.undefined;
+    });
+
+    it('uses the keys of the keymap', () => {
+      const action = getKeymapAction(keyEvent('a', { ctrlKey: true }), { selectAll: 'Control+a' }, [
+        'delete',
+        'selectAll',
+      ]);
+
+      expect(action).to.be.equal('selectAll');
+    });
+
+    it('supports custom actions', () => {
+      expect(getKeymapAction(keyEvent('x'), { custom: 'x' }, ['custom'])).to.be.equal('custom');
+    });
+  });
+
+  it('leaves the shortcuts that are used by the browser unbound', () => {
+    expect(defaultKeymap.duplicate).to.be.null;
+    expect(defaultKeymap.selectAll).to.be.null;
+    expect(defaultKeymap.deselect).to.be.null;
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  getNodesInsidePolygon,
+  isPointInPolygon,
+  isPolylineInPolygon,
+  isRectInPolygon,
+  type Node,
+  type XYPosition,
+} from '@xyflow/react';
+import { adoptUserNodes, type NodeLookup } from '@xyflow/system';
+
+const square: XYPosition[] = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 100, y: 100 },
+  { x: 0, y: 100 },
+];
+
+const nodes: Node[] = [
+  { id: 'inside', data: {}, position: { x: 10, y: 10 }, measured: { width: 20, height: 20 } },
+  { id: 'partially', data: {}, position: { x: 80, y: 10 }, measured: { width: 40, height: 20 } },
+  { id: 'outside', data: {}, position: { x: 300, y: 300 }, measured: { width: 100, height: 50 } },
+  {
+    id: 'not-selectable',
+    data: {},
+    position: { x: 20, y: 50 },
+    measured: { width: 10, height: 10 },
+    selectable: false,
+  },
+];
+
+describe('Lasso Testing', () => {
+  it('tests isPointInPolygon function', () => {
+    expect(isPointInPolygon({ x: 50, y: 50 }, square)).to.be.true;
+    expect(isPointInPolygon({ x: 150, y: 50 }, square)).to.be.false;
+  });
+
+  it('tests isPolylineInPolygon function', () => {
+    const crossingLine = [
+      { x: 50, y: 50 },
+      { x: 150, y: 50 },
+    ];
+
+    expect(
+      isPolylineInPolygon(
+        [
+          { x: 10, y: 10 },
+          { x: 90, y: 90 },
+        ],
+        square
+      )
+    ).to.be.true;
+    expect(isPolylineInPolygon(crossingLine, square)).to.be.false;
+    expect(isPolylineInPolygon(crossingLine, square, true)).to.be.true;
+  });
+
+  it('tests isRectInPolygon function', () => {
+    const overlappingRect = { x: 80, y: 10, width: 40, height: 20 };
+
+    expect(isRectInPolygon({ x: 10, y: 10, width: 20, height: 20 }, square)).to.be.true;
+    expect(isRectInPolygon(overlappingRect, square)).to.be.false;
+    expect(isRectInPolygon(overlappingRect, square, true)).to.be.true;
+    // the polygon is drawn inside of the rect
+    expect(isRectInPolygon({ x: -100, y: -100, width: 300, height: 300 }, square, true)).to.be.true;
+  });
+
+  describe('tests getNodesInsidePolygon function', () => {
+    const nodeLookup: NodeLookup = new Map();
+    adoptUserNodes(nodes, nodeLookup, new Map());
+
+    const getIds = (insideNodes: { id: string }[]) => insideNodes.map((node) => node.id);
+
+    it('returns the nodes inside of the polygon', () => {
+      expect(getIds(getNodesInsidePolygon(nodeLookup, square))).to.have.members(['inside', 'not-selectable']);
+    });
+
+    it('returns the nodes that overlap the polygon', () => {
+      expect(getIds(getNodesInsidePolygon(nodeLookup, square, true))).to.have.members([
+        'inside',
+        'partially',
+        'not-selectable',
+      ]);
+    });
+
+    it('skips nodes that are not selectable', () => {
+      expect(getIds(getNodesInsidePolygon(nodeLookup, square, false, true))).to.be.deep.equal(['inside']);
+    });
+
+    it('needs at least three points', () => {
+      expect(getNodesInsidePolygon(nodeLookup, square.slice(0, 2), true)).to.be.deep.equal([]);
+    });
+  });
+});
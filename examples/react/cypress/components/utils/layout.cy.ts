@@ -0,0 +1,79 @@
+import { getLayeredLayout, type Edge, type Node, type NodeChange, type XYPosition } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '2', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '3', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '4', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+];
+
+const edges: Edge[] = [
+  { id: 'e1-2', source: '1', target: '2' },
+  { id: 'e1-3', source: '1', target: '3' },
+  { id: 'e3-4', source: '3', target: '4' },
+];
+
+const getPositions = (changes: NodeChange[]): Record<string, XYPosition> =>
+  Object.fromEntries(changes.flatMap((change) => (change.type === 'position' ? [[change.id, change.position!]] : [])));
+
+describe('getLayeredLayout Testing', () => {
+  it('returns a position change for every node', () => {
+    const changes = getLayeredLayout({ nodes, edges });
+
+    expect(changes.map((change) => change.id)).to.have.members(['1', '2', '3', '4']);
+    expect(changes.every((change) => change.type === 'position')).to.be.true;
+  });
+
+  it('places the ranks from top to bottom', () => {
+    const positions = getPositions(getLayeredLayout({ nodes, edges, rankSpacing: 80 }));
+
+    expect(positions['2'].y).to.be.equal(positions['1'].y + 50 + 80);
+    expect(positions['3'].y).to.be.equal(positions['2'].y);
+    expect(positions['4'].y).to.be.equal(positions['3'].y + 50 + 80);
+  });
+
+  it('places the ranks from left to right', () => {
+    const positions = getPositions(getLayeredLayout({ nodes, edges, direction: 'LR', rankSpacing: 80 }));
+
+    expect(positions['2'].x).to.be.equal(positions['1'].x + 100 + 80);
+    expect(positions['3'].x).to.be.equal(positions['2'].x);
+    expect(positions['4'].x).to.be.equal(positions['3'].x + 100 + 80);
+  });
+
+  it('keeps the nodes of a rank apart', () => {
+    const positions = getPositions(getLayeredLayout({ nodes, edges, nodeSpacing: 40 }));
+
+    expect(Math.abs(positions['2'].x - positions['3'].x)).to.be.at.least(100 + 40);
+  });
+
+  it('resizes the parents to fit their laid out children', () => {
+    const subFlowNodes: Node[] = [
+      { id: 'group', data: {}, position: { x: 0, y: 0 }, measured: { width: 50, height: 50 } },
+      { id: 'a', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 }, parentId: 'group' },
+      { id: 'b', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 }, parentId: 'group' },
+      { id: 'c', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+    ];
+    const subFlowEdges: Edge[] = [
+      { id: 'ea-b', source: 'a', target: 'b' },
+      { id: 'egroup-c', source: 'group', target: 'c' },
+    ];
+    const changes = getLayeredLayout({ nodes: subFlowNodes, edges: subFlowEdges, rankSpacing: 80, padding: 20 });
+    const positions = getPositions(changes);
+
+    expect(changes).to.deep.include({
+      id: 'group',
+      type: 'dimensions',
+      dimensions: { width: 140, height: 220 },
+      setAttributes: true,
+    });
+    expect(positions['a']).to.be.deep.equal({ x: 20, y: 20 });
+    // the next rank starts below the resized parent
+    expect(positions['c'].y).to.be.equal(positions['group'].y + 220 + 80);
+  });
+
+  it('lays out cyclic graphs', () => {
+    const changes = getLayeredLayout({ nodes, edges: [...edges, { id: 'e4-1', source: '4', target: '1' }] });
+
+    expect(changes.length).to.be.equal(nodes.length);
+  });
+});
@@ -0,0 +1,43 @@
+import { adoptUserNodes, getNodeInDirection, type NodeLookup } from '@xyflow/system';
+import type { Node } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: 'center', data: {}, position: { x: 0, y: 0 }, width: 100, height: 40 },
+  { id: 'right', data: {}, position: { x: 200, y: 0 }, width: 100, height: 40 },
+  { id: 'far-right', data: {}, position: { x: 500, y: 0 }, width: 100, height: 40 },
+  { id: 'right-offset', data: {}, position: { x: 150, y: 200 }, width: 100, height: 40 },
+  { id: 'below', data: {}, position: { x: 0, y: 150 }, width: 100, height: 40 },
+  { id: 'hidden', data: {}, position: { x: 0, y: -100 }, width: 100, height: 40, hidden: true },
+  { id: 'unmeasured', data: {}, position: { x: -200, y: 0 } },
+];
+
+describe('Navigation Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  it('returns the nearest node in a direction', () => {
+    expect(getNodeInDirection({ nodeId: 'center', direction: { x: 1, y: 0 }, nodeLookup })?.id).to.be.equal('right');
+    expect(getNodeInDirection({ nodeId: 'center', direction: { x: 0, y: 1 }, nodeLookup })?.id).to.be.equal('below');
+  });
+
+  it('prefers nodes in a straight line', () => {
+    const nextNode = getNodeInDirection({
+      nodeId: 'center',
+      direction: { x: 1, y: 0 },
+      nodeLookup,
+      filter: (node) => node.id !== 'right',
+    });
+
+    expect(nextNode?.id).to.be.equal('far-right');
+  });
+
+  it('skips hidden and unmeasured nodes', () => {
+    expect(getNodeInDirection({ nodeId: 'center', direction: { x: 0, y: -1 }, nodeLookup })).to.be.undefined;
+    expect(getNodeInDirection({ nodeId: 'center', direction: { x: -1, y: 0 }, nodeLookup })).to.be.undefined;
+  });
+
+  it('returns undefined for an unknown node or an empty direction', () => {
+    expect(getNodeInDirection({ nodeId: 'unknown', direction: { x: 1, y: 0 }, nodeLookup })).to.be.undefined;
+    expect(getNodeInDirection({ nodeId: 'center', direction: { x: 0, y: 0 }, nodeLookup })).to.be.undefined;
+  });
+});
@@ -0,0 +1,60 @@
+import { getOrthogonalObstacles, getOrthogonalPath, Position, type Node } from '@xyflow/react';
+import { adoptUserNodes, createSpatialIndex, nodeToRect, type NodeLookup } from '@xyflow/system';
+
+const nodes: Node[] = [
+  { id: 'source', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: 'obstacle', data: {}, position: { x: 0, y: 100 }, measured: { width: 100, height: 50 } },
+  { id: 'target', data: {}, position: { x: 0, y: 200 }, measured: { width: 100, height: 50 } },
+];
+
+const edgeParams = {
+  sourceX: 50,
+  sourceY: 50,
+  sourcePosition: Position.Bottom,
+  targetX: 50,
+  targetY: 200,
+  targetPosition: Position.Top,
+};
+
+function getNodeLookup(nodes: Node[]): NodeLookup {
+  const nodeLookup: NodeLookup = new Map();
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  return nodeLookup;
+}
+
+describe('Orthogonal Edge Testing', () => {
+  const nodeLookup = getNodeLookup(nodes);
+
+  it('draws a straight line without obstacles', () => {
+    const [path] = getOrthogonalPath({ ...edgeParams, nodeLookup: getNodeLookup([nodes[0], nodes[2]]) });
+
+    expect(path).to.be.equal('M50 50L50 200');
+  });
+
+  it('routes the edge around the nodes in between', () => {
+    const [path, labelX, labelY] = getOrthogonalPath({ ...edgeParams, nodeLookup });
+
+    expect(path).not.to.be.equal('M50 50L50 200');
+    expect(path.startsWith('M50 50')).to.be.true;
+    expect(path.endsWith('L50 200')).to.be.true;
+    expect(labelX).to.be.lessThan(0);
+    expect(labelY).to.be.equal(125);
+  });
+
+  it('returns the nodes with their margin as obstacles', () => {
+    const obstacles = getOrthogonalObstacles({ ...edgeParams, nodeLookup, margin: 20 });
+
+    expect(obstacles).to.deep.include({ x: -20, y: 80, width: 140, height: 90 });
+  });
+
+  it('returns the same path with a spatial index', () => {
+    const spatialIndex = createSpatialIndex();
+    nodeLookup.forEach((node) => spatialIndex.update(node.id, nodeToRect(node)));
+
+    const [path] = getOrthogonalPath({ ...edgeParams, nodeLookup });
+    const [indexedPath] = getOrthogonalPath({ ...edgeParams, nodeLookup, spatialIndex });
+
+    expect(indexedPath).to.be.equal(path);
+  });
+});
@@ -0,0 +1,92 @@
+import { updateParallelEdgeLookup, type ParallelEdgeLookup } from '@xyflow/system';
+import { getParallelEdgeOffset, getStraightPath, Position, type Edge } from '@xyflow/react';
+
+const edges: Edge[] = [
+  { id: 'a', source: '1', target: '2' },
+  { id: 'b', source: '1', target: '2' },
+  { id: 'c', source: '2', target: '1' },
+  { id: 'd', source: '1', target: '2', sourceHandle: 'x' },
+  { id: 'loop-1', source: '3', target: '3' },
+  { id: 'loop-2', source: '3', target: '3' },
+];
+
+describe('Parallel Edges Testing', () => {
+  const parallelEdgeLookup: ParallelEdgeLookup = new Map();
+
+  updateParallelEdgeLookup(parallelEdgeLookup, edges);
+
+  const getOffset = (id: string, spacing?: number) =>
+    getParallelEdgeOffset({ ...edges.find((edge) => edge.id === id)!, parallelEdgeLookup, spacing });
+
+  it('groups the edges that connect the same handles in both directions', () => {
+    expect(parallelEdgeLookup.size).to.be.equal(3);
+    expect([...parallelEdgeLookup.values()]).to.deep.include(['a', 'b', 'c']);
+  });
+
+  it('spreads parallel edges evenly around the direct connection', () => {
+    expect(getOffset('a')).to.be.equal(-20);
+    expect(getOffset('b')).to.be.equal(0);
+    expect(getOffset('a', 10)).to.be.equal(-10);
+  });
+
+  it('flips the offset of edges that point in the other direction', () => {
+    const [, , labelA] = getStraightPath({
+      sourceX: 0,
+      sourceY: 0,
+      targetX: 100,
+      targetY: 0,
+      parallelOffset: getOffset('a'),
+    });
+    const [, , labelC] = getStraightPath({
+      sourceX: 100,
+      sourceY: 0,
+      targetX: 0,
+      targetY: 0,
+      parallelOffset: getOffset('c'),
+    });
+
+    expect(labelA).to.be.equal(-20);
+    expect(labelC).to.be.equal(20);
+  });
+
+  it('does not offset edges without parallel edges', () => {
+    expect(getOffset('d')).to.be.equal(0);
+  });
+
+  it('draws every self-loop around the previous one', () => {
+    expect(getOffset('loop-1')).to.be.equal(0);
+    expect(getOffset('loop-2')).to.be.equal(20);
+  });
+});
+
+describe('getStraightPath Testing', () => {
+  it('bends the path by the parallel offset', () => {
+    const [path, labelX, labelY] = getStraightPath({
+      sourceX: 0,
+      sourceY: 0,
+      targetX: 100,
+      targetY: 0,
+      parallelOffset: 20,
+    });
+
+    expect(path).to.be.equal('M 0,0Q 50,40 100,0');
+    expect(labelX).to.be.equal(50);
+    expect(labelY).to.be.equal(20);
+  });
+
+  it('draws a self-loop around the node', () => {
+    const [path, labelX, labelY] = getStraightPath({
+      sourceX: 100,
+      sourceY: 20,
+      sourcePosition: Position.Right,
+      targetX: 0,
+      targetY: 20,
+      targetPosition: Position.Left,
+      selfLoopRect: { x: 0, y: 0, width: 100, height: 40 },
+    });
+
+    expect(path).to.be.equal('M 100,20L 130,20L 130,-30L -30,-30L -30,20L 0,20');
+    expect(labelX).to.be.equal(50);
+    expect(labelY).to.be.equal(-30);
+  });
+});
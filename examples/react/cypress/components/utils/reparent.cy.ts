@@ -0,0 +1,78 @@
+import { adoptUserNodes, getDropTarget, getReparentChanges, type NodeLookup } from '@xyflow/system';
+import type { Node } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '1-child', data: {}, position: { x: 10, y: 10 }, measured: { width: 20, height: 20 }, parentId: '1' },
+  { id: 'container', data: {}, position: { x: 200, y: 0 }, measured: { width: 300, height: 300 }, dropContainer: true },
+  {
+    id: 'inner',
+    data: {},
+    position: { x: 50, y: 50 },
+    measured: { width: 100, height: 100 },
+    parentId: 'container',
+    dropContainer: true,
+  },
+  { id: 'bounded', data: {}, position: { x: 600, y: 600 }, measured: { width: 100, height: 50 }, extent: 'parent' },
+];
+
+describe('getDropTarget Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  const getDropTargetId = (x: number, y: number, draggedNodeIds: string[] = []) =>
+    getDropTarget({ position: { x, y }, nodeLookup, draggedNodeIds: new Set(draggedNodeIds) })?.id;
+
+  it('returns the drop container under the pointer', () => {
+    expect(getDropTargetId(210, 10)).to.be.equal('container');
+  });
+
+  it('returns the top most drop container', () => {
+    expect(getDropTargetId(260, 60)).to.be.equal('inner');
+  });
+
+  it('ignores nodes that are not drop containers', () => {
+    expect(getDropTargetId(50, 20)).to.be.undefined;
+  });
+
+  it('ignores the dragged nodes and their children', () => {
+    expect(getDropTargetId(260, 60, ['inner'])).to.be.equal('container');
+    expect(getDropTargetId(260, 60, ['container'])).to.be.undefined;
+  });
+});
+
+describe('getReparentChanges Testing', () => {
+  const nodeLookup: NodeLookup = new Map();
+
+  adoptUserNodes(nodes, nodeLookup, new Map());
+
+  it('moves nodes to the top level and keeps their absolute position', () => {
+    const changes = getReparentChanges({ nodes, nodeLookup, nodeIds: ['inner'] });
+
+    expect(changes).to.have.length(1);
+    expect(changes[0].type).to.be.equal('replace');
+    expect(changes[0].type === 'replace' && changes[0].item.position).to.be.deep.equal({ x: 250, y: 50 });
+    expect(changes[0].type === 'replace' && changes[0].item.parentId).to.be.undefined;
+  });
+
+  it('moves nodes and their descendants behind their new parent', () => {
+    const changes = getReparentChanges({ nodes, nodeLookup, nodeIds: ['1'], parentId: 'container' });
+
+    expect(changes.map((change) => change.type)).to.be.deep.equal(['remove', 'add', 'remove', 'add']);
+    expect(changes[1].type === 'add' && changes[1].index).to.be.equal(1);
+    expect(changes[1].type === 'add' && changes[1].item).to.include({ id: '1', parentId: 'container' });
+    expect(changes[1].type === 'add' && changes[1].item.position).to.be.deep.equal({ x: -200, y: 0 });
+    expect(changes[3].type === 'add' && changes[3].item).to.include({ id: '1-child', parentId: '1' });
+  });
+
+  it('moves nodes with a parent extent inside of the new parent', () => {
+    const changes = getReparentChanges({ nodes, nodeLookup, nodeIds: ['bounded'], parentId: 'container' });
+
+    expect(changes[0].type === 'replace' && changes[0].item.position).to.be.deep.equal({ x: 200, y: 250 });
+  });
+
+  it('returns no changes if the parent does not exist', () => {
+    expect(getReparentChanges({ nodes, nodeLookup, nodeIds: ['1'], parentId: 'missing' })).to.be.empty;
+  });
+});
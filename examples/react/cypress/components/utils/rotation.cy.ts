@@ -0,0 +1,71 @@
+import { adoptUserNodes, getEdgePosition, nodeToRect, ConnectionMode, type NodeLookup } from '@xyflow/system';
+import { applyNodeChanges, getRotatedRect, rotatePoint, Position, type Node } from '@xyflow/react';
+
+const handles: Node['handles'] = [
+  { type: 'source', position: Position.Right, x: 100, y: 20, width: 0, height: 0 },
+  { type: 'target', position: Position.Top, x: 50, y: 0, width: 0, height: 0 },
+];
+
+const nodes: Node[] = [
+  { id: 'rotated', data: {}, position: { x: 0, y: 0 }, width: 100, height: 40, rotation: 90, handles },
+  { id: 'other', data: {}, position: { x: 300, y: 0 }, width: 100, height: 40, handles },
+];
+
+describe('Rotation Testing', () => {
+  it('rotates a point around a center', () => {
+    const point = rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 }, 90);
+
+    expect(point.x).to.be.closeTo(0, 0.001);
+    expect(point.y).to.be.closeTo(10, 0.001);
+    expect(rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 })).to.be.deep.equal({ x: 10, y: 0 });
+  });
+
+  it('returns the bounding rect of a rotated rect', () => {
+    const rect = getRotatedRect({ x: 0, y: 0, width: 100, height: 20 }, 90);
+    const diagonal = getRotatedRect({ x: 0, y: 0, width: 100, height: 100 }, 45);
+
+    expect(rect.x).to.be.closeTo(40, 0.001);
+    expect(rect.y).to.be.closeTo(-40, 0.001);
+    expect(rect.width).to.be.closeTo(20, 0.001);
+    expect(rect.height).to.be.closeTo(100, 0.001);
+    expect(diagonal.width).to.be.closeTo(100 * Math.SQRT2, 0.001);
+  });
+
+  it('uses the rotated bounds of the nodes', () => {
+    const nodeLookup: NodeLookup = new Map();
+    adoptUserNodes(nodes, nodeLookup, new Map());
+
+    const rect = nodeToRect(nodeLookup.get('rotated')!);
+
+    expect(rect.x).to.be.closeTo(30, 0.001);
+    expect(rect.y).to.be.closeTo(-30, 0.001);
+    expect(rect.width).to.be.closeTo(40, 0.001);
+    expect(rect.height).to.be.closeTo(100, 0.001);
+  });
+
+  it('rotates the handles of the edges', () => {
+    const nodeLookup: NodeLookup = new Map();
+    adoptUserNodes(nodes, nodeLookup, new Map());
+
+    const position = getEdgePosition({
+      id: 'e',
+      sourceNode: nodeLookup.get('rotated')!,
+      sourceHandle: null,
+      targetNode: nodeLookup.get('other')!,
+      targetHandle: null,
+      connectionMode: ConnectionMode.Strict,
+    });
+
+    expect(position?.sourceX).to.be.closeTo(50, 0.001);
+    expect(position?.sourceY).to.be.closeTo(70, 0.001);
+    expect(position?.sourcePosition).to.be.equal(Position.Bottom);
+    expect(position?.targetPosition).to.be.equal(Position.Top);
+  });
+
+  it('applies rotation changes', () => {
+    const nextNodes = applyNodeChanges([{ id: 'other', type: 'rotation', rotation: 45, rotating: true }], nodes);
+
+    expect(nextNodes[1]).to.include({ rotation: 45, rotating: true });
+    expect(nodes[1].rotation).to.be.undefined;
+  });
+});
@@ -0,0 +1,77 @@
+import { createSpatialIndex, updateEdgeSpatialIndex, adoptUserNodes, type NodeLookup } from '@xyflow/system';
+import type { Edge, Node } from '@xyflow/react';
+
+const nodes: Node[] = [
+  { id: '1', data: {}, position: { x: 0, y: 0 }, measured: { width: 100, height: 50 } },
+  { id: '2', data: {}, position: { x: 400, y: 0 }, measured: { width: 100, height: 50 } },
+];
+
+describe('Spatial Index Testing', () => {
+  it('finds the items that overlap a rect', () => {
+    const spatialIndex = createSpatialIndex(100);
+
+    spatialIndex.update('a', { x: 0, y: 0, width: 50, height: 50 });
+    spatialIndex.update('b', { x: 300, y: 300, width: 50, height: 50 });
+
+    expect(spatialIndex.search({ x: 0, y: 0, width: 10, height: 10 })).to.be.deep.equal(['a']);
+    expect(spatialIndex.search({ x: 290, y: 290, width: 20, height: 20 })).to.be.deep.equal(['b']);
+    expect(spatialIndex.search({ x: 150, y: 150, width: 10, height: 10 })).to.be.deep.equal([]);
+  });
+
+  it('returns items without a rect on every search', () => {
+    const spatialIndex = createSpatialIndex(100);
+
+    spatialIndex.update('a', { x: 0, y: 0, width: 50, height: 50 });
+    spatialIndex.update('b', null);
+
+    expect(spatialIndex.search({ x: 1000, y: 1000, width: 10, height: 10 })).to.be.deep.equal(['b']);
+  });
+
+  it('moves and removes items', () => {
+    const spatialIndex = createSpatialIndex(100);
+
+    spatialIndex.update('a', { x: 0, y: 0, width: 50, height: 50 });
+    spatialIndex.update('b', { x: 300, y: 300, width: 50, height: 50 });
+    spatialIndex.update('a', { x: 300, y: 300, width: 10, height: 10 });
+
+    expect(spatialIndex.search({ x: 0, y: 0, width: 10, height: 10 })).to.be.deep.equal([]);
+    expect(spatialIndex.search({ x: 300, y: 300, width: 1, height: 1 })).to.be.deep.equal(['a', 'b']);
+
+    spatialIndex.remove('b');
+
+    expect(spatialIndex.has('b')).to.be.false;
+    expect(spatialIndex.size).to.be.equal(1);
+  });
+
+  describe('tests updateEdgeSpatialIndex function', () => {
+    const nodeLookup: NodeLookup = new Map();
+    adoptUserNodes(nodes, nodeLookup, new Map());
+
+    it('uses the bounds of the source and target node and the waypoints', () => {
+      const spatialIndex = createSpatialIndex();
+      const edges: Edge[] = [{ id: 'e1-2', source: '1', target: '2', waypoints: [{ x: 250, y: -100 }] }];
+
+      updateEdgeSpatialIndex(spatialIndex, edges, nodeLookup);
+
+      expect(spatialIndex.getRect('e1-2')).to.be.deep.equal({ x: 0, y: -100, width: 500, height: 150 });
+    });
+
+    it('adds the margin of routed edges', () => {
+      const spatialIndex = createSpatialIndex();
+      const edges: Edge[] = [{ id: 'e1-2', source: '1', target: '2' }];
+
+      updateEdgeSpatialIndex(spatialIndex, edges, nodeLookup, { getRouteMargin: () => 20 });
+
+      expect(spatialIndex.getRect('e1-2')).to.be.deep.equal({ x: -20, y: -20, width: 540, height: 90 });
+    });
+
+    it('removes the edges that got deleted', () => {
+      const spatialIndex = createSpatialIndex();
+
+      updateEdgeSpatialIndex(spatialIndex, [{ id: 'e1-2', source: '1', target: '2' }], nodeLookup);
+      updateEdgeSpatialIndex(spatialIndex, [], nodeLookup);
+
+      expect(spatialIndex.size).to.be.equal(0);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { applyEdgeChanges, getWaypointPath, type Edge } from '@xyflow/react';
+
+describe('getWaypointPath Testing', () => {
+  it('draws a straight line without waypoints', () => {
+    const [path, labelX, labelY] = getWaypointPath({ sourceX: 0, sourceY: 0, targetX: 100, targetY: 0 });
+
+    expect(path).to.be.equal('M 0,0L 100,0');
+    expect(labelX).to.be.equal(50);
+    expect(labelY).to.be.equal(0);
+  });
+
+  it('passes through the waypoints', () => {
+    const [path] = getWaypointPath({
+      sourceX: 0,
+      sourceY: 0,
+      targetX: 100,
+      targetY: 100,
+      waypoints: [{ x: 100, y: 0 }],
+    });
+
+    expect(path).to.be.equal('M 0,0L 100,0L 100,100');
+  });
+
+  it('places the label in the middle of the path', () => {
+    const [, labelX, labelY, offsetX, offsetY] = getWaypointPath({
+      sourceX: 0,
+      sourceY: 0,
+      targetX: 100,
+      targetY: 100,
+      waypoints: [{ x: 100, y: 0 }],
+    });
+
+    expect(labelX).to.be.equal(100);
+    expect(labelY).to.be.equal(0);
+    expect(offsetX).to.be.equal(100);
+    expect(offsetY).to.be.equal(0);
+  });
+
+  it('draws a spline through the waypoints', () => {
+    const [path, labelX, labelY] = getWaypointPath({
+      sourceX: 0,
+      sourceY: 0,
+      targetX: 200,
+      targetY: 0,
+      waypoints: [{ x: 100, y: 100 }],
+      curve: 'spline',
+    });
+
+    expect(path.match(/C /g)).to.have.length(2);
+    expect(path).to.contain(' 100,100C ');
+    expect(path.endsWith(' 200,0')).to.be.true;
+    expect(labelX).to.be.equal(100);
+    expect(labelY).to.be.equal(100);
+  });
+});
+
+describe('applyEdgeChanges waypoints Testing', () => {
+  it('replaces the waypoints of an edge', () => {
+    const edges: Edge[] = [{ id: 'e1-2', source: '1', target: '2' }];
+    const waypoints = [{ x: 50, y: 50 }];
+
+    const nextEdges = applyEdgeChanges([{ id: 'e1-2', type: 'waypoints', waypoints }], edges);
+
+    expect(nextEdges[0].waypoints).to.be.deep.equal(waypoints);
+    expect(edges[0].waypoints).to.be.undefined;
+  });
+});
@@ -34,6 +34,10 @@ export type ControlProps = {
   style?: React.CSSProperties;
   /** ClassName applied to container */
   className?: string;
+  /**
+   * The aria-label attribute of the panel
+   * @default the `controls.ariaLabel` of the `ariaLabelConfig`
+   */
   'aria-label'?: string;
   orientation?: 'horizontal' | 'vertical';
 };
@@ -0,0 +1,75 @@
+import { CSSProperties, memo } from 'react';
+import cc from 'classcat';
+import { shallow } from 'zustand/shallow';
+
+import { useStore } from '../../hooks/useStore';
+import { containerStyle } from '../../styles/utils';
+import type { HelperLinesProps } from './types';
+import type { ReactFlowState } from '../../types';
+
+const selector = (s: ReactFlowState) => ({ transform: s.transform, helperLines: s.helperLines });
+
+function HelperLinesComponent({ color, strokeWidth, className, style }: HelperLinesProps) {
+  const { transform, helperLines } = useStore(selector, shallow);
+  const [tx, ty, zoom] = transform;
+
+  if (helperLines.length === 0) {
+    return null;
+  }
+
+  return (
+    <svg
+      className={cc(['react-flow__helper-lines', className])}
+      style={
+        {
+          ...style,
+          ...containerStyle,
+          '--xy-helper-line-stroke-props': color,
+          '--xy-helper-line-stroke-width-props': strokeWidth,
+        } as CSSProperties
+      }
+      data-testid="rf__helper-lines"
+    >
+      {helperLines.map(({ orientation, position, start, end }) => {
+        const isVertical = orientation === 'vertical';
+        // the lines are drawn in screen coordinates, so that their stroke width doesn't change with the zoom
+        const linePosition = position * zoom + (isVertical ? tx : ty);
+        const lineStart = start * zoom + (isVertical ? ty : tx);
+        const lineEnd = end * zoom + (isVertical ? ty : tx);
+
+        return (
+          <line
+            key={`${orientation}-${position}`}
+            className="react-flow__helper-line"
+            x1={isVertical ? linePosition : lineStart}
+            y1={isVertical ? lineStart : linePosition}
+            x2={isVertical ? linePosition : lineEnd}
+            y2={isVertical ? lineEnd : linePosition}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+HelperLinesComponent.displayName = 'HelperLines';
+
+/**
+ * The `<HelperLines />` component draws the alignment guides while a node gets dragged.
+ * The guides are only shown when the `snapToNodes` prop of `<ReactFlow />` is enabled.
+ *
+ * @example
+ *
+ * ```tsx
+ * import { ReactFlow, HelperLines } from '@xyflow/react';
+ *
+ * export default function Flow() {
+ *   return (
+ *     <ReactFlow defaultNodes={[...]} defaultEdges={[...]} snapToNodes>
+ *       <HelperLines />
+ *     </ReactFlow>
+ *   );
+ * }
+ * ```
+ */
+export const HelperLines = memo(HelperLinesComponent);
@@ -0,0 +1,2 @@
+export { HelperLines } from './HelperLines';
+export { type HelperLinesProps } from './types';
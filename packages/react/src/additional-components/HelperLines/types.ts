@@ -0,0 +1,15 @@
+import type { CSSProperties } from 'react';
+
+/**
+ * @expand
+ */
+export type HelperLinesProps = {
+  /** Color of the lines */
+  color?: string;
+  /** Stroke width of the lines */
+  strokeWidth?: number;
+  /** Class applied to the container */
+  className?: string;
+  /** Style applied to the container */
+  style?: CSSProperties;
+};
@@ -31,6 +31,7 @@ const selector = (s: ReactFlowState) => {
     translateExtent: s.translateExtent,
     flowWidth: s.width,
     flowHeight: s.height,
+    ariaLabelConfig: s.ariaLabelConfig,
   };
 };
 
@@ -58,14 +59,17 @@ function MiniMapComponent<NodeType extends Node = Node>({
   onNodeClick,
   pannable = false,
   zoomable = false,
-  ariaLabel = 'React Flow mini map',
+  ariaLabel,
   inversePan,
   zoomStep = 10,
   offsetScale = 5,
 }: MiniMapProps<NodeType>) {
   const store = useStoreApi<NodeType>();
   const svg = useRef<SVGSVGElement>(null);
-  const { boundingRect, viewBB, rfId, panZoom, translateExtent, flowWidth, flowHeight } = useStore(selector, shallow);
+  const { boundingRect, viewBB, rfId, panZoom, translateExtent, flowWidth, flowHeight, ariaLabelConfig } = useStore(
+    selector,
+    shallow
+  );
   const elementWidth = (style?.width as number) ?? defaultWidth;
   const elementHeight = (style?.height as number) ?? defaultHeight;
   const scaledWidth = boundingRect.width / elementWidth;
@@ -79,6 +83,7 @@ function MiniMapComponent<NodeType extends Node = Node>({
   const width = viewWidth + offset * 2;
   const height = viewHeight + offset * 2;
   const labelledBy = `${ARIA_LABEL_KEY}-${rfId}`;
+  const label = ariaLabel === undefined ? ariaLabelConfig['minimap.ariaLabel'] : ariaLabel;
   const viewScaleRef = useRef(0);
   const minimapInstance = useRef<XYMinimapInstance>();
 
@@ -154,7 +159,7 @@ function MiniMapComponent<NodeType extends Node = Node>({
         ref={svg}
         onClick={onSvgClick}
       >
-        {ariaLabel && <title id={labelledBy}>{ariaLabel}</title>}
+        {label && <title id={labelledBy}>{label}</title>}
         <MiniMapNodes<NodeType>
           onClick={onSvgNodeClick}
           nodeColor={nodeColor}
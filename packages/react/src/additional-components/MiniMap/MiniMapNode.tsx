@@ -9,6 +9,7 @@ function MiniMapNodeComponent({
   y,
   width,
   height,
+  rotation,
   style,
   color,
   strokeColor,
@@ -31,6 +32,7 @@ function MiniMapNodeComponent({
       ry={borderRadius}
       width={width}
       height={height}
+      transform={rotation ? `rotate(${rotation} ${x + width / 2} ${y + height / 2})` : undefined}
       style={{
         fill,
         stroke: strokeColor,
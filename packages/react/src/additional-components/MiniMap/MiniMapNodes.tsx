@@ -83,7 +83,7 @@ function NodeComponentWrapperInner<NodeType extends Node>({
   onClick: MiniMapNodesProps['onClick'];
   shapeRendering: string;
 }) {
-  const { node, x, y, width, height } = useStore((s) => {
+  const { node, x, y, width, height, rotation } = useStore((s) => {
     const node = s.nodeLookup.get(id) as InternalNode<NodeType>;
     const { x, y } = node.internals.positionAbsolute;
     const { width, height } = getNodeDimensions(node);
@@ -94,6 +94,7 @@ function NodeComponentWrapperInner<NodeType extends Node>({
       y,
       width,
       height,
+      rotation: node.rotation,
     };
   }, shallow);
 
@@ -107,6 +108,7 @@ function NodeComponentWrapperInner<NodeType extends Node>({
       y={y}
       width={width}
       height={height}
+      rotation={rotation}
       style={node.style}
       selected={!!node.selected}
       className={nodeClassNameFunc(node)}
@@ -44,7 +44,10 @@ export type MiniMapProps<NodeType extends Node = Node> = Omit<HTMLAttributes<SVG
   pannable?: boolean;
   /** If true, viewport is zoomable via mini map component */
   zoomable?: boolean;
-  /** The aria-label attribute */
+  /**
+   * The aria-label attribute, `null` removes it
+   * @default the `minimap.ariaLabel` of the `ariaLabelConfig`
+   */
   ariaLabel?: string | null;
   /** Invert direction when panning the minimap viewport */
   inversePan?: boolean;
@@ -73,6 +76,8 @@ export type MiniMapNodeProps = {
   y: number;
   width: number;
   height: number;
+  /** Rotation of the node in degrees around its center */
+  rotation?: number;
   borderRadius: number;
   className: string;
   color?: string;
@@ -1,11 +1,13 @@
 import { ResizeControlVariant, XY_RESIZER_HANDLE_POSITIONS, XY_RESIZER_LINE_POSITIONS } from '@xyflow/system';
 
 import { NodeResizeControl } from './NodeResizeControl';
+import { NodeRotateControl } from './NodeRotateControl';
 import type { NodeResizerProps } from './types';
 
 /**
  * The `<NodeResizer />` component can be used to add a resize functionality to your
- * nodes. It renders draggable controls around the node to resize in all directions.
+ * nodes. It renders draggable controls around the node to resize in all directions
+ * and optionally a control to rotate the node.
  * @public
  *
  * @example
@@ -44,6 +46,12 @@ export function NodeResizer({
   onResizeStart,
   onResize,
   onResizeEnd,
+  rotatable = false,
+  rotateControlClassName,
+  rotateControlStyle,
+  onRotateStart,
+  onRotate,
+  onRotateEnd,
 }: NodeResizerProps) {
   if (!isVisible) {
     return null;
@@ -90,6 +98,17 @@ export function NodeResizer({
           onResizeEnd={onResizeEnd}
         />
       ))}
+      {rotatable && (
+        <NodeRotateControl
+          className={rotateControlClassName}
+          style={rotateControlStyle}
+          nodeId={nodeId}
+          color={color}
+          onRotateStart={onRotateStart}
+          onRotate={onRotate}
+          onRotateEnd={onRotateEnd}
+        />
+      )}
     </>
   );
 }
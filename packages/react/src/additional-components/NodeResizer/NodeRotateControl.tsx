@@ -0,0 +1,94 @@
+import { useRef, useEffect, memo } from 'react';
+import cc from 'classcat';
+import { XYRotator, type XYRotatorInstance, type NodeRotationChange } from '@xyflow/system';
+
+import { useStoreApi } from '../../hooks/useStore';
+import { useNodeId } from '../../contexts/NodeIdContext';
+import type { NodeRotateControlProps } from './types';
+
+function RotateControl({
+  nodeId,
+  className,
+  style = {},
+  children,
+  color,
+  snapAngle = 15,
+  onRotateStart,
+  onRotate,
+  onRotateEnd,
+}: NodeRotateControlProps) {
+  const contextNodeId = useNodeId();
+  const id = typeof nodeId === 'string' ? nodeId : contextNodeId;
+  const store = useStoreApi();
+  const rotateControlRef = useRef<HTMLDivElement>(null);
+
+  const rotator = useRef<XYRotatorInstance | null>(null);
+
+  useEffect(() => {
+    if (!rotateControlRef.current || !id) {
+      return;
+    }
+
+    if (!rotator.current) {
+      rotator.current = XYRotator({
+        domNode: rotateControlRef.current,
+        nodeId: id,
+        getStoreItems: () => {
+          const { nodeLookup, transform, domNode } = store.getState();
+          return {
+            nodeLookup,
+            transform,
+            paneDomNode: domNode,
+          };
+        },
+        onChange: (rotation: number) => {
+          const rotationChange: NodeRotationChange = {
+            id,
+            type: 'rotation',
+            rotation,
+            rotating: true,
+          };
+          store.getState().triggerNodeChanges([rotationChange]);
+        },
+        onEnd: () => {
+          const rotationChange: NodeRotationChange = {
+            id,
+            type: 'rotation',
+            rotating: false,
+          };
+          store.getState().triggerNodeChanges([rotationChange]);
+        },
+      });
+    }
+
+    rotator.current.update({
+      snapAngle,
+      onRotateStart,
+      onRotate,
+      onRotateEnd,
+    });
+
+    return () => {
+      rotator.current?.destroy();
+    };
+  }, [snapAngle, onRotateStart, onRotate, onRotateEnd]);
+
+  const controlStyle = color ? { ...style, backgroundColor: color } : style;
+
+  return (
+    <div
+      className={cc(['react-flow__rotate-control', 'nodrag', className])}
+      ref={rotateControlRef}
+      style={controlStyle}
+    >
+      {children}
+    </div>
+  );
+}
+
+/**
+ * The `NodeRotateControl` component rotates a node around its center. It's rendered by the
+ * `NodeResizer` when `rotatable` is set, but you can also use it on its own and pass children (such as icons).
+ * @public
+ */
+export const NodeRotateControl = memo(RotateControl);
@@ -1,4 +1,5 @@
 export { NodeResizer } from './NodeResizer';
 export { NodeResizeControl } from './NodeResizeControl';
+export { NodeRotateControl } from './NodeRotateControl';
 
 export * from './types';
@@ -7,6 +7,9 @@ import type {
   OnResizeStart,
   OnResize,
   OnResizeEnd,
+  OnRotateStart,
+  OnRotate,
+  OnRotateEnd,
 } from '@xyflow/system';
 
 /**
@@ -48,6 +51,21 @@ export type NodeResizerProps = {
   onResize?: OnResize;
   /** Callback called when resizing ends */
   onResizeEnd?: OnResizeEnd;
+  /**
+   * Renders a control above the node that rotates it around its center
+   * @default false
+   */
+  rotatable?: boolean;
+  /** ClassName applied to the rotate control */
+  rotateControlClassName?: string;
+  /** Style applied to the rotate control */
+  rotateControlStyle?: CSSProperties;
+  /** Callback called when rotating starts */
+  onRotateStart?: OnRotateStart;
+  /** Callback called when rotating */
+  onRotate?: OnRotate;
+  /** Callback called when rotating ends */
+  onRotateEnd?: OnRotateEnd;
 };
 
 /**
@@ -89,3 +107,20 @@ export type ResizeControlProps = Pick<
 export type ResizeControlLineProps = ResizeControlProps & {
   position?: ControlLinePosition;
 };
+
+/**
+ * @expand
+ */
+export type NodeRotateControlProps = Pick<
+  NodeResizerProps,
+  'nodeId' | 'color' | 'onRotateStart' | 'onRotate' | 'onRotateEnd'
+> & {
+  /**
+   * The rotation snaps to multiples of this angle in degrees while the shift key is pressed
+   * @default 15
+   */
+  snapAngle?: number;
+  className?: string;
+  style?: CSSProperties;
+  children?: ReactNode;
+};
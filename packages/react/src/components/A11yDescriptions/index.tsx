@@ -18,9 +18,11 @@ const ariaLiveStyle: CSSProperties = {
 
 export const ARIA_NODE_DESC_KEY = 'react-flow__node-desc';
 export const ARIA_EDGE_DESC_KEY = 'react-flow__edge-desc';
+export const ARIA_HANDLE_DESC_KEY = 'react-flow__handle-desc';
 export const ARIA_LIVE_MESSAGE = 'react-flow__aria-live';
 
 const selector = (s: ReactFlowState) => s.ariaLiveMessage;
+const ariaLabelConfigSelector = (s: ReactFlowState) => s.ariaLabelConfig;
 
 function AriaLiveMessage({ rfId }: { rfId: string }) {
   const ariaLiveMessage = useStore(selector);
@@ -33,16 +35,25 @@ function AriaLiveMessage({ rfId }: { rfId: string }) {
 }
 
 export function A11yDescriptions({ rfId, disableKeyboardA11y }: { rfId: string; disableKeyboardA11y: boolean }) {
+  const ariaLabelConfig = useStore(ariaLabelConfigSelector);
+
   return (
     <>
       <div id={`${ARIA_NODE_DESC_KEY}-${rfId}`} style={style}>
-        Press enter or space to select a node.
-        {!disableKeyboardA11y && 'You can then use the arrow keys to move the node around.'} Press delete to remove it
-        and escape to cancel.{' '}
+        {disableKeyboardA11y
+          ? ariaLabelConfig['node.a11yDescription.keyboardDisabled']
+          : ariaLabelConfig['node.a11yDescription.default']}
       </div>
       <div id={`${ARIA_EDGE_DESC_KEY}-${rfId}`} style={style}>
-        Press enter or space to select an edge. You can then press delete to remove it or escape to cancel.
+        {disableKeyboardA11y
+          ? ariaLabelConfig['edge.a11yDescription.keyboardDisabled']
+          : ariaLabelConfig['edge.a11yDescription.default']}
       </div>
+      {!disableKeyboardA11y && (
+        <div id={`${ARIA_HANDLE_DESC_KEY}-${rfId}`} style={style}>
+          {ariaLabelConfig['handle.a11yDescription.default']}
+        </div>
+      )}
       {!disableKeyboardA11y && <AriaLiveMessage rfId={rfId} />}
     </>
   );
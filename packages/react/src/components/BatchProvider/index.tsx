@@ -37,7 +37,8 @@ export function BatchProvider<NodeType extends Node = Node, EdgeType extends Edg
   // 定义处理节点队列项的回调函数
   const nodeQueueHandler = useCallback((queueItems: QueueItem<NodeType>[]) => {
     // 从存储中获取节点相关的状态
-    const { nodes = [], setNodes, hasDefaultNodes, onNodesChange, nodeLookup } = store.getState();
+    const { nodes = [], setNodes, hasDefaultNodes, onNodesChange, nodeLookup, historyEnabled, recordHistory } =
+      store.getState();
 
     /*
      * This is essentially an `Array.reduce` in imperative clothing. Processing
@@ -54,16 +55,21 @@ export function BatchProvider<NodeType extends Node = Node, EdgeType extends Edg
 
     // 根据配置决定如何应用节点更新
     if (hasDefaultNodes) {
+      // 只有启用了撤销/重做时才需要计算变更差异，以便记录到历史中
+      if (historyEnabled) {
+        recordHistory('nodes', getElementsDiffChanges({ items: next, lookup: nodeLookup }) as NodeChange<NodeType>[]);
+      }
       // 如果使用默认节点管理，直接设置新节点数组
       setNodes(next);
     } else if (onNodesChange) {
-      // 如果提供了节点变更回调，计算变更差异并调用回调
-      onNodesChange(
-        getElementsDiffChanges({
-          items: next,
-          lookup: nodeLookup,
-        }) as NodeChange<NodeType>[]
-      );
+      // 如果提供了节点变更回调，计算变更差异，记录到历史中并调用回调
+      const changes = getElementsDiffChanges({
+        items: next,
+        lookup: nodeLookup,
+      }) as NodeChange<NodeType>[];
+
+      recordHistory('nodes', changes);
+      onNodesChange(changes);
     }
   }, []);
   // 创建节点队列，传入处理函数
@@ -72,7 +78,8 @@ export function BatchProvider<NodeType extends Node = Node, EdgeType extends Edg
   // 定义处理边队列项的回调函数，逻辑与节点队列处理类似
   const edgeQueueHandler = useCallback((queueItems: QueueItem<EdgeType>[]) => {
     // 从存储中获取边相关的状态
-    const { edges = [], setEdges, hasDefaultEdges, onEdgesChange, edgeLookup } = store.getState();
+    const { edges = [], setEdges, hasDefaultEdges, onEdgesChange, edgeLookup, historyEnabled, recordHistory } =
+      store.getState();
 
     // 初始化下一个边数组
     let next = edges;
@@ -84,16 +91,20 @@ export function BatchProvider<NodeType extends Node = Node, EdgeType extends Edg
 
     // 根据配置决定如何应用边更新
     if (hasDefaultEdges) {
+      if (historyEnabled) {
+        recordHistory('edges', getElementsDiffChanges({ items: next, lookup: edgeLookup }) as EdgeChange<EdgeType>[]);
+      }
       // 如果使用默认边管理，直接设置新边数组
       setEdges(next);
     } else if (onEdgesChange) {
-      // 如果提供了边变更回调，计算变更差异并调用回调
-      onEdgesChange(
-        getElementsDiffChanges({
-          items: next,
-          lookup: edgeLookup,
-        }) as EdgeChange<EdgeType>[]
-      );
+      // 如果提供了边变更回调，计算变更差异，记录到历史中并调用回调
+      const changes = getElementsDiffChanges({
+        items: next,
+        lookup: edgeLookup,
+      }) as EdgeChange<EdgeType>[];
+
+      recordHistory('edges', changes);
+      onEdgesChange(changes);
     }
   }, []);
   // 创建边队列，传入处理函数
@@ -1,20 +1,28 @@
-import { useState, useMemo, useRef, type KeyboardEvent, useCallback, JSX } from 'react';
+import { useState, useMemo, useRef, type KeyboardEvent, type FocusEvent, useCallback, JSX } from 'react';
 import cc from 'classcat';
 import { shallow } from 'zustand/shallow';
 import {
   getMarkerId,
-  elementSelectionKeys,
+  getKeymapAction,
+  getElementKeymap,
   getEdgePosition,
   errorMessages,
   getElevatedEdgeZIndex,
+  getParallelEdgeOffset,
+  nodeToRect,
+  getCollapsedAncestor,
+  type KeymapAction,
 } from '@xyflow/system';
 
 import { useStoreApi, useStore } from '../../hooks/useStore';
 import { ARIA_EDGE_DESC_KEY } from '../A11yDescriptions';
-import { builtinEdgeTypes, nullPosition } from './utils';
+import { focusElement, getFocusableConnectedEdgeIds } from '../../utils/navigation';
+import { builtinEdgeTypes, edgeNavigationKeyDiffs, nullPosition } from './utils';
 import { EdgeUpdateAnchors } from './EdgeUpdateAnchors';
 import type { Edge, EdgeWrapperProps } from '../../types';
 
+const edgeKeymapActions: KeymapAction[] = ['select', 'deselect', 'focusNode'];
+
 export function EdgeWrapper<EdgeType extends Edge = Edge>({
   id,
   edgesFocusable,
@@ -26,6 +34,7 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
   onMouseEnter,
   onMouseMove,
   onMouseLeave,
+  onFocus,
   reconnectRadius,
   onReconnect,
   onReconnectStart,
@@ -38,6 +47,7 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
 }: EdgeWrapperProps<EdgeType>): JSX.Element | null {
   let edge = useStore((s) => s.edgeLookup.get(id)!) as EdgeType;
   const defaultEdgeOptions = useStore((s) => s.defaultEdgeOptions);
+  const ariaLabelConfig = useStore((s) => s.ariaLabelConfig);
   edge = defaultEdgeOptions ? { ...defaultEdgeOptions, ...edge } : edge;
 
   let edgeType = edge.type || 'default';
@@ -63,10 +73,22 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
   const { zIndex, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition } = useStore(
     useCallback(
       (store) => {
-        const sourceNode = store.nodeLookup.get(edge.source);
-        const targetNode = store.nodeLookup.get(edge.target);
+        // edges of nodes inside a collapsed node are drawn to the collapsed node
+        const sourceCollapsedAncestor = getCollapsedAncestor(edge.source, store.nodeLookup, store.collapsedNodeIds);
+        const targetCollapsedAncestor = getCollapsedAncestor(edge.target, store.nodeLookup, store.collapsedNodeIds);
+        const sourceNode = sourceCollapsedAncestor
+          ? { ...sourceCollapsedAncestor, floating: true }
+          : store.nodeLookup.get(edge.source);
+        const targetNode = targetCollapsedAncestor
+          ? { ...targetCollapsedAncestor, floating: true }
+          : store.nodeLookup.get(edge.target);
 
-        if (!sourceNode || !targetNode) {
+        // edges that start and end inside the same collapsed node are hidden
+        if (
+          !sourceNode ||
+          !targetNode ||
+          ((sourceCollapsedAncestor || targetCollapsedAncestor) && sourceNode.id === targetNode.id)
+        ) {
           return {
             zIndex: edge.zIndex,
             ...nullPosition,
@@ -77,8 +99,8 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
           id,
           sourceNode,
           targetNode,
-          sourceHandle: edge.sourceHandle || null,
-          targetHandle: edge.targetHandle || null,
+          sourceHandle: sourceCollapsedAncestor ? null : edge.sourceHandle || null,
+          targetHandle: targetCollapsedAncestor ? null : edge.targetHandle || null,
           connectionMode: store.connectionMode,
           onError,
         });
@@ -101,6 +123,27 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
     shallow
   );
 
+  const { parallelOffset, loopNode } = useStore(
+    useCallback(
+      (store) => ({
+        parallelOffset: getParallelEdgeOffset({
+          id,
+          source: edge.source,
+          target: edge.target,
+          sourceHandle: edge.sourceHandle,
+          targetHandle: edge.targetHandle,
+          parallelEdgeLookup: store.parallelEdgeLookup,
+        }),
+        // self-loops are drawn around their node, so we need its dimensions
+        loopNode: edge.source === edge.target ? store.nodeLookup.get(edge.source) : undefined,
+      }),
+      [edge.source, edge.target, edge.sourceHandle, edge.targetHandle]
+    ),
+    shallow
+  );
+
+  const selfLoopRect = useMemo(() => (loopNode ? nodeToRect(loopNode) : undefined), [loopNode]);
+
   const markerStartUrl = useMemo(
     () => (edge.markerStart ? `url('#${getMarkerId(edge.markerStart, rfId)}')` : undefined),
     [edge.markerStart, rfId]
@@ -160,17 +203,53 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
     }
     : undefined;
 
+  const onEdgeFocus = onFocus
+    ? (event: FocusEvent) => {
+      // focusable elements inside of the edge label don't focus the edge
+      if (event.target === event.currentTarget) {
+        onFocus(event, { ...edge });
+      }
+    }
+    : undefined;
+
   const onKeyDown = (event: KeyboardEvent) => {
-    if (!disableKeyboardA11y && elementSelectionKeys.includes(event.key) && isSelectable) {
+    if (disableKeyboardA11y) {
+      return;
+    }
+
+    const { edgeNavigationNodeId, keymap, keymapActions } = store.getState();
+    const action = getKeymapAction(event.nativeEvent, getElementKeymap(keymap), edgeKeymapActions);
+    // edges that weren't focused from a node belong to their source node
+    const nodeId =
+      edgeNavigationNodeId === edge.source || edgeNavigationNodeId === edge.target ? edgeNavigationNodeId : edge.source;
+
+    // actions with a custom handler are handled by the global key handler
+    if (action && keymapActions[action]) {
+      return;
+    }
+
+    if ((action === 'select' || action === 'deselect') && isSelectable) {
       const { unselectNodesAndEdges, addSelectedEdges } = store.getState();
-      const unselect = event.key === 'Escape';
 
-      if (unselect) {
+      if (action === 'deselect') {
         edgeRef.current?.blur();
         unselectNodesAndEdges({ edges: [edge] });
       } else {
         addSelectedEdges([id]);
       }
+    } else if (Object.prototype.hasOwnProperty.call(edgeNavigationKeyDiffs, event.key)) {
+      event.preventDefault();
+
+      const edgeIds = getFocusableConnectedEdgeIds(store.getState(), nodeId);
+      const index = edgeIds.indexOf(id);
+      const nextId = edgeIds[(index + edgeNavigationKeyDiffs[event.key] + edgeIds.length) % edgeIds.length];
+
+      if (index !== -1 && nextId !== id) {
+        store.setState({ edgeNavigationNodeId: nodeId });
+        focusElement(store.getState, 'edge', nextId);
+      }
+    } else if (action === 'focusNode') {
+      focusElement(store.getState, 'node', nodeId);
     }
   };
 
@@ -196,13 +275,16 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
         onMouseEnter={onEdgeMouseEnter}
         onMouseMove={onEdgeMouseMove}
         onMouseLeave={onEdgeMouseLeave}
+        onFocus={onEdgeFocus}
         onKeyDown={isFocusable ? onKeyDown : undefined}
         tabIndex={isFocusable ? 0 : undefined}
         role={isFocusable ? 'button' : 'img'}
         data-id={id}
         data-testid={`rf__edge-${id}`}
         aria-label={
-          edge.ariaLabel === null ? undefined : edge.ariaLabel || `Edge from ${edge.source} to ${edge.target}`
+          edge.ariaLabel === null
+            ? undefined
+            : edge.ariaLabel || ariaLabelConfig['edge.ariaLabel']({ source: edge.source, target: edge.target })
         }
         aria-describedby={isFocusable ? `${ARIA_EDGE_DESC_KEY}-${rfId}` : undefined}
         ref={edgeRef}
@@ -237,6 +319,9 @@ export function EdgeWrapper<EdgeType extends Edge = Edge>({
             markerEnd={markerEndUrl}
             pathOptions={'pathOptions' in edge ? edge.pathOptions : undefined}
             interactionWidth={edge.interactionWidth}
+            waypoints={edge.waypoints}
+            parallelOffset={parallelOffset}
+            selfLoopRect={selfLoopRect}
           />
         )}
         {isReconnectable && (
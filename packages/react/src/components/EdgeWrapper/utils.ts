@@ -5,6 +5,8 @@ import {
   StepEdgeInternal,
   SmoothStepEdgeInternal,
   SimpleBezierEdgeInternal,
+  OrthogonalEdgeInternal,
+  WaypointEdgeInternal,
 } from '../Edges';
 
 export const builtinEdgeTypes: EdgeTypes = {
@@ -13,6 +15,16 @@ export const builtinEdgeTypes: EdgeTypes = {
   step: StepEdgeInternal,
   smoothstep: SmoothStepEdgeInternal,
   simplebezier: SimpleBezierEdgeInternal,
+  orthogonal: OrthogonalEdgeInternal,
+  waypoint: WaypointEdgeInternal,
+};
+
+// cycles through the edges of the node
+export const edgeNavigationKeyDiffs: Record<string, number> = {
+  ArrowUp: -1,
+  ArrowLeft: -1,
+  ArrowDown: 1,
+  ArrowRight: 1,
 };
 
 export const nullPosition = {
@@ -26,6 +26,8 @@ function createBezierEdge(params: { isInternal: boolean }) {
       markerStart,
       pathOptions,
       interactionWidth,
+      parallelOffset,
+      selfLoopRect,
     }: BezierEdgeProps) => {
       const [path, labelX, labelY] = getBezierPath({
         sourceX,
@@ -35,6 +37,8 @@ function createBezierEdge(params: { isInternal: boolean }) {
         targetY,
         targetPosition,
         curvature: pathOptions?.curvature,
+        parallelOffset,
+        selfLoopRect,
       });
 
       const _id = params.isInternal ? undefined : id;
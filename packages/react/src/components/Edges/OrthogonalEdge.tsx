@@ -0,0 +1,124 @@
+import { memo, useMemo } from 'react';
+import { Position, getOrthogonalObstacles, getOrthogonalPath, type Rect } from '@xyflow/system';
+
+import { BaseEdge } from './BaseEdge';
+import { useStore, useStoreApi } from '../../hooks/useStore';
+import type { OrthogonalEdgeProps, ReactFlowState } from '../../types';
+
+// the route only needs to be updated when the nodes near the edge change
+const areObstaclesEqual = (a: Rect[], b: Rect[]) =>
+  a.length === b.length &&
+  a.every(
+    (rect, i) => rect.x === b[i].x && rect.y === b[i].y && rect.width === b[i].width && rect.height === b[i].height
+  );
+
+function createOrthogonalEdge(params: { isInternal: boolean }) {
+  // eslint-disable-next-line react/display-name
+  return memo(
+    ({
+      id,
+      sourceX,
+      sourceY,
+      targetX,
+      targetY,
+      label,
+      labelStyle,
+      labelShowBg,
+      labelBgStyle,
+      labelBgPadding,
+      labelBgBorderRadius,
+      style,
+      sourcePosition = Position.Bottom,
+      targetPosition = Position.Top,
+      markerEnd,
+      markerStart,
+      pathOptions,
+      interactionWidth,
+    }: OrthogonalEdgeProps) => {
+      const store = useStoreApi();
+      // the obstacles are only searched again when the nodes or the end points change, not when the viewport changes
+      const obstaclesSelector = useMemo(() => {
+        let nodeLookup: ReactFlowState['nodeLookup'] | undefined;
+        let nodeLookupVersion = -1;
+        let obstacles: Rect[] = [];
+
+        return (s: ReactFlowState) => {
+          if (s.nodeLookup !== nodeLookup || s.nodeLookupVersion !== nodeLookupVersion) {
+            nodeLookup = s.nodeLookup;
+            nodeLookupVersion = s.nodeLookupVersion;
+            obstacles = getOrthogonalObstacles({
+              sourceX,
+              sourceY,
+              sourcePosition,
+              targetX,
+              targetY,
+              targetPosition,
+              nodeLookup: s.nodeLookup,
+              spatialIndex: s.nodeSpatialIndex,
+              margin: pathOptions?.margin,
+            });
+          }
+
+          return obstacles;
+        };
+      }, [sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition, pathOptions?.margin]);
+      const obstacles = useStore(obstaclesSelector, areObstaclesEqual);
+
+      const [path, labelX, labelY] = useMemo(
+        () =>
+          getOrthogonalPath({
+            sourceX,
+            sourceY,
+            sourcePosition,
+            targetX,
+            targetY,
+            targetPosition,
+            nodeLookup: store.getState().nodeLookup,
+            obstacles,
+            margin: pathOptions?.margin,
+            borderRadius: pathOptions?.borderRadius,
+          }),
+        [
+          obstacles,
+          sourceX,
+          sourceY,
+          sourcePosition,
+          targetX,
+          targetY,
+          targetPosition,
+          pathOptions?.margin,
+          pathOptions?.borderRadius,
+        ]
+      );
+
+      const _id = params.isInternal ? undefined : id;
+
+      return (
+        <BaseEdge
+          id={_id}
+          path={path}
+          labelX={labelX}
+          labelY={labelY}
+          label={label}
+          labelStyle={labelStyle}
+          labelShowBg={labelShowBg}
+          labelBgStyle={labelBgStyle}
+          labelBgPadding={labelBgPadding}
+          labelBgBorderRadius={labelBgBorderRadius}
+          style={style}
+          markerEnd={markerEnd}
+          markerStart={markerStart}
+          interactionWidth={interactionWidth}
+        />
+      );
+    }
+  );
+}
+
+const OrthogonalEdge = createOrthogonalEdge({ isInternal: false });
+const OrthogonalEdgeInternal = createOrthogonalEdge({ isInternal: true });
+
+OrthogonalEdge.displayName = 'OrthogonalEdge';
+OrthogonalEdgeInternal.displayName = 'OrthogonalEdgeInternal';
+
+export { OrthogonalEdge, OrthogonalEdgeInternal };
@@ -26,6 +26,8 @@ function createSmoothStepEdge(params: { isInternal: boolean }) {
       markerStart,
       pathOptions,
       interactionWidth,
+      parallelOffset,
+      selfLoopRect,
     }: SmoothStepEdgeProps) => {
       const [path, labelX, labelY] = getSmoothStepPath({
         sourceX,
@@ -36,6 +38,8 @@ function createSmoothStepEdge(params: { isInternal: boolean }) {
         targetPosition,
         borderRadius: pathOptions?.borderRadius,
         offset: pathOptions?.offset,
+        parallelOffset,
+        selfLoopRect,
       });
 
       const _id = params.isInternal ? undefined : id;
@@ -13,6 +13,8 @@ function createStraightEdge(params: { isInternal: boolean }) {
       sourceY,
       targetX,
       targetY,
+      sourcePosition,
+      targetPosition,
       label,
       labelStyle,
       labelShowBg,
@@ -23,8 +25,19 @@ function createStraightEdge(params: { isInternal: boolean }) {
       markerEnd,
       markerStart,
       interactionWidth,
+      parallelOffset,
+      selfLoopRect,
     }: StraightEdgeProps) => {
-      const [path, labelX, labelY] = getStraightPath({ sourceX, sourceY, targetX, targetY });
+      const [path, labelX, labelY] = getStraightPath({
+        sourceX,
+        sourceY,
+        targetX,
+        targetY,
+        sourcePosition,
+        targetPosition,
+        parallelOffset,
+        selfLoopRect,
+      });
 
       const _id = params.isInternal ? undefined : id;
 
@@ -0,0 +1,93 @@
+import { memo } from 'react';
+import { getWaypointPath } from '@xyflow/system';
+
+import { BaseEdge } from './BaseEdge';
+import { WaypointHandles } from './WaypointHandles';
+import { useStore } from '../../hooks/useStore';
+import type { ReactFlowState, WaypointEdgeProps } from '../../types';
+
+// the waypoints can be edited like the source and target of an edge can be reconnected
+const isReconnectableSelector = (id?: string) => (s: ReactFlowState) => {
+  const reconnectable = id ? s.edgeLookup.get(id)?.reconnectable : undefined;
+
+  return !!(reconnectable || (s.edgesReconnectable && typeof reconnectable === 'undefined'));
+};
+
+function createWaypointEdge(params: { isInternal: boolean }) {
+  // eslint-disable-next-line react/display-name
+  return memo(
+    ({
+      id,
+      sourceX,
+      sourceY,
+      targetX,
+      targetY,
+      waypoints,
+      selected,
+      selectable,
+      label,
+      labelStyle,
+      labelShowBg,
+      labelBgStyle,
+      labelBgPadding,
+      labelBgBorderRadius,
+      style,
+      markerEnd,
+      markerStart,
+      pathOptions,
+      interactionWidth,
+    }: WaypointEdgeProps) => {
+      const [path, labelX, labelY] = getWaypointPath({
+        sourceX,
+        sourceY,
+        targetX,
+        targetY,
+        waypoints,
+        curve: pathOptions?.curve,
+      });
+
+      const _id = params.isInternal ? undefined : id;
+      const isReconnectable = useStore(isReconnectableSelector(id));
+      const showHandles = selected && selectable !== false && isReconnectable;
+
+      return (
+        <>
+          <BaseEdge
+            id={_id}
+            path={path}
+            labelX={labelX}
+            labelY={labelY}
+            label={label}
+            labelStyle={labelStyle}
+            labelShowBg={labelShowBg}
+            labelBgStyle={labelBgStyle}
+            labelBgPadding={labelBgPadding}
+            labelBgBorderRadius={labelBgBorderRadius}
+            style={style}
+            markerEnd={markerEnd}
+            markerStart={markerStart}
+            interactionWidth={interactionWidth}
+          />
+          {showHandles && id && (
+            <WaypointHandles
+              edgeId={id}
+              sourceX={sourceX}
+              sourceY={sourceY}
+              targetX={targetX}
+              targetY={targetY}
+              waypoints={waypoints ?? []}
+            />
+          )}
+        </>
+      );
+    }
+  );
+}
+
+const WaypointEdge = createWaypointEdge({ isInternal: false });
+const WaypointEdgeInternal = createWaypointEdge({ isInternal: true });
+
+WaypointEdge.displayName = 'WaypointEdge';
+WaypointEdgeInternal.displayName = 'WaypointEdgeInternal';
+
+export { WaypointEdge, WaypointEdgeInternal };
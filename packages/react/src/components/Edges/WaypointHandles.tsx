@@ -0,0 +1,119 @@
+import { type PointerEvent as ReactPointerEvent } from 'react';
+import cc from 'classcat';
+import { pointToRendererPoint, type XYPosition } from '@xyflow/system';
+
+import { EdgeLabelRenderer } from '../EdgeLabelRenderer';
+import { useStoreApi } from '../../hooks/useStore';
+
+type WaypointHandlesProps = {
+  edgeId: string;
+  sourceX: number;
+  sourceY: number;
+  targetX: number;
+  targetY: number;
+  waypoints: XYPosition[];
+};
+
+type WaypointHandle = {
+  position: XYPosition;
+  index: number;
+  // virtual handles sit between two points and insert a new waypoint when they get dragged
+  isVirtual: boolean;
+};
+
+/**
+ * Renders a draggable handle for every waypoint of an edge and one in the middle of every segment.
+ * Dragging a handle emits `waypoints` edge changes, a double click removes the waypoint.
+ *
+ * @internal
+ */
+export function WaypointHandles({ edgeId, sourceX, sourceY, targetX, targetY, waypoints }: WaypointHandlesProps) {
+  const store = useStoreApi();
+  const points = [{ x: sourceX, y: sourceY }, ...waypoints, { x: targetX, y: targetY }];
+
+  const handles: WaypointHandle[] = points.slice(1).flatMap((point, index) => {
+    const prev = points[index];
+    const virtualHandle = {
+      position: { x: (prev.x + point.x) / 2, y: (prev.y + point.y) / 2 },
+      index,
+      isVirtual: true,
+    };
+
+    return index < waypoints.length ? [virtualHandle, { position: point, index, isVirtual: false }] : [virtualHandle];
+  });
+
+  const triggerChange = (nextWaypoints: XYPosition[], dragging?: boolean) => {
+    store.getState().triggerEdgeChanges([{ id: edgeId, type: 'waypoints', waypoints: nextWaypoints, dragging }]);
+  };
+
+  const getFlowPosition = (event: PointerEvent) => {
+    const { transform, snapGrid, snapToGrid, domNode } = store.getState();
+    const { left, top } = domNode?.getBoundingClientRect() ?? { left: 0, top: 0 };
+
+    return pointToRendererPoint({ x: event.clientX - left, y: event.clientY - top }, transform, snapToGrid, snapGrid);
+  };
+
+  const onPointerDown = (event: ReactPointerEvent, { index, isVirtual }: WaypointHandle) => {
+    if (event.button !== 0) {
+      return;
+    }
+
+    event.stopPropagation();
+
+    let nextWaypoints = waypoints;
+    let moved = false;
+
+    const onPointerMove = (moveEvent: PointerEvent) => {
+      const position = getFlowPosition(moveEvent);
+
+      if (!moved && isVirtual) {
+        nextWaypoints = [...waypoints.slice(0, index), position, ...waypoints.slice(index)];
+      } else {
+        nextWaypoints = nextWaypoints.map((waypoint, i) => (i === index ? position : waypoint));
+      }
+
+      moved = true;
+      triggerChange(nextWaypoints, true);
+    };
+
+    /*
+     * we listen on the window, because the handle that gets dragged can be unmounted while dragging
+     * when a virtual handle turns into a waypoint handle. A canceled touch or pen drag ends the drag as well.
+     */
+    const onPointerUp = () => {
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+
+      if (moved) {
+        triggerChange(nextWaypoints, false);
+      }
+    };
+
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+  };
+
+  const onDoubleClick = ({ index, isVirtual }: WaypointHandle) => {
+    if (!isVirtual) {
+      triggerChange(waypoints.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <EdgeLabelRenderer>
+      {handles.map((handle) => (
+        <div
+          key={`${handle.isVirtual ? 'virtual' : 'waypoint'}-${handle.index}`}
+          className={cc(['react-flow__edge-waypoint', 'nodrag', 'nopan', { virtual: handle.isVirtual }])}
+          style={{
+            transform: `translate(-50%, -50%) translate(${handle.position.x}px,${handle.position.y}px)`,
+          }}
+          onPointerDown={(event) => onPointerDown(event, handle)}
+          onDoubleClick={() => onDoubleClick(handle)}
+        />
+      ))}
+    </EdgeLabelRenderer>
+  );
+}
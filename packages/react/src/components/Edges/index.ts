@@ -9,3 +9,5 @@ export { SmoothStepEdge, SmoothStepEdgeInternal } from './SmoothStepEdge';
 export { StepEdge, StepEdgeInternal } from './StepEdge';
 export { StraightEdge, StraightEdgeInternal } from './StraightEdge';
 export { BezierEdge, BezierEdgeInternal } from './BezierEdge';
+export { OrthogonalEdge, OrthogonalEdgeInternal } from './OrthogonalEdge';
+export { WaypointEdge, WaypointEdgeInternal } from './WaypointEdge';
@@ -2,8 +2,11 @@ import {
   type HTMLAttributes,
   type MouseEvent as ReactMouseEvent,
   type TouchEvent as ReactTouchEvent,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type FocusEvent as ReactFocusEvent,
   type ForwardedRef,
   memo,
+  useRef,
 } from 'react';
 import cc from 'classcat';
 import { shallow } from 'zustand/shallow';
@@ -14,9 +17,11 @@ import {
   getHostForElement,
   isMouseEvent,
   addEdge,
+  getHandlePosition,
   type HandleProps as HandlePropsSystem,
   type Connection,
   type HandleType,
+  type AriaLabelConfig,
   ConnectionMode,
   OnConnect,
   ConnectionState,
@@ -25,6 +30,7 @@ import {
 
 import { useStore, useStoreApi } from '../../hooks/useStore';
 import { useNodeId } from '../../contexts/NodeIdContext';
+import { ARIA_HANDLE_DESC_KEY } from '../A11yDescriptions';
 import { type ReactFlowState } from '../../types';
 import { fixedForwardRef } from '../../utils';
 
@@ -41,8 +47,21 @@ const selector = (s: ReactFlowState) => ({
   connectOnClick: s.connectOnClick,
   noPanClassName: s.noPanClassName,
   rfId: s.rfId,
+  disableKeyboardA11y: s.disableKeyboardA11y,
+  ariaLabelConfig: s.ariaLabelConfig,
 });
 
+type ValidHandle = ReturnType<typeof XYHandle.getValidHandles>[number];
+
+const keyboardConnectKeys = ['Enter', ' '];
+const keyboardNextKeys = ['ArrowRight', 'ArrowDown'];
+const keyboardPreviousKeys = ['ArrowLeft', 'ArrowUp'];
+
+const getHandleLabel = (
+  ariaLabelConfig: AriaLabelConfig,
+  { nodeId, id, type }: { nodeId: string; id?: string | null; type: HandleType }
+) => ariaLabelConfig['handle.ariaLabel']({ nodeId, handleId: id ?? null, type });
+
 const connectingSelector =
   (nodeId: string | null, handleId: string | null, type: HandleType) => (state: ReactFlowState) => {
     const { connectionClickStartHandle: clickHandle, connectionMode, connection } = state;
@@ -77,6 +96,8 @@ function HandleComponent(
     className,
     onMouseDown,
     onTouchStart,
+    onKeyDown,
+    onBlur,
     ...rest
   }: HandleProps,
   ref: ForwardedRef<HTMLDivElement>
@@ -85,7 +106,9 @@ function HandleComponent(
   const isTarget = type === 'target';
   const store = useStoreApi();
   const nodeId = useNodeId();
-  const { connectOnClick, noPanClassName, rfId } = useStore(selector, shallow);
+  const { connectOnClick, noPanClassName, rfId, disableKeyboardA11y, ariaLabelConfig } = useStore(selector, shallow);
+  // the handles that a connection started with the keyboard can end at and the currently chosen one
+  const keyboardConnection = useRef<{ validHandles: ValidHandle[]; index: number } | null>(null);
   const {
     connectingFrom,
     connectingTo,
@@ -213,6 +236,146 @@ function HandleComponent(
     store.setState({ connectionClickStartHandle: null });
   };
 
+  const isKeyboardConnectable = !disableKeyboardA11y && isConnectable && isConnectableStart && !!nodeId;
+  const handleLabel = nodeId ? getHandleLabel(ariaLabelConfig, { nodeId, id: handleId, type }) : undefined;
+
+  const showKeyboardConnectionTarget = (event: KeyboardEvent, validHandles: ValidHandle[], index: number) => {
+    const { nodeLookup, updateConnection } = store.getState();
+    const fromNode = nodeLookup.get(nodeId!);
+    const fromHandle = fromNode?.internals.handleBounds?.[type]?.find((handle) => handle.id === handleId);
+    const validHandle = validHandles[index];
+    const toNode = nodeLookup.get(validHandle.toHandle.nodeId);
+
+    if (!fromNode || !fromHandle || !toNode) {
+      cancelKeyboardConnection(event);
+      return;
+    }
+
+    keyboardConnection.current = { validHandles, index };
+
+    // the connection line is drawn like for a connection that is made with the pointer
+    updateConnection({
+      inProgress: true,
+      isValid: true,
+      from: getHandlePosition(fromNode, fromHandle, Position.Left, true),
+      fromHandle,
+      fromPosition: fromHandle.position,
+      fromNode,
+      to: validHandle.to,
+      toHandle: validHandle.toHandle,
+      toPosition: validHandle.toHandle.position,
+      toNode,
+    });
+
+    store.setState({
+      ariaLiveMessage: ariaLabelConfig['handle.connection.ariaLiveMessage']({
+        from: handleLabel!,
+        to: getHandleLabel(ariaLabelConfig, validHandle.toHandle),
+        index,
+        count: validHandles.length,
+      }),
+    });
+  };
+
+  const startKeyboardConnection = (event: KeyboardEvent) => {
+    const {
+      connectionMode,
+      isValidConnection: isValidConnectionStore,
+      lib,
+      rfId: flowId,
+      nodeLookup,
+    } = store.getState();
+    const validHandles = XYHandle.getValidHandles(event, {
+      connectionMode,
+      fromNodeId: nodeId!,
+      fromHandleId: handleId,
+      fromType: type,
+      isValidConnection: isValidConnection || isValidConnectionStore,
+      flowId,
+      doc: getHostForElement(event.target),
+      lib,
+      nodeLookup,
+    });
+
+    if (validHandles.length === 0) {
+      store.setState({
+        ariaLiveMessage: ariaLabelConfig['handle.connection.noValidHandles']({ from: handleLabel! }),
+      });
+      return;
+    }
+
+    store.getState().onConnectStart?.(event, { nodeId, handleId, handleType: type });
+    showKeyboardConnectionTarget(event, validHandles, 0);
+  };
+
+  const cancelKeyboardConnection = (event: KeyboardEvent | FocusEvent, ariaLiveMessage?: string) => {
+    const { connection, onConnectEnd, cancelConnection } = store.getState();
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { inProgress, ...connectionState } = connection;
+
+    keyboardConnection.current = null;
+    onConnectEnd?.(event, { ...connectionState, toPosition: connection.toHandle ? connection.toPosition : null });
+    cancelConnection();
+
+    if (ariaLiveMessage) {
+      store.setState({ ariaLiveMessage });
+    }
+  };
+
+  const onKeyDownHandler = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    onKeyDown?.(event);
+
+    if (!isKeyboardConnectable || event.defaultPrevented) {
+      return;
+    }
+
+    const currentConnection = keyboardConnection.current;
+    const isNext = keyboardNextKeys.includes(event.key) || (event.key === 'Tab' && !event.shiftKey);
+    const isPrevious = keyboardPreviousKeys.includes(event.key) || (event.key === 'Tab' && event.shiftKey);
+
+    if (!currentConnection) {
+      if (!keyboardConnectKeys.includes(event.key)) {
+        return;
+      }
+
+      startKeyboardConnection(event.nativeEvent);
+    } else if (event.key === 'Escape') {
+      cancelKeyboardConnection(event.nativeEvent, ariaLabelConfig['handle.connection.canceled']);
+    } else if (keyboardConnectKeys.includes(event.key)) {
+      const { connection, toHandle } = currentConnection.validHandles[currentConnection.index];
+
+      onConnectExtended(connection);
+      cancelKeyboardConnection(
+        event.nativeEvent,
+        ariaLabelConfig['handle.connection.connected']({
+          from: handleLabel!,
+          to: getHandleLabel(ariaLabelConfig, toHandle),
+        })
+      );
+    } else if (isNext || isPrevious) {
+      const count = currentConnection.validHandles.length;
+      showKeyboardConnectionTarget(
+        event.nativeEvent,
+        currentConnection.validHandles,
+        (currentConnection.index + (isNext ? 1 : -1) + count) % count
+      );
+    } else {
+      return;
+    }
+
+    // the node must not be selected or moved by the keys that are used for the connection
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const onBlurHandler = (event: ReactFocusEvent<HTMLDivElement>) => {
+    onBlur?.(event);
+
+    if (keyboardConnection.current) {
+      cancelKeyboardConnection(event.nativeEvent, ariaLabelConfig['handle.connection.canceled']);
+    }
+  };
+
   return (
     <div
       data-handleid={handleId}
@@ -248,6 +411,12 @@ function HandleComponent(
       onMouseDown={onPointerDown}
       onTouchStart={onPointerDown}
       onClick={connectOnClick ? onClick : undefined}
+      onKeyDown={onKeyDownHandler}
+      onBlur={onBlurHandler}
+      tabIndex={isKeyboardConnectable ? 0 : undefined}
+      role={isKeyboardConnectable ? 'button' : undefined}
+      aria-label={isKeyboardConnectable ? handleLabel : undefined}
+      aria-describedby={isKeyboardConnectable ? `${ARIA_HANDLE_DESC_KEY}-${rfId}` : undefined}
       ref={ref}
       {...rest}
     >
@@ -1,12 +1,15 @@
-import { type MouseEvent, type KeyboardEvent } from 'react';
+import { type MouseEvent, type KeyboardEvent, type FocusEvent } from 'react';
 import cc from 'classcat';
 import { shallow } from 'zustand/shallow';
 import {
-  elementSelectionKeys,
   errorMessages,
+  getKeymapAction,
+  getElementKeymap,
   getNodeDimensions,
+  getNodeInDirection,
   isInputDOMNode,
   nodeHasDimensions,
+  type KeymapAction,
 } from '@xyflow/system';
 
 import { useStore, useStoreApi } from '../../hooks/useStore';
@@ -15,10 +18,25 @@ import { ARIA_NODE_DESC_KEY } from '../A11yDescriptions';
 import { useDrag } from '../../hooks/useDrag';
 import { useMoveSelectedNodes } from '../../hooks/useMoveSelectedNodes';
 import { handleNodeClick } from '../Nodes/utils';
-import { arrowKeyDiffs, builtinNodeTypes, getNodeInlineStyleDimensions } from './utils';
+import { focusElement, getFocusableConnectedEdgeIds } from '../../utils/navigation';
+import {
+  arrowKeyDiffs,
+  builtinNodeTypes,
+  getNodeInlineStyleDimensions,
+  isMoveKeymapAction,
+  moveKeymapActions,
+  type MoveKeymapAction,
+} from './utils';
 import { useNodeObserver } from './useNodeObserver';
 import type { InternalNode, Node, NodeWrapperProps } from '../../types';
 
+const nodeKeymapActions: KeymapAction[] = [
+  'select',
+  'deselect',
+  ...(Object.keys(moveKeymapActions) as MoveKeymapAction[]),
+  'focusEdges',
+];
+
 export function NodeWrapper<NodeType extends Node>({
   id,
   onClick,
@@ -27,6 +45,7 @@ export function NodeWrapper<NodeType extends Node>({
   onMouseLeave,
   onContextMenu,
   onDoubleClick,
+  onFocus,
   nodesDraggable,
   elementsSelectable,
   nodesConnectable,
@@ -40,7 +59,7 @@ export function NodeWrapper<NodeType extends Node>({
   nodeClickDistance,
   onError,
 }: NodeWrapperProps<NodeType>) {
-  const { node, internals, isParent } = useStore((s) => {
+  const { node, internals, isParent, isDropTarget, isCollapsed } = useStore((s) => {
     const node = s.nodeLookup.get(id)! as InternalNode<NodeType>;
     const isParent = s.parentLookup.has(id);
 
@@ -48,6 +67,8 @@ export function NodeWrapper<NodeType extends Node>({
       node,
       internals: node.internals,
       isParent,
+      isDropTarget: s.dropTargetId === id,
+      isCollapsed: s.collapsedNodeIds.has(id),
     };
   }, shallow);
 
@@ -103,6 +124,14 @@ export function NodeWrapper<NodeType extends Node>({
   const onDoubleClickHandler = onDoubleClick
     ? (event: MouseEvent) => onDoubleClick(event, { ...internals.userNode })
     : undefined;
+  const onFocusHandler = onFocus
+    ? (event: FocusEvent) => {
+        // focusable elements inside of the node, like handles, don't focus the node
+        if (event.target === event.currentTarget) {
+          onFocus(event, { ...internals.userNode });
+        }
+      }
+    : undefined;
 
   const onSelectNodeHandler = (event: MouseEvent) => {
     const { selectNodesOnDrag, nodeDragThreshold } = store.getState();
@@ -124,37 +153,87 @@ export function NodeWrapper<NodeType extends Node>({
     }
   };
 
+  const nodeLabel = node.ariaLabel || id;
+
   const onKeyDown = (event: KeyboardEvent) => {
     if (isInputDOMNode(event.nativeEvent) || disableKeyboardA11y) {
       return;
     }
 
-    if (elementSelectionKeys.includes(event.key) && isSelectable) {
-      const unselect = event.key === 'Escape';
+    const { keymap, keymapActions, arrowKeyMode, ariaLabelConfig } = store.getState();
+    const action = getKeymapAction(event.nativeEvent, getElementKeymap(keymap), nodeKeymapActions);
+
+    // actions with a custom handler are handled by the global key handler
+    if (action && keymapActions[action]) {
+      return;
+    }
 
+    if ((action === 'select' || action === 'deselect') && isSelectable) {
       handleNodeClick({
         id,
         store,
-        unselect,
+        unselect: action === 'deselect',
         nodeRef,
       });
-    } else if (isDraggable && node.selected && Object.prototype.hasOwnProperty.call(arrowKeyDiffs, event.key)) {
+    } else if (isMoveKeymapAction(action) && arrowKeyMode === 'move' && isDraggable && node.selected) {
+      const { key, factor } = moveKeymapActions[action];
+
       // prevent default scrolling behavior on arrow key press when node is moved
       event.preventDefault();
 
       store.setState({
-        ariaLiveMessage: `Moved selected node ${event.key
-          .replace('Arrow', '')
-          .toLowerCase()}. New position, x: ${~~internals.positionAbsolute.x}, y: ${~~internals.positionAbsolute.y}`,
+        ariaLiveMessage: ariaLabelConfig['node.a11yDescription.ariaLiveMessage']({
+          direction: key.replace('Arrow', '').toLowerCase(),
+          label: nodeLabel,
+          x: ~~internals.positionAbsolute.x,
+          y: ~~internals.positionAbsolute.y,
+        }),
       });
 
       moveSelectedNodes({
-        direction: arrowKeyDiffs[event.key],
-        factor: event.shiftKey ? 4 : 1,
+        direction: arrowKeyDiffs[key],
+        factor,
       });
+    } else if (Object.prototype.hasOwnProperty.call(arrowKeyDiffs, event.key)) {
+      // the arrow keys move the focus when the node isn't moved
+      event.preventDefault();
+      focusNodeInDirection(event.key);
+    } else if (action === 'focusEdges') {
+      const edgeIds = getFocusableConnectedEdgeIds(store.getState(), id);
+
+      if (edgeIds.length === 0) {
+        store.setState({ ariaLiveMessage: ariaLabelConfig['node.navigation.noConnectedEdges']({ label: nodeLabel }) });
+        return;
+      }
+
+      // the edges remember the node, so that the focus can cycle through its edges and go back to it
+      store.setState({ edgeNavigationNodeId: id });
+      focusElement(store.getState, 'edge', edgeIds[0]);
     }
   };
 
+  const focusNodeInDirection = (key: string) => {
+    const { nodeLookup, nodesFocusable, ariaLabelConfig } = store.getState();
+    const nextNode = getNodeInDirection({
+      nodeId: id,
+      direction: arrowKeyDiffs[key],
+      nodeLookup,
+      filter: (n) => !!(n.focusable || (nodesFocusable && typeof n.focusable === 'undefined')),
+    });
+
+    if (!nextNode) {
+      store.setState({
+        ariaLiveMessage: ariaLabelConfig['node.navigation.noNodeInDirection']({
+          direction: key.replace('Arrow', '').toLowerCase(),
+          label: nodeLabel,
+        }),
+      });
+      return;
+    }
+
+    focusElement(store.getState, 'node', nextNode.id);
+  };
+
   return (
     <div
       className={cc([
@@ -171,12 +250,18 @@ export function NodeWrapper<NodeType extends Node>({
           parent: isParent,
           draggable: isDraggable,
           dragging,
+          'drop-target': isDropTarget,
+          collapsed: isCollapsed,
         },
       ])}
       ref={nodeRef}
       style={{
         zIndex: internals.z,
-        transform: `translate(${internals.positionAbsolute.x}px,${internals.positionAbsolute.y}px)`,
+        transform: `translate(${internals.positionAbsolute.x}px,${internals.positionAbsolute.y}px)${
+          node.rotation ? ` rotate(${node.rotation}deg)` : ''
+        }`,
+        // nodes are rotated around their center, like in the rotation, edge and bounds calculations
+        transformOrigin: node.rotation ? 'center' : undefined,
         pointerEvents: hasPointerEvents ? 'all' : 'none',
         visibility: hasDimensions ? 'visible' : 'hidden',
         ...node.style,
@@ -190,6 +275,7 @@ export function NodeWrapper<NodeType extends Node>({
       onContextMenu={onContextMenuHandler}
       onClick={onSelectNodeHandler}
       onDoubleClick={onDoubleClickHandler}
+      onFocus={onFocusHandler}
       onKeyDown={isFocusable ? onKeyDown : undefined}
       tabIndex={isFocusable ? 0 : undefined}
       role={isFocusable ? 'button' : undefined}
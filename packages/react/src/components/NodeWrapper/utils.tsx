@@ -1,4 +1,4 @@
-import type { XYPosition } from '@xyflow/system';
+import type { KeymapAction, XYPosition } from '@xyflow/system';
 
 import { InputNode } from '../Nodes/InputNode';
 import { DefaultNode } from '../Nodes/DefaultNode';
@@ -13,6 +13,23 @@ export const arrowKeyDiffs: Record<string, XYPosition> = {
   ArrowRight: { x: 1, y: 0 },
 };
 
+export type MoveKeymapAction = Extract<KeymapAction, `move${string}`>;
+
+// the arrow key of the direction and the factor of the step size
+export const moveKeymapActions: Record<MoveKeymapAction, { key: string; factor: number }> = {
+  moveUp: { key: 'ArrowUp', factor: 1 },
+  moveDown: { key: 'ArrowDown', factor: 1 },
+  moveLeft: { key: 'ArrowLeft', factor: 1 },
+  moveRight: { key: 'ArrowRight', factor: 1 },
+  moveUpFast: { key: 'ArrowUp', factor: 4 },
+  moveDownFast: { key: 'ArrowDown', factor: 4 },
+  moveLeftFast: { key: 'ArrowLeft', factor: 4 },
+  moveRightFast: { key: 'ArrowRight', factor: 4 },
+};
+
+export const isMoveKeymapAction = (action?: string): action is MoveKeymapAction =>
+  !!action && Object.prototype.hasOwnProperty.call(moveKeymapActions, action);
+
 export const builtinNodeTypes: NodeTypes = {
   input: InputNode,
   default: DefaultNode,
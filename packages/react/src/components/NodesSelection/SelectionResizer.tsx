@@ -0,0 +1,150 @@
+import { useEffect, useRef } from 'react';
+import cc from 'classcat';
+import {
+  XYResizer,
+  ResizeControlVariant,
+  XY_RESIZER_HANDLE_POSITIONS,
+  XY_RESIZER_LINE_POSITIONS,
+  getInternalNodesBounds,
+  getNodeScaleChanges,
+  type ControlPosition,
+  type NodeDimensionChange,
+  type NodeLookup,
+  type Rect,
+  type XYResizerChange,
+} from '@xyflow/system';
+
+import { useStoreApi } from '../../hooks/useStore';
+
+type SelectionResizeControlProps = {
+  position: ControlPosition;
+  variant: ResizeControlVariant;
+  resizeNodes: boolean;
+};
+
+function SelectionResizeControl({ position, variant, resizeNodes }: SelectionResizeControlProps) {
+  const store = useStoreApi();
+  const resizeControlRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!resizeControlRef.current) {
+      return;
+    }
+
+    // the nodes get scaled from their state at the start of the resize, so that rounding errors don't add up
+    let startBounds: Rect = { x: 0, y: 0, width: 0, height: 0 };
+    let startNodeLookup: NodeLookup = new Map();
+    let nodeIds: string[] = [];
+    let bounds: Rect = startBounds;
+
+    const resizer = XYResizer({
+      domNode: resizeControlRef.current,
+      getBounds: () => {
+        const { nodeLookup } = store.getState();
+        nodeIds = Array.from(nodeLookup.values())
+          .filter((node) => node.selected)
+          .map((node) => node.id);
+
+        if (nodeIds.length === 0) {
+          return null;
+        }
+
+        startNodeLookup = new Map(nodeLookup);
+        startBounds = getInternalNodesBounds(nodeLookup, { filter: (node) => !!node.selected });
+        bounds = startBounds;
+
+        return startBounds;
+      },
+      getStoreItems: () => {
+        const { nodeLookup, transform, snapGrid, snapToGrid, nodeOrigin, domNode } = store.getState();
+        return {
+          nodeLookup,
+          transform,
+          snapGrid,
+          snapToGrid,
+          nodeOrigin,
+          paneDomNode: domNode,
+        };
+      },
+      onChange: (change: XYResizerChange) => {
+        const { triggerNodeChanges, nodeOrigin } = store.getState();
+        bounds = { ...bounds, ...change };
+
+        triggerNodeChanges(
+          getNodeScaleChanges({
+            nodeIds,
+            nodeLookup: startNodeLookup,
+            from: startBounds,
+            to: bounds,
+            resizeNodes,
+            nodeOrigin,
+          })
+        );
+      },
+      onEnd: () => {
+        const changes: NodeDimensionChange[] = nodeIds.map((id) => ({ id, type: 'dimensions', resizing: false }));
+        store.getState().triggerNodeChanges(changes);
+      },
+    });
+
+    resizer.update({
+      controlPosition: position,
+      boundaries: {
+        minWidth: 10,
+        minHeight: 10,
+        maxWidth: Number.MAX_VALUE,
+        maxHeight: Number.MAX_VALUE,
+      },
+      keepAspectRatio: false,
+      onResizeStart: undefined,
+      onResize: undefined,
+      onResizeEnd: undefined,
+      shouldResize: undefined,
+    });
+
+    return () => {
+      resizer.destroy();
+    };
+  }, [position, resizeNodes]);
+
+  return (
+    <div
+      className={cc(['react-flow__resize-control', 'nodrag', ...position.split('-'), variant])}
+      ref={resizeControlRef}
+    />
+  );
+}
+
+/**
+ * The resize controls of the nodes selection, they scale the positions and optionally the dimensions of the selected nodes
+ */
+export function SelectionResizer({
+  width,
+  height,
+  resizeNodes,
+}: {
+  width: number;
+  height: number;
+  resizeNodes: boolean;
+}) {
+  return (
+    <div className="react-flow__nodesselection-resizer" style={{ width, height }}>
+      {XY_RESIZER_LINE_POSITIONS.map((position) => (
+        <SelectionResizeControl
+          key={position}
+          position={position}
+          variant={ResizeControlVariant.Line}
+          resizeNodes={resizeNodes}
+        />
+      ))}
+      {XY_RESIZER_HANDLE_POSITIONS.map((position) => (
+        <SelectionResizeControl
+          key={position}
+          position={position}
+          variant={ResizeControlVariant.Handle}
+          resizeNodes={resizeNodes}
+        />
+      ))}
+    </div>
+  );
+}
@@ -5,18 +5,21 @@
 import { useRef, useEffect, type MouseEvent, type KeyboardEvent } from 'react';
 import cc from 'classcat';
 import { shallow } from 'zustand/shallow';
-import { getInternalNodesBounds, isNumeric } from '@xyflow/system';
+import { getInternalNodesBounds, getKeymapAction, isNumeric } from '@xyflow/system';
 
 import { useStore, useStoreApi } from '../../hooks/useStore';
 import { useDrag } from '../../hooks/useDrag';
 import { useMoveSelectedNodes } from '../../hooks/useMoveSelectedNodes';
-import { arrowKeyDiffs } from '../NodeWrapper/utils';
+import { arrowKeyDiffs, moveKeymapActions, type MoveKeymapAction } from '../NodeWrapper/utils';
+import { SelectionResizer } from './SelectionResizer';
 import type { Node, ReactFlowState } from '../../types';
 
 export type NodesSelectionProps<NodeType> = {
   onSelectionContextMenu?: (event: MouseEvent, nodes: NodeType[]) => void;
   noPanClassName?: string;
   disableKeyboardA11y: boolean;
+  resizable?: boolean;
+  resizeNodes?: boolean;
 };
 
 const selector = (s: ReactFlowState) => {
@@ -36,6 +39,8 @@ export function NodesSelection<NodeType extends Node>({
   onSelectionContextMenu,
   noPanClassName,
   disableKeyboardA11y,
+  resizable = false,
+  resizeNodes = true,
 }: NodesSelectionProps<NodeType>) {
   const store = useStoreApi<NodeType>();
   const { width, height, transformString, userSelectionActive } = useStore(selector, shallow);
@@ -67,12 +72,16 @@ export function NodesSelection<NodeType extends Node>({
     : undefined;
 
   const onKeyDown = (event: KeyboardEvent) => {
-    if (Object.prototype.hasOwnProperty.call(arrowKeyDiffs, event.key)) {
+    const { keymap, keymapActions } = store.getState();
+    const action = getKeymapAction(event.nativeEvent, keymap, Object.keys(moveKeymapActions) as MoveKeymapAction[]);
+
+    // actions with a custom handler are handled by the global key handler
+    if (action && !keymapActions[action]) {
       event.preventDefault();
 
       moveSelectedNodes({
-        direction: arrowKeyDiffs[event.key],
-        factor: event.shiftKey ? 4 : 1,
+        direction: arrowKeyDiffs[moveKeymapActions[action].key],
+        factor: moveKeymapActions[action].factor,
       });
     }
   };
@@ -95,6 +104,7 @@ export function NodesSelection<NodeType extends Node>({
           height,
         }}
       />
+      {resizable && <SelectionResizer width={width} height={height} resizeNodes={resizeNodes} />}
     </div>
   );
 }
@@ -5,7 +5,7 @@
  */
 import { useEffect, useRef } from 'react';
 import { shallow } from 'zustand/shallow';
-import { infiniteExtent, type CoordinateExtent } from '@xyflow/system';
+import { infiniteExtent, defaultAriaLabelConfig, type AriaLabelConfig, type CoordinateExtent } from '@xyflow/system';
 
 import { useStore, useStoreApi } from '../../hooks/useStore';
 import type { Node, Edge, ReactFlowState, ReactFlowProps, FitViewOptions } from '../../types';
@@ -26,6 +26,9 @@ const reactFlowFieldsToTrack = [
   'nodesConnectable',
   'nodesFocusable',
   'edgesFocusable',
+  'arrowKeyMode',
+  'keymap',
+  'keymapActions',
   'edgesReconnectable',
   'elevateNodesOnSelect',
   'elevateEdgesOnSelect',
@@ -38,6 +41,9 @@ const reactFlowFieldsToTrack = [
   'connectionMode',
   'snapGrid',
   'snapToGrid',
+  'snapToNodes',
+  'snapToNodesThreshold',
+  'nodeCollision',
   'translateExtent',
   'connectOnClick',
   'defaultEdgeOptions',
@@ -68,6 +74,9 @@ const reactFlowFieldsToTrack = [
   'debug',
   'autoPanSpeed',
   'paneClickDistance',
+  'disableKeyboardA11y',
+  'ariaLabelConfig',
+  'onlyRenderVisibleElements',
 ] as const;
 
 type ReactFlowFieldsToTrack = (typeof reactFlowFieldsToTrack)[number];
@@ -91,6 +100,7 @@ const selector = (s: ReactFlowState) => ({
   reset: s.reset,
   setDefaultNodesAndEdges: s.setDefaultNodesAndEdges,
   setPaneClickDistance: s.setPaneClickDistance,
+  setOnlyRenderVisibleElements: s.setOnlyRenderVisibleElements,
 });
 
 const initPrevValues = {
@@ -107,6 +117,8 @@ const initPrevValues = {
   noPanClassName: 'nopan',
   rfId: '1',
   paneClickDistance: 0,
+  disableKeyboardA11y: false,
+  onlyRenderVisibleElements: false,
 };
 
 export function StoreUpdater<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
@@ -122,6 +134,7 @@ export function StoreUpdater<NodeType extends Node = Node, EdgeType extends Edge
     reset,
     setDefaultNodesAndEdges,
     setPaneClickDistance,
+    setOnlyRenderVisibleElements,
   } = useStore(selector, shallow);
   const store = useStoreApi<NodeType, EdgeType>();
 
@@ -145,6 +158,8 @@ export function StoreUpdater<NodeType extends Node = Node, EdgeType extends Edge
 
         if (fieldValue === previousFieldValue) continue;
         if (typeof props[fieldName] === 'undefined') continue;
+        // the config is often passed as an inline object, so we only update the store if one of the texts changed
+        if (fieldName === 'ariaLabelConfig' && shallow(fieldValue, previousFieldValue)) continue;
         // Custom handling with dedicated setters for some fields
         if (fieldName === 'nodes') setNodes(fieldValue as Node[]);
         else if (fieldName === 'edges') setEdges(fieldValue as Edge[]);
@@ -153,6 +168,11 @@ export function StoreUpdater<NodeType extends Node = Node, EdgeType extends Edge
         else if (fieldName === 'translateExtent') setTranslateExtent(fieldValue as CoordinateExtent);
         else if (fieldName === 'nodeExtent') setNodeExtent(fieldValue as CoordinateExtent);
         else if (fieldName === 'paneClickDistance') setPaneClickDistance(fieldValue as number);
+        else if (fieldName === 'onlyRenderVisibleElements') setOnlyRenderVisibleElements(fieldValue as boolean);
+        else if (fieldName === 'ariaLabelConfig')
+          store.setState({
+            ariaLabelConfig: { ...defaultAriaLabelConfig, ...(fieldValue as Partial<AriaLabelConfig>) },
+          });
         // Renamed fields
         else if (fieldName === 'fitView') store.setState({ fitViewOnInit: fieldValue as boolean });
         else if (fieldName === 'fitViewOptions') store.setState({ fitViewOnInitOptions: fieldValue as FitViewOptions });
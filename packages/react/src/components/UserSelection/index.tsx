@@ -6,16 +6,28 @@ import type { ReactFlowState } from '../../types';
 const selector = (s: ReactFlowState) => ({
   userSelectionActive: s.userSelectionActive,
   userSelectionRect: s.userSelectionRect,
+  userSelectionPoints: s.userSelectionPoints,
 });
 
 export function UserSelection() {
-  const { userSelectionActive, userSelectionRect } = useStore(selector, shallow);
+  const { userSelectionActive, userSelectionRect, userSelectionPoints } = useStore(selector, shallow);
   const isActive = userSelectionActive && userSelectionRect;
 
   if (!isActive) {
     return null;
   }
 
+  if (userSelectionPoints) {
+    return (
+      <svg className="react-flow__selection-lasso react-flow__container">
+        <path
+          className="react-flow__selection-lasso-path"
+          d={`M${userSelectionPoints.map(({ x, y }) => `${x},${y}`).join(' L')} Z`}
+        />
+      </svg>
+    );
+  }
+
   return (
     <div
       className="react-flow__selection react-flow__container"
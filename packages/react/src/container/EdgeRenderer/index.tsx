@@ -19,6 +19,7 @@ type EdgeRendererProps<EdgeType extends Edge = Edge> = Pick<
   | 'onEdgeMouseEnter'
   | 'onEdgeMouseMove'
   | 'onEdgeMouseLeave'
+  | 'onEdgeFocus'
   | 'onReconnectStart'
   | 'onReconnectEnd'
   | 'reconnectRadius'
@@ -49,6 +50,7 @@ function EdgeRendererComponent<EdgeType extends Edge = Edge>({
   onEdgeMouseEnter,
   onEdgeMouseMove,
   onEdgeMouseLeave,
+  onEdgeFocus,
   onEdgeClick,
   reconnectRadius,
   onEdgeDoubleClick,
@@ -77,6 +79,7 @@ function EdgeRendererComponent<EdgeType extends Edge = Edge>({
             onMouseEnter={onEdgeMouseEnter}
             onMouseMove={onEdgeMouseMove}
             onMouseLeave={onEdgeMouseLeave}
+            onFocus={onEdgeFocus}
             onClick={onEdgeClick}
             reconnectRadius={reconnectRadius}
             onDoubleClick={onEdgeDoubleClick}
@@ -47,6 +47,7 @@ function FlowRendererComponent<NodeType extends Node = Node>({
   selectionKeyCode,
   selectionOnDrag,
   selectionMode,
+  selectEdgesByPath,
   onSelectionStart,
   onSelectionEnd,
   multiSelectionKeyCode,
@@ -66,6 +67,8 @@ function FlowRendererComponent<NodeType extends Node = Node>({
   maxZoom,
   preventScrolling,
   onSelectionContextMenu,
+  selectionResizable,
+  selectionResizeNodes,
   noWheelClassName,
   noPanClassName,
   disableKeyboardA11y,
@@ -118,6 +121,7 @@ function FlowRendererComponent<NodeType extends Node = Node>({
         panOnDrag={panOnDrag}
         isSelecting={!!isSelecting}
         selectionMode={selectionMode}
+        selectEdgesByPath={selectEdgesByPath}
         selectionKeyPressed={selectionKeyPressed}
         selectionOnDrag={_selectionOnDrag}
       >
@@ -127,6 +131,8 @@ function FlowRendererComponent<NodeType extends Node = Node>({
             onSelectionContextMenu={onSelectionContextMenu}
             noPanClassName={noPanClassName}
             disableKeyboardA11y={disableKeyboardA11y}
+            resizable={selectionResizable}
+            resizeNodes={selectionResizeNodes}
           />
         )}
       </Pane>
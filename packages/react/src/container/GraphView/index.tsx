@@ -51,6 +51,7 @@ function GraphViewComponent<NodeType extends Node = Node, EdgeType extends Edge
   onNodeMouseMove,
   onNodeMouseLeave,
   onNodeContextMenu,
+  onNodeFocus,
   onSelectionContextMenu,
   onSelectionStart,
   onSelectionEnd,
@@ -61,6 +62,9 @@ function GraphViewComponent<NodeType extends Node = Node, EdgeType extends Edge
   selectionKeyCode,
   selectionOnDrag,
   selectionMode,
+  selectEdgesByPath,
+  selectionResizable,
+  selectionResizeNodes,
   multiSelectionKeyCode,
   panActivationKeyCode,
   zoomActivationKeyCode,
@@ -92,6 +96,7 @@ function GraphViewComponent<NodeType extends Node = Node, EdgeType extends Edge
   onEdgeMouseEnter,
   onEdgeMouseMove,
   onEdgeMouseLeave,
+  onEdgeFocus,
   reconnectRadius,
   onReconnect,
   onReconnectStart,
@@ -125,6 +130,9 @@ function GraphViewComponent<NodeType extends Node = Node, EdgeType extends Edge
       selectionKeyCode={selectionKeyCode}
       selectionOnDrag={selectionOnDrag}
       selectionMode={selectionMode}
+      selectEdgesByPath={selectEdgesByPath}
+      selectionResizable={selectionResizable}
+      selectionResizeNodes={selectionResizeNodes}
       onSelectionStart={onSelectionStart}
       onSelectionEnd={onSelectionEnd}
       multiSelectionKeyCode={multiSelectionKeyCode}
@@ -164,6 +172,7 @@ function GraphViewComponent<NodeType extends Node = Node, EdgeType extends Edge
           onEdgeMouseEnter={onEdgeMouseEnter}
           onEdgeMouseMove={onEdgeMouseMove}
           onEdgeMouseLeave={onEdgeMouseLeave}
+          onEdgeFocus={onEdgeFocus}
           reconnectRadius={reconnectRadius}
           defaultMarkerColor={defaultMarkerColor}
           noPanClassName={noPanClassName}
@@ -185,6 +194,7 @@ function GraphViewComponent<NodeType extends Node = Node, EdgeType extends Edge
           onNodeMouseMove={onNodeMouseMove}
           onNodeMouseLeave={onNodeMouseLeave}
           onNodeContextMenu={onNodeContextMenu}
+          onNodeFocus={onNodeFocus}
           nodeClickDistance={nodeClickDistance}
           onlyRenderVisibleElements={onlyRenderVisibleElements}
           noPanClassName={noPanClassName}
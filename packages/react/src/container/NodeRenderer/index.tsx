@@ -17,6 +17,7 @@ export type NodeRendererProps<NodeType extends Node> = Pick<
   | 'onNodeMouseMove'
   | 'onNodeMouseLeave'
   | 'onNodeContextMenu'
+  | 'onNodeFocus'
   | 'onlyRenderVisibleElements'
   | 'noPanClassName'
   | 'noDragClassName'
@@ -79,6 +80,7 @@ function NodeRendererComponent<NodeType extends Node>(props: NodeRendererProps<N
             onMouseMove={props.onNodeMouseMove}
             onMouseLeave={props.onNodeMouseLeave}
             onContextMenu={props.onNodeContextMenu}
+            onFocus={props.onNodeFocus}
             onDoubleClick={props.onNodeDoubleClick}
             noDragClassName={props.noDragClassName}
             noPanClassName={props.noPanClassName}
@@ -12,11 +12,16 @@ import { shallow } from 'zustand/shallow';
 import cc from 'classcat';
 import {
   getNodesInside,
+  getNodesInsidePolygon,
   getEventPosition,
+  getPathPoints,
+  isPolylineInPolygon,
+  pointToRendererPoint,
   SelectionMode,
   areSetsEqual,
   type NodeChange,
   type EdgeChange,
+  type XYPosition,
 } from '@xyflow/system';
 
 import { UserSelection } from '../../components/UserSelection';
@@ -33,6 +38,7 @@ type PaneProps = {
   Pick<
     ReactFlowProps,
     | 'selectionMode'
+    | 'selectEdgesByPath'
     | 'panOnDrag'
     | 'onSelectionStart'
     | 'onSelectionEnd'
@@ -58,6 +64,9 @@ const wrapHandler = (
   };
 };
 
+// the distance in pixels the pointer needs to move before another point gets added to the lasso
+const lassoPointDistance = 4;
+
 const selector = (s: ReactFlowState) => ({
   userSelectionActive: s.userSelectionActive,
   elementsSelectable: s.elementsSelectable,
@@ -68,6 +77,7 @@ export function Pane({
   isSelecting,
   selectionKeyPressed,
   selectionMode = SelectionMode.Full,
+  selectEdgesByPath = false,
   panOnDrag,
   selectionOnDrag,
   onSelectionStart,
@@ -89,6 +99,11 @@ export function Pane({
 
   const selectedNodeIds = useRef<Set<string>>(new Set());
   const selectedEdgeIds = useRef<Set<string>>(new Set());
+  // The sampled paths of the rendered edges, used to check if they are inside the selection
+  const edgePaths = useRef<Map<string, XYPosition[]>>(new Map());
+
+  const isLasso = selectionMode === SelectionMode.Lasso || selectionMode === SelectionMode.LassoPartial;
+  const isPartial = selectionMode === SelectionMode.Partial || selectionMode === SelectionMode.LassoPartial;
 
   // Used to prevent click events when the user lets go of the selectionKey during a selection
   const selectionInProgress = useRef<boolean>(false);
@@ -140,6 +155,18 @@ export function Pane({
 
     resetSelectedElements();
 
+    edgePaths.current = new Map();
+
+    if (selectEdgesByPath) {
+      domNode?.querySelectorAll<SVGGElement>('.react-flow__edge[data-id]').forEach((edgeElement) => {
+        const path = edgeElement.querySelector<SVGPathElement>('.react-flow__edge-path');
+
+        if (path && edgeElement.dataset.id) {
+          edgePaths.current.set(edgeElement.dataset.id, getPathPoints(path));
+        }
+      });
+    }
+
     store.setState({
       userSelectionRect: {
         width: 0,
@@ -149,6 +176,7 @@ export function Pane({
         x,
         y,
       },
+      userSelectionPoints: isLasso ? [{ x, y }] : null,
     });
 
     onSelectionStart?.(event);
@@ -157,10 +185,12 @@ export function Pane({
   const onPointerMove = (event: ReactPointerEvent): void => {
     const {
       userSelectionRect,
+      userSelectionPoints,
       transform,
       nodeLookup,
       edgeLookup,
       connectionLookup,
+      nodeSpatialIndex,
       triggerNodeChanges,
       triggerEdgeChanges,
       defaultEdgeOptions,
@@ -170,9 +200,16 @@ export function Pane({
       return;
     }
 
+    const { x: mouseX, y: mouseY } = getEventPosition(event.nativeEvent, containerBounds.current);
+    const lastPoint = userSelectionPoints?.[userSelectionPoints.length - 1];
+
+    // the selection is only updated when the lasso got a new point, otherwise it doesn't change
+    if (lastPoint && Math.hypot(mouseX - lastPoint.x, mouseY - lastPoint.y) < lassoPointDistance) {
+      return;
+    }
+
     selectionInProgress.current = true;
 
-    const { x: mouseX, y: mouseY } = getEventPosition(event.nativeEvent, containerBounds.current);
     const { startX, startY } = userSelectionRect;
 
     const nextUserSelectRect = {
@@ -184,18 +221,47 @@ export function Pane({
       height: Math.abs(mouseY - startY),
     };
 
+    const nextUserSelectionPoints = userSelectionPoints ? [...userSelectionPoints, { x: mouseX, y: mouseY }] : null;
+    // the lasso is drawn in screen coordinates, but the nodes and edges are checked in flow coordinates
+    const lasso = nextUserSelectionPoints?.map((point) => pointToRendererPoint(point, transform));
+
     const prevSelectedNodeIds = selectedNodeIds.current;
     const prevSelectedEdgeIds = selectedEdgeIds.current;
 
-    selectedNodeIds.current = new Set(
-      getNodesInside(nodeLookup, nextUserSelectRect, transform, selectionMode === SelectionMode.Partial, true).map(
-        (node) => node.id
-      )
-    );
+    // In the "only" mode the selection only selects edges, so that they can be deleted without touching the nodes
+    selectedNodeIds.current =
+      selectEdgesByPath === 'only'
+        ? new Set()
+        : new Set(
+            (lasso
+              ? getNodesInsidePolygon(nodeLookup, lasso, isPartial, true, nodeSpatialIndex)
+              : getNodesInside(nodeLookup, nextUserSelectRect, transform, isPartial, true, nodeSpatialIndex)
+            ).map((node) => node.id)
+          );
 
     selectedEdgeIds.current = new Set();
     const edgesSelectable = defaultEdgeOptions?.selectable ?? true;
 
+    if (edgePaths.current.size > 0) {
+      const { x, y } = pointToRendererPoint(nextUserSelectRect, transform);
+      const width = nextUserSelectRect.width / transform[2];
+      const height = nextUserSelectRect.height / transform[2];
+      const selectionArea = lasso ?? [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ];
+
+      // Edges are selected by their path, independent of their source and target nodes
+      for (const [edgeId, pathPoints] of edgePaths.current) {
+        const edge = edgeLookup.get(edgeId);
+        if (edge && (edge.selectable ?? edgesSelectable) && isPolylineInPolygon(pathPoints, selectionArea, isPartial)) {
+          selectedEdgeIds.current.add(edgeId);
+        }
+      }
+    }
+
     // We look for all edges connected to the selected nodes
     for (const nodeId of selectedNodeIds.current) {
       const connections = connectionLookup.get(nodeId);
@@ -220,6 +286,7 @@ export function Pane({
 
     store.setState({
       userSelectionRect: nextUserSelectRect,
+      userSelectionPoints: nextUserSelectionPoints,
       userSelectionActive: true,
       nodesSelectionActive: false,
     });
@@ -244,6 +311,7 @@ export function Pane({
     store.setState({
       userSelectionActive: false,
       userSelectionRect: null,
+      userSelectionPoints: null,
       nodesSelectionActive: selectedNodeIds.current.size > 0,
     });
     onSelectionEnd?.(event);
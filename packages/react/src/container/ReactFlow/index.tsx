@@ -45,6 +45,7 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
     onNodeMouseMove,
     onNodeMouseLeave,
     onNodeContextMenu,
+    onNodeFocus,
     onNodeDoubleClick,
     onNodeDragStart,
     onNodeDrag,
@@ -69,6 +70,9 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
     selectionKeyCode = 'Shift',
     selectionOnDrag = false,
     selectionMode = SelectionMode.Full,
+    selectEdgesByPath = false,
+    selectionResizable = false,
+    selectionResizeNodes = true,
     panActivationKeyCode = 'Space',
     multiSelectionKeyCode = isMacOs() ? 'Meta' : 'Control',
     zoomActivationKeyCode = isMacOs() ? 'Meta' : 'Control',
@@ -79,6 +83,9 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
     nodesDraggable,
     nodesConnectable,
     nodesFocusable,
+    arrowKeyMode,
+    keymap,
+    keymapActions,
     nodeOrigin = defaultNodeOrigin,
     edgesFocusable,
     edgesReconnectable,
@@ -114,6 +121,7 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
     onEdgeMouseEnter,
     onEdgeMouseMove,
     onEdgeMouseLeave,
+    onEdgeFocus,
     reconnectRadius = 10,
     onNodesChange,
     onEdgesChange,
@@ -129,9 +137,13 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
     elevateNodesOnSelect,
     elevateEdgesOnSelect,
     disableKeyboardA11y = false,
+    ariaLabelConfig,
     autoPanOnConnect,
     autoPanOnNodeDrag,
     autoPanSpeed,
+    snapToNodes,
+    snapToNodesThreshold,
+    nodeCollision,
     connectionRadius,
     isValidConnection,
     onError,
@@ -188,6 +200,7 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
           onNodeMouseMove={onNodeMouseMove}
           onNodeMouseLeave={onNodeMouseLeave}
           onNodeContextMenu={onNodeContextMenu}
+          onNodeFocus={onNodeFocus}
           onNodeDoubleClick={onNodeDoubleClick}
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
@@ -198,6 +211,9 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
           selectionKeyCode={selectionKeyCode}
           selectionOnDrag={selectionOnDrag}
           selectionMode={selectionMode}
+          selectEdgesByPath={selectEdgesByPath}
+          selectionResizable={selectionResizable}
+          selectionResizeNodes={selectionResizeNodes}
           deleteKeyCode={deleteKeyCode}
           multiSelectionKeyCode={multiSelectionKeyCode}
           panActivationKeyCode={panActivationKeyCode}
@@ -234,6 +250,7 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
           onEdgeMouseEnter={onEdgeMouseEnter}
           onEdgeMouseMove={onEdgeMouseMove}
           onEdgeMouseLeave={onEdgeMouseLeave}
+          onEdgeFocus={onEdgeFocus}
           reconnectRadius={reconnectRadius}
           defaultMarkerColor={defaultMarkerColor}
           noDragClassName={noDragClassName}
@@ -258,6 +275,9 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
           nodesDraggable={nodesDraggable}
           nodesConnectable={nodesConnectable}
           nodesFocusable={nodesFocusable}
+          arrowKeyMode={arrowKeyMode}
+          keymap={keymap}
+          keymapActions={keymapActions}
           edgesFocusable={edgesFocusable}
           edgesReconnectable={edgesReconnectable}
           elementsSelectable={elementsSelectable}
@@ -294,6 +314,11 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
           autoPanOnConnect={autoPanOnConnect}
           autoPanOnNodeDrag={autoPanOnNodeDrag}
           autoPanSpeed={autoPanSpeed}
+          snapToNodes={snapToNodes}
+          snapToNodesThreshold={snapToNodesThreshold}
+          nodeCollision={nodeCollision}
+          disableKeyboardA11y={disableKeyboardA11y}
+          ariaLabelConfig={ariaLabelConfig}
           onError={onError}
           connectionRadius={connectionRadius}
           isValidConnection={isValidConnection}
@@ -301,6 +326,7 @@ function ReactFlow<NodeType extends Node = Node, EdgeType extends Edge = Edge>(
           nodeDragThreshold={nodeDragThreshold}
           onBeforeDelete={onBeforeDelete}
           paneClickDistance={paneClickDistance}
+          onlyRenderVisibleElements={onlyRenderVisibleElements}
           debug={debug}
         />
         <SelectionListener<NodeType, EdgeType> onSelectionChange={onSelectionChange} />
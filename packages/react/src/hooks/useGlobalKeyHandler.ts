@@ -1,16 +1,69 @@
-import { useEffect } from 'react';
-import type { KeyCode } from '@xyflow/system';
+import { useEffect, useRef } from 'react';
+import {
+  getClipboardData,
+  getKeymapAction,
+  isInputDOMNode,
+  parseClipboardData,
+  serializeClipboardData,
+  type KeyCode,
+  type KeymapActionHandler,
+  type XYPosition,
+} from '@xyflow/system';
 
-import { useStoreApi } from '../hooks/useStore';
-import { useKeyPress, UseKeyPressOptions } from './useKeyPress';
+import { useStore, useStoreApi } from '../hooks/useStore';
+import { useKeyPress } from './useKeyPress';
 import { useReactFlow } from './useReactFlow';
-import { Edge, Node } from '../types';
+import { getSelectionChanges } from '../utils/changes';
+import { getCutData, writeClipboard, writeClipboardEvent } from '../utils/clipboard';
+import { Edge, Node, ReactFlowState } from '../types';
 
 const selected = (item: Node | Edge) => item.selected;
 
-const deleteKeyOptions: UseKeyPressOptions = { actInsideInputWithModifier: false };
 const win = typeof window !== 'undefined' ? window : undefined;
 
+// the actions of focused nodes and edges are handled by the elements themselves
+const globalKeymapActions = [
+  'delete',
+  'duplicate',
+  'selectAll',
+  'deselect',
+  'zoomIn',
+  'zoomOut',
+  'fitView',
+  'panUp',
+  'panDown',
+  'panLeft',
+  'panRight',
+] as const;
+
+type GlobalKeymapAction = (typeof globalKeymapActions)[number];
+
+// the distance in pixels that the viewport gets panned by the pan actions
+const keyboardPanDistance = 50;
+
+const domNodeSelector = (s: ReactFlowState) => s.domNode;
+
+/*
+ * key and clipboard events are only handled by the flow they belong to: either the event target is inside of the flow
+ * or nothing is focused and the flow was the last one the user interacted with
+ */
+function isFlowEvent(event: Event, domNode: HTMLDivElement | null, isFlowActive: boolean): boolean {
+  const target = event.target as Element | null;
+
+  if (!domNode || !target) {
+    return false;
+  }
+
+  if (domNode.contains(target)) {
+    return true;
+  }
+
+  return isFlowActive && (target === document.body || target === document.documentElement);
+}
+
+// the clipboard shortcuts only apply to the flow if the user is not working with text
+const isTextEvent = (event: ClipboardEvent) => isInputDOMNode(event) || !!window.getSelection()?.toString();
+
 /**
  * Hook for handling global key events.
  *
@@ -24,20 +77,185 @@ export function useGlobalKeyHandler({
   multiSelectionKeyCode: KeyCode | null;
 }): void {
   const store = useStoreApi();
-  const { deleteElements } = useReactFlow();
+  const { deleteElements, paste, duplicate, screenToFlowPosition, zoomIn, zoomOut, fitView } = useReactFlow();
+  const domNode = useStore(domNodeSelector);
+  // the last pointer position inside of the flow, pasted elements are placed there
+  const pointerPosition = useRef<XYPosition | null>(null);
+  const isFlowActive = useRef(false);
 
-  const deleteKeyPressed = useKeyPress(deleteKeyCode, deleteKeyOptions);
   const multiSelectionKeyPressed = useKeyPress(multiSelectionKeyCode, { target: win });
 
   useEffect(() => {
-    if (deleteKeyPressed) {
-      const { edges, nodes } = store.getState();
-      deleteElements({ nodes: nodes.filter(selected), edges: edges.filter(selected) });
-      store.setState({ nodesSelectionActive: false });
+    store.setState({ multiSelectionActive: multiSelectionKeyPressed });
+  }, [multiSelectionKeyPressed]);
+
+  useEffect(() => {
+    const panBy = (x: number, y: number) => store.getState().panBy({ x, y });
+
+    const builtinActions: Record<GlobalKeymapAction, KeymapActionHandler> = {
+      delete: () => {
+        const { edges, nodes } = store.getState();
+        deleteElements({ nodes: nodes.filter(selected), edges: edges.filter(selected) });
+        store.setState({ nodesSelectionActive: false });
+      },
+      duplicate: () => duplicate(),
+      selectAll: () => {
+        const { nodeLookup, edgeLookup, elementsSelectable, triggerNodeChanges, triggerEdgeChanges } = store.getState();
+        const isSelectable = (item: Node | Edge) =>
+          !item.hidden && !!(item.selectable || (elementsSelectable && typeof item.selectable === 'undefined'));
+        const nodeIds = new Set(
+          Array.from(nodeLookup.values())
+            .filter(isSelectable)
+            .map((node) => node.id)
+        );
+        const edgeIds = new Set(
+          Array.from(edgeLookup.values())
+            .filter(isSelectable)
+            .map((edge) => edge.id)
+        );
+
+        triggerNodeChanges(getSelectionChanges(nodeLookup, nodeIds, true));
+        triggerEdgeChanges(getSelectionChanges(edgeLookup, edgeIds));
+        store.setState({ nodesSelectionActive: nodeIds.size > 0 });
+      },
+      deselect: () => {
+        store.getState().resetSelectedElements();
+        store.setState({ nodesSelectionActive: false });
+      },
+      zoomIn: () => zoomIn(),
+      zoomOut: () => zoomOut(),
+      fitView: () => fitView(),
+      // panning up shows what is above the viewport, so the content moves down
+      panUp: () => panBy(0, keyboardPanDistance),
+      panDown: () => panBy(0, -keyboardPanDistance),
+      panLeft: () => panBy(keyboardPanDistance, 0),
+      panRight: () => panBy(-keyboardPanDistance, 0),
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // events that were handled by a focused element, like moving a node with the arrow keys, are ignored
+      if (event.defaultPrevented || isInputDOMNode(event)) {
+        return;
+      }
+
+      const { keymap, keymapActions } = store.getState();
+      // the deleteKeyCode prop is used as long as the keymap doesn't set the delete keys
+      const usesDeleteKeyCode = keymap.delete === undefined;
+      const keymapWithDelete = usesDeleteKeyCode ? { ...keymap, delete: deleteKeyCode } : keymap;
+      const action = getKeymapAction<string>(event, keymapWithDelete, [
+        ...Object.keys(keymapActions),
+        ...globalKeymapActions,
+      ]);
+
+      // the deleteKeyCode works anywhere on the page like it always did, the keymap only applies to this flow
+      if (
+        !action ||
+        (!(usesDeleteKeyCode && action === 'delete') && !isFlowEvent(event, domNode, isFlowActive.current))
+      ) {
+        return;
+      }
+
+      const handler = keymapActions[action] ?? builtinActions[action as GlobalKeymapAction];
+
+      if (handler) {
+        event.preventDefault();
+        handler(event);
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [domNode, deleteKeyCode, zoomIn, zoomOut, fitView]);
+
+  useEffect(() => {
+    if (!domNode) {
+      return;
     }
-  }, [deleteKeyPressed]);
 
+    const onInteraction = (event: Event) => {
+      isFlowActive.current = domNode.contains(event.target as Element);
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      pointerPosition.current = { x: event.clientX, y: event.clientY };
+    };
+
+    const onPointerLeave = () => {
+      pointerPosition.current = null;
+    };
+
+    // the capture phase is used, because elements inside of the flow can stop the propagation of pointer events
+    document.addEventListener('pointerdown', onInteraction, true);
+    document.addEventListener('focusin', onInteraction);
+    domNode.addEventListener('pointermove', onPointerMove);
+    domNode.addEventListener('pointerleave', onPointerLeave);
+
+    return () => {
+      document.removeEventListener('pointerdown', onInteraction, true);
+      document.removeEventListener('focusin', onInteraction);
+      domNode.removeEventListener('pointermove', onPointerMove);
+      domNode.removeEventListener('pointerleave', onPointerLeave);
+    };
+  }, [domNode]);
+
+  /*
+   * we listen to the native clipboard events instead of key presses, so that copying text still works
+   * and we can read the pasted content without asking for the clipboard permission
+   */
   useEffect(() => {
-    store.setState({ multiSelectionActive: multiSelectionKeyPressed });
-  }, [multiSelectionKeyPressed]);
+    const onCopyOrCut = (event: ClipboardEvent) => {
+      if (isTextEvent(event) || !isFlowEvent(event, domNode, isFlowActive.current)) {
+        return;
+      }
+
+      const { nodes, edges, nodeLookup } = store.getState();
+      const data = getClipboardData({ nodes, edges, nodeLookup });
+
+      if (data.nodes.length === 0) {
+        return;
+      }
+
+      event.preventDefault();
+      writeClipboardEvent(event, serializeClipboardData(data));
+
+      if (event.type === 'cut') {
+        // the clipboard event has to be written synchronously, so it gets corrected if not all nodes were deleted
+        deleteElements({ nodes: data.nodes }).then(({ deletedNodes }) => {
+          if (deletedNodes.length < data.nodes.length) {
+            writeClipboard(serializeClipboardData(getCutData(data, deletedNodes)));
+          }
+        });
+      }
+    };
+
+    const onPaste = (event: ClipboardEvent) => {
+      const data =
+        isTextEvent(event) || !isFlowEvent(event, domNode, isFlowActive.current)
+          ? null
+          : parseClipboardData(event.clipboardData?.getData('text/plain') ?? '');
+
+      if (!data) {
+        return;
+      }
+
+      event.preventDefault();
+      paste({
+        data,
+        position: pointerPosition.current ? screenToFlowPosition(pointerPosition.current) : undefined,
+      });
+    };
+
+    document.addEventListener('copy', onCopyOrCut);
+    document.addEventListener('cut', onCopyOrCut);
+    document.addEventListener('paste', onPaste);
+
+    return () => {
+      document.removeEventListener('copy', onCopyOrCut);
+      document.removeEventListener('cut', onCopyOrCut);
+      document.removeEventListener('paste', onPaste);
+    };
+  }, [domNode, screenToFlowPosition]);
 }
@@ -1,5 +1,11 @@
 import { useCallback } from 'react';
-import { calculateNodePosition, snapPosition, type XYPosition } from '@xyflow/system';
+import {
+  calculateNodePosition,
+  resolveNodeCollisions,
+  snapPosition,
+  type NodeMove,
+  type XYPosition,
+} from '@xyflow/system';
 
 import { type Node } from '../types';
 import { useStoreApi } from './useStore';
@@ -17,9 +23,20 @@ export function useMoveSelectedNodes() {
   const store = useStoreApi();
 
   const moveSelectedNodes = useCallback((params: { direction: XYPosition; factor: number }) => {
-    const { nodeExtent, snapToGrid, snapGrid, nodesDraggable, onError, updateNodePositions, nodeLookup, nodeOrigin } =
-      store.getState();
+    const {
+      nodeExtent,
+      snapToGrid,
+      snapGrid,
+      nodesDraggable,
+      nodeCollision,
+      onError,
+      updateNodePositions,
+      nodeLookup,
+      nodeOrigin,
+      nodeSpatialIndex,
+    } = store.getState();
     const nodeUpdates = new Map();
+    const moves = new Map<string, NodeMove>();
     const isSelected = selectedAndDraggable(nodesDraggable);
 
     /*
@@ -46,6 +63,24 @@ export function useMoveSelectedNodes() {
         nextPosition = snapPosition(nextPosition, snapGrid);
       }
 
+      moves.set(node.id, { from: node.internals.positionAbsolute, to: nextPosition });
+    }
+
+    let positions = new Map(Array.from(moves, ([id, { to }]) => [id, to]));
+    let pushedPositions = new Map<string, XYPosition>();
+
+    // the moved nodes stop in front of other nodes or push them out of the way
+    if (nodeCollision) {
+      ({ positions, pushedPositions } = resolveNodeCollisions({
+        moves,
+        nodeLookup,
+        mode: nodeCollision,
+        spatialIndex: nodeSpatialIndex,
+      }));
+    }
+
+    for (const [id, nextPosition] of positions) {
+      const node = nodeLookup.get(id)!;
       const { position, positionAbsolute } = calculateNodePosition({
         nodeId: node.id,
         nextPosition,
@@ -61,6 +96,24 @@ export function useMoveSelectedNodes() {
       nodeUpdates.set(node.id, node);
     }
 
+    // the nodes that got pushed out of the way are kept inside of their extent like the moved nodes
+    for (const [id, pushedPosition] of pushedPositions) {
+      const node = nodeLookup.get(id)!;
+      const { position, positionAbsolute } = calculateNodePosition({
+        nodeId: id,
+        nextPosition: pushedPosition,
+        nodeLookup,
+        nodeExtent,
+        nodeOrigin,
+        onError,
+      });
+
+      node.position = position;
+      node.internals.positionAbsolute = positionAbsolute;
+
+      nodeUpdates.set(node.id, node);
+    }
+
     updateNodePositions(nodeUpdates);
   }, []);
 
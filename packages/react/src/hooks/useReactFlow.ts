@@ -2,19 +2,31 @@ import { useMemo } from 'react';
 import {
   EdgeRemoveChange,
   evaluateAbsolutePosition,
+  getClipboardData,
   getElementsToRemove,
+  getGroupedNodes,
+  getNodeAlignmentChanges,
+  getNodeDistributionChanges,
   getNodesBounds,
   getOverlappingArea,
+  getPastedElements,
+  getUngroupedNodes,
   isRectObject,
   NodeRemoveChange,
   nodeToRect,
+  parseClipboardData,
+  parseFlowDocument,
+  serializeClipboardData,
+  type ClipboardData,
   type Rect,
+  type XYPosition,
 } from '@xyflow/system';
 
 import useViewportHelper from './useViewportHelper';
 import { useStore, useStoreApi } from './useStore';
 import { useBatchContext } from '../components/BatchProvider';
 import { elementToRemoveChange, isEdge, isNode } from '../utils';
+import { getCutData, readClipboard, writeClipboard } from '../utils/clipboard';
 import type { ReactFlowInstance, Node, Edge, InternalNode, ReactFlowState, GeneralHelpers } from '../types';
 
 const selector = (s: ReactFlowState) => !!s.panZoom;
@@ -121,6 +133,91 @@ export function useReactFlow<NodeType extends Node = Node, EdgeType extends Edge
       );
     };
 
+    const deleteElements: GeneralHelpers<NodeType, EdgeType>['deleteElements'] = async ({
+      nodes: nodesToRemove = [],
+      edges: edgesToRemove = [],
+    }) => {
+      const {
+        nodes,
+        edges,
+        onNodesDelete,
+        onEdgesDelete,
+        triggerNodeChanges,
+        triggerEdgeChanges,
+        onDelete,
+        onBeforeDelete,
+      } = store.getState();
+      const { nodes: matchingNodes, edges: matchingEdges } = await getElementsToRemove({
+        nodesToRemove,
+        edgesToRemove,
+        nodes,
+        edges,
+        onBeforeDelete,
+      });
+
+      const hasMatchingEdges = matchingEdges.length > 0;
+      const hasMatchingNodes = matchingNodes.length > 0;
+
+      if (hasMatchingEdges) {
+        const edgeChanges: EdgeRemoveChange[] = matchingEdges.map(elementToRemoveChange);
+
+        onEdgesDelete?.(matchingEdges);
+        triggerEdgeChanges(edgeChanges);
+      }
+
+      if (hasMatchingNodes) {
+        const nodeChanges: NodeRemoveChange[] = matchingNodes.map(elementToRemoveChange);
+
+        onNodesDelete?.(matchingNodes);
+        triggerNodeChanges(nodeChanges);
+      }
+
+      if (hasMatchingNodes || hasMatchingEdges) {
+        onDelete?.({ nodes: matchingNodes, edges: matchingEdges });
+      }
+
+      return { deletedNodes: matchingNodes, deletedEdges: matchingEdges };
+    };
+
+    const getSelectedElements = (): ClipboardData<NodeType, EdgeType> => {
+      const { nodes, edges, nodeLookup } = store.getState();
+
+      return getClipboardData({ nodes, edges, nodeLookup }) as ClipboardData<NodeType, EdgeType>;
+    };
+
+    // the pasted elements replace the current selection
+    const addPastedElements = (
+      data: ClipboardData<NodeType, EdgeType>,
+      position?: XYPosition
+    ): ClipboardData<NodeType, EdgeType> => {
+      if (data.nodes.length === 0) {
+        return { nodes: [], edges: [] };
+      }
+
+      const pasted = getPastedElements({ ...data, position });
+
+      setNodes((nodes) => [
+        ...nodes.map((node) => (node.selected ? { ...node, selected: false } : node)),
+        ...pasted.nodes,
+      ]);
+      setEdges((edges) => [
+        ...edges.map((edge) => (edge.selected ? { ...edge, selected: false } : edge)),
+        ...pasted.edges,
+      ]);
+
+      return pasted;
+    };
+
+    const copy: GeneralHelpers<NodeType, EdgeType>['copy'] = async () => {
+      const data = getSelectedElements();
+
+      if (data.nodes.length > 0) {
+        await writeClipboard(serializeClipboardData(data));
+      }
+
+      return data;
+    };
+
     return {
       getNodes: () => store.getState().nodes.map((n) => ({ ...n })) as NodeType[],
       getNode: (id) => getInternalNode(id)?.internals.userNode as NodeType,
@@ -140,7 +237,7 @@ export function useReactFlow<NodeType extends Node = Node, EdgeType extends Edge
         const newEdges = Array.isArray(payload) ? payload : [payload];
         batchContext.edgeQueue.push((edges) => [...edges, ...newEdges]);
       },
-      toObject: () => {
+      toObject: (options) => {
         const { nodes = [], edges = [], transform } = store.getState();
         const [x, y, zoom] = transform;
         return {
@@ -151,50 +248,26 @@ export function useReactFlow<NodeType extends Node = Node, EdgeType extends Edge
             y,
             zoom,
           },
+          ...(options?.version !== undefined ? { version: options.version } : {}),
         };
       },
-      deleteElements: async ({ nodes: nodesToRemove = [], edges: edgesToRemove = [] }) => {
-        const {
-          nodes,
-          edges,
-          onNodesDelete,
-          onEdgesDelete,
-          triggerNodeChanges,
-          triggerEdgeChanges,
-          onDelete,
-          onBeforeDelete,
-        } = store.getState();
-        const { nodes: matchingNodes, edges: matchingEdges } = await getElementsToRemove({
-          nodesToRemove,
-          edgesToRemove,
-          nodes,
-          edges,
-          onBeforeDelete,
-        });
+      fromObject: async (object, options) => {
+        const { document, errors } = parseFlowDocument<NodeType, EdgeType>(object, options);
 
-        const hasMatchingEdges = matchingEdges.length > 0;
-        const hasMatchingNodes = matchingNodes.length > 0;
-
-        if (hasMatchingEdges) {
-          const edgeChanges: EdgeRemoveChange[] = matchingEdges.map(elementToRemoveChange);
-
-          onEdgesDelete?.(matchingEdges);
-          triggerEdgeChanges(edgeChanges);
+        if (!document) {
+          return errors;
         }
 
-        if (hasMatchingNodes) {
-          const nodeChanges: NodeRemoveChange[] = matchingNodes.map(elementToRemoveChange);
-
-          onNodesDelete?.(matchingNodes);
-          triggerNodeChanges(nodeChanges);
-        }
+        setNodes(document.nodes);
+        setEdges(document.edges);
 
-        if (hasMatchingNodes || hasMatchingEdges) {
-          onDelete?.({ nodes: matchingNodes, edges: matchingEdges });
+        if (document.viewport) {
+          await viewportHelper.setViewport(document.viewport);
         }
 
-        return { deletedNodes: matchingNodes, deletedEdges: matchingEdges };
+        return errors;
       },
+      deleteElements,
       getIntersectingNodes: (nodeOrRect, partially = true, nodes) => {
         const isRect = isRectObject(nodeOrRect);
         const nodeRect = isRect ? nodeOrRect : getNodeRect(nodeOrRect);
@@ -204,8 +277,13 @@ export function useReactFlow<NodeType extends Node = Node, EdgeType extends Edge
           return [];
         }
 
-        return (nodes || store.getState().nodes).filter((n) => {
-          const internalNode = store.getState().nodeLookup.get(n.id);
+        const { nodeLookup, nodeSpatialIndex } = store.getState();
+        // without a list of nodes, the spatial index tells us which nodes could intersect with the rect
+        const candidates =
+          nodes ?? nodeSpatialIndex.search(nodeRect).flatMap((id) => nodeLookup.get(id)?.internals.userNode ?? []);
+
+        return candidates.filter((n) => {
+          const internalNode = nodeLookup.get(n.id);
 
           if (internalNode && !isRect && (n.id === nodeOrRect.id || !internalNode.internals.positionAbsolute)) {
             return false;
@@ -271,6 +349,109 @@ export function useReactFlow<NodeType extends Node = Node, EdgeType extends Edge
             .connectionLookup.get(`${nodeId}${type ? (handleId ? `-${type}-${handleId}` : `-${type}`) : ''}`)
             ?.values() ?? []
         ),
+      undo: () => store.getState().undo(),
+      redo: () => store.getState().redo(),
+      canUndo: () => store.getState().canUndo,
+      canRedo: () => store.getState().canRedo,
+      copy,
+      cut: async () => {
+        const selectedElements = getSelectedElements();
+        const { deletedNodes } = await deleteElements({ nodes: selectedElements.nodes });
+        const data = getCutData(selectedElements, deletedNodes);
+
+        if (data.nodes.length > 0) {
+          await writeClipboard(serializeClipboardData(data));
+        }
+
+        return data;
+      },
+      paste: async ({ position, data } = {}) => {
+        const text = data ? null : await readClipboard();
+        const pasteData = data ?? (text ? parseClipboardData<NodeType, EdgeType>(text) : null);
+
+        return pasteData ? addPastedElements(pasteData, position) : { nodes: [], edges: [] };
+      },
+      duplicate: () => addPastedElements(getSelectedElements()),
+      alignNodes: (ids, alignment) => {
+        const { nodeLookup, nodeOrigin, nodeExtent, triggerNodeChanges } = store.getState();
+        const changes = getNodeAlignmentChanges({ nodeIds: ids, nodeLookup, nodeOrigin, nodeExtent, alignment });
+
+        if (changes.length > 0) {
+          triggerNodeChanges(changes);
+        }
+      },
+      distributeNodes: (ids, distribution) => {
+        const { nodeLookup, nodeOrigin, nodeExtent, triggerNodeChanges } = store.getState();
+        const changes = getNodeDistributionChanges({ nodeIds: ids, nodeLookup, nodeOrigin, nodeExtent, distribution });
+
+        if (changes.length > 0) {
+          triggerNodeChanges(changes);
+        }
+      },
+      groupNodes: (ids, groupNodeTemplate) => {
+        const { nodes, nodeLookup, nodeOrigin } = store.getState();
+        const grouped = getGroupedNodes({ nodes, nodeIds: ids, nodeLookup, groupNode: groupNodeTemplate, nodeOrigin });
+
+        if (!grouped) {
+          return null;
+        }
+
+        setNodes(grouped.nodes as NodeType[]);
+
+        return grouped.groupNode as NodeType;
+      },
+      ungroupNode: async (groupId) => {
+        const { nodes, edges, nodeLookup, nodeOrigin } = store.getState();
+
+        if (!getUngroupedNodes({ nodes, groupId, nodeLookup, nodeOrigin })) {
+          return false;
+        }
+
+        // the edges of the group node would point to a node that doesn't exist anymore
+        const groupEdges = edges.filter((edge) => edge.source === groupId || edge.target === groupId);
+
+        if (groupEdges.length > 0) {
+          const { deletedEdges } = await deleteElements({ edges: groupEdges });
+
+          if (deletedEdges.length < groupEdges.length) {
+            return false;
+          }
+        }
+
+        // the nodes could have changed while we waited for onBeforeDelete
+        const state = store.getState();
+        const ungroupedNodes = getUngroupedNodes({
+          nodes: state.nodes,
+          groupId,
+          nodeLookup: state.nodeLookup,
+          nodeOrigin: state.nodeOrigin,
+        });
+
+        if (!ungroupedNodes) {
+          return false;
+        }
+
+        setNodes(ungroupedNodes as NodeType[]);
+
+        return true;
+      },
+      collapseNode: (id) => {
+        const { collapsedNodeIds, setCollapsedNodeIds } = store.getState();
+
+        if (!collapsedNodeIds.has(id)) {
+          setCollapsedNodeIds(new Set(collapsedNodeIds).add(id));
+        }
+      },
+      expandNode: (id) => {
+        const { collapsedNodeIds, setCollapsedNodeIds } = store.getState();
+
+        if (collapsedNodeIds.has(id)) {
+          const nextCollapsedNodeIds = new Set(collapsedNodeIds);
+          nextCollapsedNodeIds.delete(id);
+          setCollapsedNodeIds(nextCollapsedNodeIds);
+        }
+      },
+      isNodeCollapsed: (id) => store.getState().collapsedNodeIds.has(id),
     };
   }, []);
 
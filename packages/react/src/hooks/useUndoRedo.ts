@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { shallow } from 'zustand/shallow';
+
+import { useStore, useStoreApi } from './useStore';
+import type { ReactFlowState } from '../types';
+
+export type UseUndoRedoOptions = {
+  /** The maximum number of entries that are kept in the history */
+  maxHistorySize?: number;
+  /** If set to false, this hook doesn't record changes. Other hooks that are enabled keep recording. */
+  enabled?: boolean;
+};
+
+const selector = (s: ReactFlowState) => ({
+  canUndo: s.canUndo,
+  canRedo: s.canRedo,
+  undo: s.undo,
+  redo: s.redo,
+  clearHistory: s.clearHistory,
+});
+
+/**
+ * This hook records the node and edge changes of the flow and lets you undo and redo them.
+ * A whole drag or resize gesture is stored as a single history entry. As long as a component
+ * uses this hook, the `undo` and `redo` functions of the React Flow instance work as well.
+ *
+ * @public
+ * @param options.maxHistorySize - The maximum number of entries that are kept in the history
+ * @param options.enabled - If set to false, this hook doesn't record changes
+ * @returns the `undo`, `redo` and `clearHistory` functions and whether there is something to undo or redo
+ *
+ * @example
+ * ```jsx
+ * import { useUndoRedo } from '@xyflow/react';
+ *
+ * export default function UndoRedoButtons() {
+ *  const { undo, redo, canUndo, canRedo } = useUndoRedo();
+ *
+ *  return (
+ *    <div>
+ *      <button onClick={undo} disabled={!canUndo}>undo</button>
+ *      <button onClick={redo} disabled={!canRedo}>redo</button>
+ *    </div>
+ *  );
+ * }
+ * ```
+ *
+ * @remarks Only changes that flow through `onNodesChange`/`onEdgesChange` (or the internal state when
+ * you are using `defaultNodes`/`defaultEdges`) are recorded. Selection changes and measurements are ignored.
+ */
+export function useUndoRedo({ maxHistorySize = 100, enabled = true }: UseUndoRedoOptions = {}) {
+  const store = useStoreApi();
+  const history = useStore(selector, shallow);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    store.setState({ historyEnabled: true, historyUsers: store.getState().historyUsers + 1, maxHistorySize });
+
+    // recording stops when the last hook that records changes unmounts or gets disabled
+    return () => {
+      const historyUsers = Math.max(store.getState().historyUsers - 1, 0);
+      store.setState({ historyEnabled: historyUsers > 0, historyUsers });
+    };
+  }, [enabled, maxHistorySize]);
+
+  return history;
+}
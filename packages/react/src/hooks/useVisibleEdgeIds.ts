@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { shallow } from 'zustand/shallow';
-import { isEdgeVisible } from '@xyflow/system';
+import { getOverlappingArea } from '@xyflow/system';
 
 import { useStore } from './useStore';
 import { type ReactFlowState } from '../types';
@@ -20,30 +20,29 @@ export function useVisibleEdgeIds(onlyRenderVisible: boolean): string[] {
           return s.edges.map((edge) => edge.id);
         }
 
-        const visibleEdgeIds = [];
-
-        if (s.width && s.height) {
-          for (const edge of s.edges) {
-            const sourceNode = s.nodeLookup.get(edge.source);
-            const targetNode = s.nodeLookup.get(edge.target);
-
-            if (
-              sourceNode &&
-              targetNode &&
-              isEdgeVisible({
-                sourceNode,
-                targetNode,
-                width: s.width,
-                height: s.height,
-                transform: s.transform,
-              })
-            ) {
-              visibleEdgeIds.push(edge.id);
-            }
-          }
+        if (!s.width || !s.height) {
+          return [];
         }
 
-        return visibleEdgeIds;
+        // the edge index gets updated by the store whenever the nodes or the edges change
+        const { edgeSpatialIndex } = s;
+
+        const viewRect = {
+          x: -s.transform[0] / s.transform[2],
+          y: -s.transform[1] / s.transform[2],
+          width: s.width / s.transform[2],
+          height: s.height / s.transform[2],
+        };
+
+        return edgeSpatialIndex.search(viewRect).filter((id) => {
+          const edgeRect = { ...edgeSpatialIndex.getRect(id)! };
+
+          // straight horizontal or vertical edges have no area, so we extend them like `isEdgeVisible` does
+          edgeRect.width = Math.max(edgeRect.width, 1);
+          edgeRect.height = Math.max(edgeRect.height, 1);
+
+          return getOverlappingArea(viewRect, edgeRect) > 0;
+        });
       },
       [onlyRenderVisible]
     ),
@@ -6,6 +6,8 @@ export { StepEdge } from './components/Edges/StepEdge';
 export { BezierEdge } from './components/Edges/BezierEdge';
 export { SimpleBezierEdge, getSimpleBezierPath } from './components/Edges/SimpleBezierEdge';
 export { SmoothStepEdge } from './components/Edges/SmoothStepEdge';
+export { OrthogonalEdge } from './components/Edges/OrthogonalEdge';
+export { WaypointEdge } from './components/Edges/WaypointEdge';
 export { BaseEdge } from './components/Edges/BaseEdge';
 export { ReactFlowProvider } from './components/ReactFlowProvider';
 export { Panel, type PanelProps } from './components/Panel';
@@ -28,6 +30,7 @@ export { useNodeConnections } from './hooks/useNodeConnections';
 export { useNodesData } from './hooks/useNodesData';
 export { useConnection } from './hooks/useConnection';
 export { useInternalNode } from './hooks/useInternalNode';
+export { useUndoRedo, type UseUndoRedoOptions } from './hooks/useUndoRedo';
 export { useNodeId } from './contexts/NodeIdContext';
 
 export { applyNodeChanges, applyEdgeChanges } from './utils/changes';
@@ -41,6 +44,9 @@ export * from './types';
 export {
   type Align,
   type SmoothStepPathOptions,
+  type OrthogonalPathOptions,
+  type WaypointPathOptions,
+  type WaypointCurve,
   type BezierPathOptions,
   ConnectionLineType,
   type EdgeMarker,
@@ -67,6 +73,7 @@ export {
   type SelectionRect,
   type OnError,
   type NodeOrigin,
+  type NodeShape,
   type OnSelectionDrag,
   Position,
   type XYPosition,
@@ -89,9 +96,14 @@ export {
   type ResizeParams,
   type ResizeParamsWithDirection,
   type ResizeDragEvent,
+  type RotateParams,
+  type OnRotateStart,
+  type OnRotate,
+  type OnRotateEnd,
   type NodeChange,
   type NodeDimensionChange,
   type NodePositionChange,
+  type NodeRotationChange,
   type NodeSelectionChange,
   type NodeRemoveChange,
   type NodeAddChange,
@@ -101,11 +113,14 @@ export {
   type EdgeRemoveChange,
   type EdgeAddChange,
   type EdgeReplaceChange,
+  type EdgeWaypointsChange,
   type KeyCode,
   type ConnectionState,
   type FinalConnectionState,
   type ConnectionInProgress,
   type NoConnection,
+  type AriaLabelConfig,
+  defaultAriaLabelConfig,
 } from '@xyflow/system';
 
 // we need this workaround to prevent a duplicate identifier error
@@ -120,8 +135,16 @@ export {
   getEdgeCenter,
   type GetSmoothStepPathParams,
   getSmoothStepPath,
+  type GetOrthogonalPathParams,
+  getOrthogonalPath,
+  type GetOrthogonalObstaclesParams,
+  getOrthogonalObstacles,
+  type GetWaypointPathParams,
+  getWaypointPath,
   type GetStraightPathParams,
   getStraightPath,
+  type GetParallelEdgeOffsetParams,
+  getParallelEdgeOffset,
   getViewportForBounds,
   getNodesBounds,
   getIncomers,
@@ -129,4 +152,71 @@ export {
   addEdge,
   reconnectEdge,
   getConnectedEdges,
+  getLayeredLayout,
+  type GetLayeredLayoutParams,
+  type LayeredLayoutDirection,
+  getClipboardData,
+  serializeClipboardData,
+  parseClipboardData,
+  getPastedElements,
+  type ClipboardData,
+  type GetClipboardDataParams,
+  type GetPastedElementsParams,
+  parseFlowDocument,
+  validateFlowDocument,
+  migrateFlowDocument,
+  type FlowDocument,
+  type FlowDocumentError,
+  type FlowDocumentErrorCode,
+  type FlowMigration,
+  type FlowMigrations,
+  type UntypedFlowDocument,
+  type ParseFlowDocumentOptions,
+  type ParseFlowDocumentResult,
+  getDescendants,
+  getAncestors,
+  getTopologicalOrder,
+  findCycle,
+  isCreatingCycle,
+  getConnectedComponents,
+  getShortestPath,
+  type GraphDirection,
+  type GraphPath,
+  snapRectToNodes,
+  type HelperLine,
+  type SnapRectToNodesParams,
+  type SnapRectToNodesResult,
+  getNodeAlignmentChanges,
+  getNodeDistributionChanges,
+  type NodeAlignment,
+  type NodeDistribution,
+  type GetNodeAlignmentChangesParams,
+  type GetNodeDistributionChangesParams,
+  getNodeScaleChanges,
+  type GetNodeScaleChangesParams,
+  getGroupedNodes,
+  getUngroupedNodes,
+  type GetGroupedNodesParams,
+  type GetUngroupedNodesParams,
+  getCollapsedAncestor,
+  getNodesInsidePolygon,
+  isPointInPolygon,
+  isPolylineInPolygon,
+  isRectInPolygon,
+  rotatePoint,
+  getRotatedRect,
+  resolveNodeCollisions,
+  type NodeCollisionMode,
+  type NodeMove,
+  type ResolveNodeCollisionsParams,
+  type ResolveNodeCollisionsResult,
+  getNodeInDirection,
+  type GetNodeInDirectionParams,
+  defaultKeymap,
+  getKeymapAction,
+  isKeyComboPressed,
+  type Keymap,
+  type KeymapAction,
+  type KeymapActionHandler,
+  type KeymapActions,
 } from '@xyflow/system';
@@ -7,8 +7,12 @@ import {
   panBy as panBySystem,
   updateNodeInternals as updateNodeInternalsSystem,
   updateConnectionLookup,
+  updateEdgeSpatialIndex as updateEdgeSpatialIndexSystem,
+  updateParallelEdgeLookup,
   handleExpandParent,
+  handleFitParent,
   NodeChange,
+  EdgeChange,
   EdgeSelectionChange,
   NodeSelectionChange,
   ParentExpandChild,
@@ -19,7 +23,14 @@ import {
 
 import { applyEdgeChanges, applyNodeChanges, createSelectionChange, getSelectionChanges } from '../utils/changes';
 import getInitialState from './initialState';
-import type { ReactFlowState, Node, Edge, UnselectNodesAndEdgesParams, FitViewOptions } from '../types';
+import type { ReactFlowState, Node, Edge, BuiltInEdge, UnselectNodesAndEdgesParams, FitViewOptions } from '../types';
+
+// 正交边绕过其他节点，所以它们附近的节点也属于边的矩形
+const getRouteMargin = (edge: Edge) => {
+  const builtInEdge = edge as BuiltInEdge;
+
+  return builtInEdge.type === 'orthogonal' ? builtInEdge.pathOptions?.margin ?? 20 : undefined;
+};
 
 const createStore = ({
   nodes,
@@ -46,7 +57,8 @@ const createStore = ({
     (set, get) => ({
       ...getInitialState({ nodes, edges, width, height, fitView, nodeOrigin, nodeExtent, defaultNodes, defaultEdges }),
       setNodes: (nodes: Node[]) => {
-        const { nodeLookup, parentLookup, nodeOrigin, elevateNodesOnSelect } = get();
+        const { nodeLookup, parentLookup, nodeOrigin, elevateNodesOnSelect, nodeSpatialIndex, collapsedNodeIds } =
+          get();
         /*
          * setNodes() 仅在响应用户操作时被调用：
          * - 要么是在受控 ReactFlow 设置中更新 `<ReactFlow nodes>` 属性时
@@ -59,15 +71,20 @@ const createStore = ({
           nodeExtent,
           elevateNodesOnSelect,
           checkEquality: true,
+          spatialIndex: nodeSpatialIndex,
+          collapsedNodeIds,
         });
 
-        set({ nodes });
+        get().updateEdgeSpatialIndex();
+        set({ nodes, nodeLookupVersion: get().nodeLookupVersion + 1 });
       },
       setEdges: (edges: Edge[]) => {
-        const { connectionLookup, edgeLookup } = get();
+        const { connectionLookup, edgeLookup, parallelEdgeLookup } = get();
 
         updateConnectionLookup(connectionLookup, edgeLookup, edges);
+        updateParallelEdgeLookup(parallelEdgeLookup, edges);
 
+        get().updateEdgeSpatialIndex({ edges });
         set({ edges });
       },
       setDefaultNodesAndEdges: (nodes?: Node[], edges?: Edge[]) => {
@@ -99,6 +116,7 @@ const createStore = ({
           nodeExtent,
           debug,
           fitViewSync,
+          nodeSpatialIndex,
         } = get();
 
         const { changes, updatedInternals } = updateNodeInternalsSystem(
@@ -107,14 +125,16 @@ const createStore = ({
           parentLookup,
           domNode,
           nodeOrigin,
-          nodeExtent
+          nodeExtent,
+          nodeSpatialIndex
         );
 
         if (!updatedInternals) {
           return;
         }
 
-        updateAbsolutePositions(nodeLookup, parentLookup, { nodeOrigin, nodeExtent });
+        updateAbsolutePositions(nodeLookup, parentLookup, { nodeOrigin, nodeExtent, spatialIndex: nodeSpatialIndex });
+        get().updateEdgeSpatialIndex();
 
         if (params.triggerFitView) {
           // 我们在所有尺寸设置完成后初始化时调用一次 fitView
@@ -132,10 +152,10 @@ const createStore = ({
            * 以便能够显示节点，即使用户没有提供 onNodesChange 处理程序。
            * 节点只有在具有宽度和高度属性时才会被渲染，而这些属性正是从此处理程序中获取的。
            */
-          set({ fitViewDone: nextFitViewDone });
+          set({ fitViewDone: nextFitViewDone, nodeLookupVersion: get().nodeLookupVersion + 1 });
         } else {
           // 我们希望在调用 updateNodeInternals 时始终触发 useStore 调用
-          set({});
+          set({ nodeLookupVersion: get().nodeLookupVersion + 1 });
         }
 
         if (changes?.length > 0) {
@@ -147,13 +167,16 @@ const createStore = ({
       },
       updateNodePositions: (nodeDragItems, dragging = false) => {
         const parentExpandChildren: ParentExpandChild[] = [];
+        const parentFitChildren: ParentExpandChild[] = [];
         const changes = [];
         const { nodeLookup, triggerNodeChanges } = get();
 
         for (const [id, dragItem] of nodeDragItems) {
           // 我们使用 nodeLookup 来确保使用当前的 expandParent 和 parentId 值
           const node = nodeLookup.get(id);
-          const expandParent = !!(node?.expandParent && node?.parentId && dragItem?.position);
+          // 适配子节点的父节点会同时扩展和收缩，所以不需要再扩展它
+          const fitParent = !!(node?.parentId && nodeLookup.get(node.parentId)?.fitChildren && dragItem?.position);
+          const expandParent = !fitParent && !!(node?.expandParent && node?.parentId && dragItem?.position);
 
           const change: NodeChange = {
             id,
@@ -167,8 +190,8 @@ const createStore = ({
             dragging,
           };
 
-          if (expandParent && node.parentId) {
-            parentExpandChildren.push({
+          if ((expandParent || fitParent) && node?.parentId) {
+            (fitParent ? parentFitChildren : parentExpandChildren).push({
               id,
               parentId: node.parentId,
               rect: {
@@ -188,12 +211,20 @@ const createStore = ({
           changes.push(...parentExpandChanges);
         }
 
+        if (parentFitChildren.length > 0) {
+          const { parentLookup, nodeOrigin } = get();
+          changes.push(...handleFitParent(parentFitChildren, nodeLookup, parentLookup, nodeOrigin));
+        }
+
         triggerNodeChanges(changes);
       },
       triggerNodeChanges: (changes) => {
-        const { onNodesChange, setNodes, nodes, hasDefaultNodes, debug } = get();
+        const { onNodesChange, setNodes, nodes, hasDefaultNodes, debug, recordHistory } = get();
 
         if (changes?.length) {
+          // 必须在应用变更之前记录，因为逆向变更是根据当前的 nodeLookup 计算的
+          recordHistory('nodes', changes);
+
           if (hasDefaultNodes) {
             const updatedNodes = applyNodeChanges(changes, nodes);
             setNodes(updatedNodes);
@@ -207,9 +238,11 @@ const createStore = ({
         }
       },
       triggerEdgeChanges: (changes) => {
-        const { onEdgesChange, setEdges, edges, hasDefaultEdges, debug } = get();
+        const { onEdgesChange, setEdges, edges, hasDefaultEdges, debug, recordHistory } = get();
 
         if (changes?.length) {
+          recordHistory('edges', changes);
+
           if (hasDefaultEdges) {
             const updatedEdges = applyEdgeChanges(changes, edges);
             setEdges(updatedEdges);
@@ -287,6 +320,45 @@ const createStore = ({
       setPaneClickDistance: (clickDistance) => {
         get().panZoom?.setClickDistance(clickDistance);
       },
+      setHelperLines: (helperLines) => {
+        // 拖拽时每次移动都会调用，辅助线没有变化时不更新状态以避免重新渲染
+        const { helperLines: currentHelperLines } = get();
+        const isSame =
+          helperLines.length === currentHelperLines.length &&
+          helperLines.every(
+            (line, i) =>
+              line.orientation === currentHelperLines[i].orientation &&
+              line.position === currentHelperLines[i].position &&
+              line.start === currentHelperLines[i].start &&
+              line.end === currentHelperLines[i].end
+          );
+
+        if (!isSame) {
+          set({ helperLines });
+        }
+      },
+      setDropTargetId: (dropTargetId) => {
+        if (get().dropTargetId !== dropTargetId) {
+          set({ dropTargetId });
+        }
+      },
+      setCollapsedNodeIds: (collapsedNodeIds) => {
+        const { nodes, nodeLookup, parentLookup, nodeOrigin, nodeExtent, elevateNodesOnSelect, nodeSpatialIndex } =
+          get();
+
+        // 折叠只会隐藏内部节点，用户的节点保持不变，所以不需要触发节点变更
+        adoptUserNodes(nodes, nodeLookup, parentLookup, {
+          nodeOrigin,
+          nodeExtent,
+          elevateNodesOnSelect,
+          checkEquality: true,
+          spatialIndex: nodeSpatialIndex,
+          collapsedNodeIds,
+        });
+
+        get().updateEdgeSpatialIndex({ collapsedNodeIds });
+        set({ collapsedNodeIds, nodeLookupVersion: get().nodeLookupVersion + 1 });
+      },
       resetSelectedElements: () => {
         const { edges, nodes, triggerNodeChanges, triggerEdgeChanges } = get();
 
@@ -303,7 +375,16 @@ const createStore = ({
         triggerEdgeChanges(edgeChanges);
       },
       setNodeExtent: (nextNodeExtent) => {
-        const { nodes, nodeLookup, parentLookup, nodeOrigin, elevateNodesOnSelect, nodeExtent } = get();
+        const {
+          nodes,
+          nodeLookup,
+          parentLookup,
+          nodeOrigin,
+          elevateNodesOnSelect,
+          nodeExtent,
+          nodeSpatialIndex,
+          collapsedNodeIds,
+        } = get();
 
         if (
           nextNodeExtent[0][0] === nodeExtent[0][0] &&
@@ -319,9 +400,32 @@ const createStore = ({
           nodeExtent: nextNodeExtent,
           elevateNodesOnSelect,
           checkEquality: false,
+          spatialIndex: nodeSpatialIndex,
+          collapsedNodeIds,
         });
 
-        set({ nodeExtent: nextNodeExtent });
+        get().updateEdgeSpatialIndex();
+        set({ nodeExtent: nextNodeExtent, nodeLookupVersion: get().nodeLookupVersion + 1 });
+      },
+      setOnlyRenderVisibleElements: (onlyRenderVisibleElements) => {
+        get().updateEdgeSpatialIndex({ onlyRenderVisibleElements });
+        set({ onlyRenderVisibleElements });
+      },
+      updateEdgeSpatialIndex: (nextState) => {
+        // 索引在原地更新，所以必须在 set 之前用新的状态更新它，否则选择器会读取到旧的索引
+        const { onlyRenderVisibleElements, edgeSpatialIndex, edges, nodeLookup, nodeSpatialIndex, collapsedNodeIds } = {
+          ...get(),
+          ...nextState,
+        };
+
+        // 边的空间索引只用于渲染可见的边，所以只在需要时更新
+        if (onlyRenderVisibleElements) {
+          updateEdgeSpatialIndexSystem(edgeSpatialIndex, edges, nodeLookup, {
+            nodeSpatialIndex,
+            getRouteMargin,
+            collapsedNodeIds,
+          });
+        }
       },
       panBy: (delta): Promise<boolean> => {
         const { transform, width, height, panZoom, translateExtent } = get();
@@ -384,6 +488,63 @@ const createStore = ({
       updateConnection: (connection) => {
         set({ connection });
       },
+      recordHistory: (type, changes) => {
+        const { history, historyEnabled, nodeLookup, nodes, edgeLookup, edges, commitHistory } = get();
+
+        if (!historyEnabled || !changes.length) {
+          return;
+        }
+
+        if (type === 'nodes') {
+          history.recordNodeChanges(changes as NodeChange[], nodeLookup, nodes);
+        } else {
+          history.recordEdgeChanges(changes as EdgeChange[], edgeLookup, edges);
+        }
+
+        /*
+         * 同一个 tick 内的所有变更（例如 deleteElements 先删除边再删除节点）会被合并为一条历史记录。
+         * 拖拽或调整尺寸进行中时 commit 不会生效，直到最后一个 dragging: false / resizing: false 的变更到达。
+         */
+        queueMicrotask(commitHistory);
+      },
+      commitHistory: () => {
+        const { history, maxHistorySize } = get();
+
+        if (history.commit(maxHistorySize)) {
+          set({ canUndo: history.canUndo(), canRedo: history.canRedo() });
+        }
+      },
+      undo: () => {
+        const { history, maxHistorySize, triggerNodeChanges, triggerEdgeChanges } = get();
+
+        // 未提交的变更（例如被中断的拖拽）应该作为单独的一步被撤销
+        history.commit(maxHistorySize, true);
+
+        history.undo(({ nodes, edges }) => {
+          triggerNodeChanges(nodes);
+          triggerEdgeChanges(edges);
+        });
+
+        set({ canUndo: history.canUndo(), canRedo: history.canRedo() });
+      },
+      redo: () => {
+        const { history, maxHistorySize, triggerNodeChanges, triggerEdgeChanges } = get();
+
+        // 新的变更会清空 redo 栈
+        history.commit(maxHistorySize, true);
+
+        history.redo(({ nodes, edges }) => {
+          triggerNodeChanges(nodes);
+          triggerEdgeChanges(edges);
+        });
+
+        set({ canUndo: history.canUndo(), canRedo: history.canRedo() });
+      },
+      clearHistory: () => {
+        get().history.clear();
+
+        set({ canUndo: false, canRedo: false });
+      },
 
       reset: () => set({ ...getInitialState() }),
     }),
@@ -1,18 +1,22 @@
 import {
   infiniteExtent,
+  defaultAriaLabelConfig,
   ConnectionMode,
   adoptUserNodes,
   getViewportForBounds,
   Transform,
   updateConnectionLookup,
+  updateParallelEdgeLookup,
   devWarn,
   getInternalNodesBounds,
   NodeOrigin,
   initialConnection,
   CoordinateExtent,
+  createSpatialIndex,
 } from '@xyflow/system';
 
 import type { Edge, InternalNode, Node, ReactFlowStore } from '../types';
+import { createHistory } from '../utils/history';
 
 const getInitialState = ({
   nodes,
@@ -38,7 +42,9 @@ const getInitialState = ({
   const nodeLookup = new Map<string, InternalNode>();
   const parentLookup = new Map();
   const connectionLookup = new Map();
+  const parallelEdgeLookup = new Map();
   const edgeLookup = new Map();
+  const nodeSpatialIndex = createSpatialIndex();
 
   const storeEdges = defaultEdges ?? edges ?? [];
   const storeNodes = defaultNodes ?? nodes ?? [];
@@ -46,10 +52,12 @@ const getInitialState = ({
   const storeNodeExtent = nodeExtent ?? infiniteExtent;
 
   updateConnectionLookup(connectionLookup, edgeLookup, storeEdges);
+  updateParallelEdgeLookup(parallelEdgeLookup, storeEdges);
   adoptUserNodes(storeNodes, nodeLookup, parentLookup, {
     nodeOrigin: storeNodeOrigin,
     nodeExtent: storeNodeExtent,
     elevateNodesOnSelect: false,
+    spatialIndex: nodeSpatialIndex,
   });
 
   let transform: Transform = [0, 0, 1];
@@ -74,6 +82,11 @@ const getInitialState = ({
     edges: storeEdges,
     edgeLookup,
     connectionLookup,
+    parallelEdgeLookup,
+    nodeSpatialIndex,
+    nodeLookupVersion: 0,
+    edgeSpatialIndex: createSpatialIndex(),
+    onlyRenderVisibleElements: false,
     onNodesChange: null,
     onEdgesChange: null,
     hasDefaultNodes: defaultNodes !== undefined,
@@ -86,6 +99,7 @@ const getInitialState = ({
     nodesSelectionActive: false,
     userSelectionActive: false,
     userSelectionRect: null,
+    userSelectionPoints: null,
     connectionMode: ConnectionMode.Strict,
     domNode: null,
     paneDragging: false,
@@ -95,11 +109,21 @@ const getInitialState = ({
 
     snapGrid: [15, 15],
     snapToGrid: false,
+    snapToNodes: false,
+    snapToNodesThreshold: 5,
+    nodeCollision: null,
+    helperLines: [],
+    dropTargetId: null,
+    collapsedNodeIds: new Set(),
 
     nodesDraggable: true,
     nodesConnectable: true,
     nodesFocusable: true,
     edgesFocusable: true,
+    arrowKeyMode: 'move',
+    keymap: {},
+    keymapActions: {},
+    edgeNavigationNodeId: null,
     edgesReconnectable: true,
     elementsSelectable: true,
     elevateNodesOnSelect: true,
@@ -116,6 +140,8 @@ const getInitialState = ({
     connectOnClick: true,
 
     ariaLiveMessage: '',
+    ariaLabelConfig: defaultAriaLabelConfig,
+    disableKeyboardA11y: false,
     autoPanOnConnect: true,
     autoPanOnNodeDrag: true,
     autoPanSpeed: 15,
@@ -124,6 +150,13 @@ const getInitialState = ({
     isValidConnection: undefined,
     onSelectionChangeHandlers: [],
 
+    history: createHistory(),
+    historyEnabled: false,
+    historyUsers: 0,
+    maxHistorySize: 100,
+    canUndo: false,
+    canRedo: false,
+
     lib: 'react',
     debug: false,
   };
@@ -20,6 +20,10 @@ import type {
   OnError,
   ColorMode,
   SnapGrid,
+  NodeCollisionMode,
+  AriaLabelConfig,
+  Keymap,
+  KeymapActions,
 } from '@xyflow/system';
 
 import type {
@@ -39,11 +43,14 @@ import type {
   OnNodesChange,
   OnEdgesChange,
   NodeMouseHandler,
+  NodeFocusHandler,
   SelectionDragHandler,
   EdgeMouseHandler,
+  EdgeFocusHandler,
   OnNodeDrag,
   OnBeforeDelete,
   IsValidConnection,
+  ArrowKeyMode,
 } from '.';
 
 /**
@@ -114,6 +121,8 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
   onNodeMouseLeave?: NodeMouseHandler<NodeType>;
   /** This event handler is called when a user right clicks on a node */
   onNodeContextMenu?: NodeMouseHandler<NodeType>;
+  /** This event handler is called when a node receives the keyboard focus */
+  onNodeFocus?: NodeFocusHandler<NodeType>;
   /** This event handler is called when a user starts to drag a node */
   onNodeDragStart?: OnNodeDrag<NodeType>;
   /** This event handler is called when a user drags a node */
@@ -132,6 +141,8 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
   onEdgeMouseLeave?: EdgeMouseHandler<EdgeType>;
   /** This event handler is called when a user double clicks on an edge */
   onEdgeDoubleClick?: EdgeMouseHandler<EdgeType>;
+  /** This event handler is called when an edge receives the keyboard focus */
+  onEdgeFocus?: EdgeFocusHandler<EdgeType>;
   onReconnect?: OnReconnect<EdgeType>;
   onReconnectStart?: (event: ReactMouseEvent, edge: EdgeType, handleType: HandleType) => void;
   onReconnectEnd?: (event: MouseEvent | TouchEvent, edge: EdgeType, handleType: HandleType) => void;
@@ -285,6 +296,21 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
    * @default 'Backspace'
    */
   deleteKeyCode?: KeyCode | null;
+  /**
+   * Maps the keyboard actions to key combinations, the actions that aren't set keep their default keys and `null`
+   * disables an action. The `delete` action uses the `deleteKeyCode` as long as it isn't set here. The duplicate,
+   * select all, deselect, zoom, fit view and pan actions aren't bound by default. Shortcuts only apply to the flow that contains the
+   * focused element or that was clicked last. Custom actions are bound by their name and handled by `keymapActions`.
+   * @example
+   * keymap={{ selectAll: 'Control+a', zoomIn: ['+', '='], zoomOut: '-', save: 'Control+s' }}
+   */
+  keymap?: Keymap;
+  /**
+   * The handlers of custom keyboard actions by name. A handler with the name of a built-in action replaces it.
+   * @example
+   * keymapActions={{ save: () => saveFlow() }}
+   */
+  keymapActions?: KeymapActions;
   /**
    * If a key is set, you can pan the viewport while that key is held down even if panOnScroll is set to false.
    *
@@ -296,9 +322,27 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
   selectionOnDrag?: boolean;
   /**
    * When set to "partial", when the user creates a selection box by click and dragging nodes that are only partially in the box are still selected.
+   * "lasso" and "lasso-partial" let the user draw a freeform selection instead of a box.
    * @default 'full'
    */
   selectionMode?: SelectionMode;
+  /**
+   * When set to true, the user selection also selects the edges whose path lies inside of it, or crosses it in the
+   * "partial" and "lasso-partial" modes. Otherwise only the edges that are connected to the selected nodes are selected.
+   * When set to "only", the user selection selects the edges by their path and no nodes.
+   * @default false
+   */
+  selectEdgesByPath?: boolean | 'only';
+  /**
+   * When set to true, the selection box of several nodes gets resize controls that scale the positions of the selected nodes.
+   * @default false
+   */
+  selectionResizable?: boolean;
+  /**
+   * When set to false, resizing the selection box only scales the positions of the selected nodes and not their dimensions.
+   * @default true
+   */
+  selectionResizeNodes?: boolean;
   /**
    * If a key is set, you can pan the viewport while that key is held down even if panOnScroll is set to false.
    *
@@ -326,6 +370,23 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
    * @example [20, 20]
    */
   snapGrid?: SnapGrid;
+  /**
+   * Set this prop to make dragged nodes snap to the edges and centers of nearby nodes.
+   * You can render the `<HelperLines />` component to show the alignment while dragging.
+   * @default false
+   */
+  snapToNodes?: boolean;
+  /**
+   * The distance in pixels at which dragged nodes snap to nearby nodes.
+   * @default 5
+   */
+  snapToNodesThreshold?: number;
+  /**
+   * Prevents dragged nodes and nodes moved with the arrow keys from overlapping their siblings.
+   * With `block` the moved nodes stop in front of other nodes, with `push` the other nodes get pushed out of the way.
+   * @default null
+   */
+  nodeCollision?: NodeCollisionMode | null;
   /**
    * You can enable this optimisation to instruct Svelte Flow to only render nodes and edges that would be visible in the viewport.
    *
@@ -348,6 +409,13 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
    * @default true
    */
   nodesFocusable?: boolean;
+  /**
+   * Controls what the arrow keys do on a focused node. With `move` they move the selected nodes, nodes that
+   * can't be moved pass the focus to the nearest node in the pressed direction. With `navigate` they always
+   * move the focus.
+   * @default 'move'
+   */
+  arrowKeyMode?: ArrowKeyMode;
   /**
    * Defines nodes relative position to its coordinates
    * @example
@@ -517,6 +585,17 @@ export interface ReactFlowProps<NodeType extends Node = Node, EdgeType extends E
    * @default false
    */
   disableKeyboardA11y?: boolean;
+  /**
+   * The texts that are read by screen readers. Pass the texts that should be overwritten, for example to translate
+   * them, the other ones keep their default values. The store only gets updated when one of the values changes, so
+   * functions should be defined outside of the component or memoized.
+   * @example
+   * ariaLabelConfig={{
+   *   'controls.zoomIn.ariaLabel': 'Vergrößern',
+   *   'node.a11yDescription.ariaLiveMessage': ({ direction, x, y }) => `Knoten ${direction} verschoben, x: ${x}, y: ${y}`,
+   * }}
+   */
+  ariaLabelConfig?: Partial<AriaLabelConfig>;
   /**
    * You can enable this prop to automatically pan the viewport while dragging a node.
    * @default true
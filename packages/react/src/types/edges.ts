@@ -1,11 +1,20 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import type { CSSProperties, SVGAttributes, ReactNode, MouseEvent as ReactMouseEvent, ComponentType } from 'react';
+import type {
+  CSSProperties,
+  SVGAttributes,
+  ReactNode,
+  MouseEvent as ReactMouseEvent,
+  FocusEvent as ReactFocusEvent,
+  ComponentType,
+} from 'react';
 import type {
   EdgeBase,
   BezierPathOptions,
   Position,
   SmoothStepPathOptions,
+  OrthogonalPathOptions,
+  WaypointPathOptions,
   DefaultEdgeOptionsBase,
   HandleType,
   Connection,
@@ -15,6 +24,7 @@ import type {
   StepPathOptions,
   OnError,
   FinalConnectionState,
+  Rect,
 } from '@xyflow/system';
 
 import { EdgeTypes, InternalNode, Node } from '.';
@@ -64,9 +74,21 @@ type StepEdge<EdgeData extends Record<string, unknown> = Record<string, unknown>
 
 type StraightEdge<EdgeData extends Record<string, unknown> = Record<string, unknown>> = Edge<EdgeData, 'straight'>;
 
-export type BuiltInEdge = SmoothStepEdge | BezierEdge | StepEdge | StraightEdge;
+type OrthogonalEdge<EdgeData extends Record<string, unknown> = Record<string, unknown>> = Edge<
+  EdgeData,
+  'orthogonal'
+> & {
+  pathOptions?: OrthogonalPathOptions;
+};
+
+type WaypointEdge<EdgeData extends Record<string, unknown> = Record<string, unknown>> = Edge<EdgeData, 'waypoint'> & {
+  pathOptions?: WaypointPathOptions;
+};
+
+export type BuiltInEdge = SmoothStepEdge | BezierEdge | StepEdge | StraightEdge | OrthogonalEdge | WaypointEdge;
 
 export type EdgeMouseHandler<EdgeType extends Edge = Edge> = (event: ReactMouseEvent, edge: EdgeType) => void;
+export type EdgeFocusHandler<EdgeType extends Edge = Edge> = (event: ReactFocusEvent, edge: EdgeType) => void;
 
 export type EdgeWrapperProps<EdgeType extends Edge = Edge> = {
   id: string;
@@ -81,6 +103,7 @@ export type EdgeWrapperProps<EdgeType extends Edge = Edge> = {
   onMouseEnter?: EdgeMouseHandler<EdgeType>;
   onMouseMove?: EdgeMouseHandler<EdgeType>;
   onMouseLeave?: EdgeMouseHandler<EdgeType>;
+  onFocus?: EdgeFocusHandler<EdgeType>;
   reconnectRadius?: number;
   onReconnectStart?: (event: ReactMouseEvent, edge: EdgeType, handleType: HandleType) => void;
   onReconnectEnd?: (
@@ -116,7 +139,7 @@ export type EdgeTextProps = SVGAttributes<SVGElement> &
  */
 export type EdgeProps<EdgeType extends Edge = Edge> = Pick<
   EdgeType,
-  'id' | 'animated' | 'data' | 'style' | 'selected' | 'source' | 'target' | 'selectable' | 'deletable'
+  'id' | 'animated' | 'data' | 'style' | 'selected' | 'source' | 'target' | 'selectable' | 'deletable' | 'waypoints'
 > &
   EdgePosition &
   EdgeLabelOptions & {
@@ -127,6 +150,10 @@ export type EdgeProps<EdgeType extends Edge = Edge> = Pick<
     // @TODO: how can we get better types for pathOptions?
     pathOptions?: any;
     interactionWidth?: number;
+    /** Offset that separates the edge from other edges connecting the same handles */
+    parallelOffset?: number;
+    /** The rect of the node, if the edge starts and ends at the same node */
+    selfLoopRect?: Rect;
   };
 
 /**
@@ -160,6 +187,8 @@ export type EdgeComponentProps = EdgePosition &
     style?: EdgeProps['style'];
     sourceHandleId?: EdgeProps['sourceHandleId'];
     targetHandleId?: EdgeProps['targetHandleId'];
+    parallelOffset?: EdgeProps['parallelOffset'];
+    selfLoopRect?: EdgeProps['selfLoopRect'];
   };
 
 export type EdgeComponentWithPathOptions<PathOptions> = EdgeComponentProps & {
@@ -187,12 +216,36 @@ export type SmoothStepEdgeProps = EdgeComponentWithPathOptions<SmoothStepPathOpt
  */
 export type StepEdgeProps = EdgeComponentWithPathOptions<StepPathOptions>;
 
+/**
+ * OrthogonalEdge component props
+ * @public
+ * @expand
+ */
+export type OrthogonalEdgeProps = EdgeComponentWithPathOptions<OrthogonalPathOptions>;
+
+/**
+ * WaypointEdge component props
+ * @public
+ * @expand
+ */
+export type WaypointEdgeProps = Omit<
+  EdgeComponentWithPathOptions<WaypointPathOptions>,
+  'sourcePosition' | 'targetPosition'
+> & {
+  waypoints?: EdgeProps['waypoints'];
+  /** The waypoint handles are only shown while the edge is selected, selectable and reconnectable */
+  selected?: EdgeProps['selected'];
+  selectable?: EdgeProps['selectable'];
+};
+
 /**
  * StraightEdge component props
  * @public
  * @expand
  */
-export type StraightEdgeProps = Omit<EdgeComponentProps, 'sourcePosition' | 'targetPosition'>;
+export type StraightEdgeProps = Omit<EdgeComponentProps, 'sourcePosition' | 'targetPosition'> &
+  // the handle positions are only used to draw self-loops
+  Partial<Pick<EdgeComponentProps, 'sourcePosition' | 'targetPosition'>>;
 
 /**
  * SimpleBezier component props
@@ -211,3 +211,10 @@ export type OnBeforeDelete<NodeType extends Node = Node, EdgeType extends Edge =
 >;
 
 export type IsValidConnection<EdgeType extends Edge = Edge> = (edge: EdgeType | Connection) => boolean;
+
+/**
+ * With `move` the arrow keys move the selected nodes and only move the focus to the nearest node in the pressed
+ * direction if the focused node can't be moved, with `navigate` they always move the focus.
+ * @public
+ */
+export type ArrowKeyMode = 'move' | 'navigate';
@@ -1,11 +1,25 @@
 /* eslint-disable @typescript-eslint/no-namespace */
-import type { HandleConnection, HandleType, NodeConnection, Rect, Viewport } from '@xyflow/system';
+import type {
+  ClipboardData,
+  FlowDocumentError,
+  HandleConnection,
+  HandleType,
+  NodeAlignment,
+  NodeConnection,
+  NodeDistribution,
+  ParseFlowDocumentOptions,
+  Rect,
+  Viewport,
+  XYPosition,
+} from '@xyflow/system';
 import type { Node, Edge, ViewportHelperFunctions, InternalNode } from '.';
 
 export type ReactFlowJsonObject<NodeType extends Node = Node, EdgeType extends Edge = Edge> = {
   nodes: NodeType[];
   edges: EdgeType[];
   viewport: Viewport;
+  /** The schema version that was passed to `toObject` */
+  version?: number;
 };
 
 export type DeleteElementsOptions = {
@@ -77,9 +91,20 @@ export type GeneralHelpers<NodeType extends Node = Node, EdgeType extends Edge =
   /**
    * Returns the nodes, edges and the viewport as a JSON object.
    *
+   * @param options.version - the schema version of your documents, it gets stored in the object
    * @returns the nodes, edges and the viewport as a JSON object
    */
-  toObject: () => ReactFlowJsonObject<NodeType, EdgeType>;
+  toObject: (options?: { version?: number }) => ReactFlowJsonObject<NodeType, EdgeType>;
+  /**
+   * Loads an object that was created with `toObject`. The object gets migrated to the current version
+   * and validated before its nodes, edges and viewport are applied. Invalid objects are not loaded.
+   *
+   * @param object - the stored object
+   * @param options.version - the current schema version of your documents, if it's not set the object is not migrated
+   * @param options.migrations - the migrations, keyed by the version they produce
+   * @returns a promise that resolves with the errors of the object, it's empty if the object was loaded
+   */
+  fromObject: (object: unknown, options?: ParseFlowDocumentOptions) => Promise<FlowDocumentError[]>;
   /**
    * Deletes nodes and edges.
    *
@@ -217,6 +242,106 @@ export type GeneralHelpers<NodeType extends Node = Node, EdgeType extends Edge =
     nodeId: string;
     handleId?: string | null;
   }) => NodeConnection[];
+  /**
+   * Reverts the last recorded history entry. Changes are only recorded while a component uses the `useUndoRedo` hook.
+   */
+  undo: () => void;
+  /**
+   * Re-applies the last reverted history entry.
+   */
+  redo: () => void;
+  /**
+   * Returns true if there is a history entry that can be reverted.
+   *
+   * @returns a boolean indicating whether `undo` has an effect
+   */
+  canUndo: () => boolean;
+  /**
+   * Returns true if there is a reverted history entry that can be re-applied.
+   *
+   * @returns a boolean indicating whether `redo` has an effect
+   */
+  canRedo: () => boolean;
+  /**
+   * Copies the selected nodes, their child nodes and the edges between them to the clipboard.
+   *
+   * @returns the copied nodes and edges
+   */
+  copy: () => Promise<ClipboardData<NodeType, EdgeType>>;
+  /**
+   * Deletes the selected nodes, their child nodes and the edges between them and copies them to the clipboard.
+   * Nodes that `onBeforeDelete` keeps don't get copied.
+   *
+   * @returns the deleted and copied nodes and edges, they are empty if nothing was deleted
+   */
+  cut: () => Promise<ClipboardData<NodeType, EdgeType>>;
+  /**
+   * Adds the copied elements to the flow. The pasted elements get new ids and are selected.
+   *
+   * @param options.position - the flow position of the top left corner of the pasted elements, by default they are placed next to the copied ones
+   * @param options.data - the elements to paste, by default the content of the clipboard is used
+   * @returns the pasted nodes and edges
+   */
+  paste: (options?: {
+    position?: XYPosition;
+    data?: ClipboardData<NodeType, EdgeType>;
+  }) => Promise<ClipboardData<NodeType, EdgeType>>;
+  /**
+   * Adds a copy of the selected nodes, their child nodes and the edges between them next to the selection.
+   * The clipboard is not used.
+   *
+   * @returns the added nodes and edges
+   */
+  duplicate: () => ClipboardData<NodeType, EdgeType>;
+  /**
+   * Aligns the nodes to the edge or center of their bounding box.
+   *
+   * @param ids - the ids of the nodes that get aligned
+   * @param alignment - the edge or center the nodes get aligned to
+   */
+  alignNodes: (ids: string[], alignment: NodeAlignment) => void;
+  /**
+   * Moves the nodes so that the gaps between them are equal. The outermost nodes keep their position.
+   *
+   * @param ids - the ids of the nodes that get distributed, at least three are needed
+   * @param distribution - 'horizontal' distributes the nodes along the x axis, 'vertical' along the y axis
+   */
+  distributeNodes: (ids: string[], distribution: NodeDistribution) => void;
+  /**
+   * Creates a group node around the nodes and makes it their parent. The nodes keep their absolute positions.
+   *
+   * @param ids - the ids of the nodes that get grouped
+   * @param groupNodeTemplate - the template for the group node, its position and size are calculated
+   * @returns the created group node or null if there is nothing to group
+   */
+  groupNodes: (ids: string[], groupNodeTemplate?: Partial<NodeType>) => NodeType | null;
+  /**
+   * Removes a group node and moves its child nodes to the parent of the group. The child nodes keep their absolute positions.
+   * The edges of the group node get deleted with `deleteElements`, so `onBeforeDelete` can prevent the ungrouping.
+   *
+   * @param groupId - the id of the group node
+   * @returns true if the group node got removed
+   */
+  ungroupNode: (groupId: string) => Promise<boolean>;
+  /**
+   * Collapses a parent node. Its descendants get hidden and their edges are drawn to the collapsed node instead.
+   * The nodes and edges you pass to React Flow are not changed.
+   *
+   * @param id - the id of the parent node
+   */
+  collapseNode: (id: string) => void;
+  /**
+   * Expands a collapsed node, so that its descendants and their edges are shown again.
+   *
+   * @param id - the id of the collapsed node
+   */
+  expandNode: (id: string) => void;
+  /**
+   * Returns true if the node is collapsed.
+   *
+   * @param id - the id of the node
+   */
+  isNodeCollapsed: (id: string) => boolean;
 };
 /**
  * The `ReactFlowInstance` provides a collection of methods to query and manipulate
@@ -1,4 +1,4 @@
-import type { CSSProperties, MouseEvent as ReactMouseEvent } from 'react';
+import type { CSSProperties, FocusEvent as ReactFocusEvent, MouseEvent as ReactMouseEvent } from 'react';
 import type { CoordinateExtent, NodeBase, OnError, NodeProps as NodePropsBase, InternalNodeBase } from '@xyflow/system';
 
 import { NodeTypes } from './general';
@@ -17,6 +17,7 @@ export type Node<
   style?: CSSProperties;
   className?: string;
   resizing?: boolean;
+  rotating?: boolean;
   focusable?: boolean;
 };
 
@@ -30,6 +31,7 @@ export type Node<
 export type InternalNode<NodeType extends Node = Node> = InternalNodeBase<NodeType>;
 
 export type NodeMouseHandler<NodeType extends Node = Node> = (event: ReactMouseEvent, node: NodeType) => void;
+export type NodeFocusHandler<NodeType extends Node = Node> = (event: ReactFocusEvent, node: NodeType) => void;
 export type SelectionDragHandler<NodeType extends Node = Node> = (event: ReactMouseEvent, nodes: NodeType[]) => void;
 export type OnNodeDrag<NodeType extends Node = Node> = (
   event: ReactMouseEvent,
@@ -49,6 +51,7 @@ export type NodeWrapperProps<NodeType extends Node> = {
   onMouseMove?: NodeMouseHandler<NodeType>;
   onMouseLeave?: NodeMouseHandler<NodeType>;
   onContextMenu?: NodeMouseHandler<NodeType>;
+  onFocus?: NodeFocusHandler<NodeType>;
   resizeObserver: ResizeObserver | null;
   noDragClassName: string;
   noPanClassName: string;
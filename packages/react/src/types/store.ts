@@ -24,9 +24,17 @@ import {
   type EdgeLookup,
   type ConnectionLookup,
   type NodeLookup,
+  type ParallelEdgeLookup,
   type NodeChange,
   type EdgeChange,
   type ParentLookup,
+  type SpatialIndex,
+  type AriaLabelConfig,
+  type Keymap,
+  type KeymapActions,
+  type HelperLine,
+  type NodeCollisionMode,
+  type XYPosition,
 } from '@xyflow/system';
 
 import type {
@@ -45,7 +53,9 @@ import type {
   OnBeforeDelete,
   IsValidConnection,
   InternalNode,
+  ArrowKeyMode,
 } from '.';
+import type { History, HistoryElementType } from '../utils/history';
 
 export type ReactFlowStore<NodeType extends Node = Node, EdgeType extends Edge = Edge> = {
   rfId: string;
@@ -58,6 +68,13 @@ export type ReactFlowStore<NodeType extends Node = Node, EdgeType extends Edge =
   edges: EdgeType[];
   edgeLookup: EdgeLookup<EdgeType>;
   connectionLookup: ConnectionLookup;
+  parallelEdgeLookup: ParallelEdgeLookup;
+  nodeSpatialIndex: SpatialIndex;
+  // increases whenever the internal nodes change, values derived from the nodes only need to be updated when it changes
+  nodeLookupVersion: number;
+  edgeSpatialIndex: SpatialIndex;
+  // the edge index is only kept up to date while only the visible elements are rendered
+  onlyRenderVisibleElements: boolean;
   onNodesChange: OnNodesChange<NodeType> | null;
   onEdgesChange: OnEdgesChange<EdgeType> | null;
   hasDefaultNodes: boolean;
@@ -77,6 +94,7 @@ export type ReactFlowStore<NodeType extends Node = Node, EdgeType extends Edge =
   nodesSelectionActive: boolean;
   userSelectionActive: boolean;
   userSelectionRect: SelectionRect | null;
+  userSelectionPoints: XYPosition[] | null;
 
   connection: ConnectionState<InternalNode<NodeType>>;
   connectionMode: ConnectionMode;
@@ -84,11 +102,21 @@ export type ReactFlowStore<NodeType extends Node = Node, EdgeType extends Edge =
 
   snapToGrid: boolean;
   snapGrid: SnapGrid;
+  snapToNodes: boolean;
+  snapToNodesThreshold: number;
+  nodeCollision: NodeCollisionMode | null;
+  helperLines: HelperLine[];
+  dropTargetId: string | null;
+  collapsedNodeIds: Set<string>;
 
   nodesDraggable: boolean;
   nodesConnectable: boolean;
   nodesFocusable: boolean;
   edgesFocusable: boolean;
+  arrowKeyMode: ArrowKeyMode;
+  keymap: Keymap;
+  keymapActions: KeymapActions;
+  edgeNavigationNodeId: string | null;
   edgesReconnectable: boolean;
   elementsSelectable: boolean;
   elevateNodesOnSelect: boolean;
@@ -137,6 +165,8 @@ export type ReactFlowStore<NodeType extends Node = Node, EdgeType extends Edge =
   onSelectionChangeHandlers: OnSelectionChangeFunc<NodeType, EdgeType>[];
 
   ariaLiveMessage: string;
+  ariaLabelConfig: AriaLabelConfig;
+  disableKeyboardA11y: boolean;
   autoPanOnConnect: boolean;
   autoPanOnNodeDrag: boolean;
   autoPanSpeed: number;
@@ -144,6 +174,14 @@ export type ReactFlowStore<NodeType extends Node = Node, EdgeType extends Edge =
 
   isValidConnection?: IsValidConnection<EdgeType>;
 
+  history: History<NodeType, EdgeType>;
+  historyEnabled: boolean;
+  // the number of mounted useUndoRedo hooks that record changes
+  historyUsers: number;
+  maxHistorySize: number;
+  canUndo: boolean;
+  canRedo: boolean;
+
   lib: string;
   debug: boolean;
 };
@@ -171,6 +209,20 @@ export type ReactFlowActions<NodeType extends Node, EdgeType extends Edge> = {
   fitView: (options?: FitViewOptions) => Promise<boolean>;
   fitViewSync: (options?: FitViewOptions) => boolean;
   setPaneClickDistance: (distance: number) => void;
+  setHelperLines: (helperLines: HelperLine[]) => void;
+  setDropTargetId: (id: string | null) => void;
+  setCollapsedNodeIds: (collapsedNodeIds: Set<string>) => void;
+  setOnlyRenderVisibleElements: (onlyRenderVisibleElements: boolean) => void;
+  updateEdgeSpatialIndex: (
+    nextState?: Partial<
+      Pick<ReactFlowStore<NodeType, EdgeType>, 'edges' | 'collapsedNodeIds' | 'onlyRenderVisibleElements'>
+    >
+  ) => void;
+  recordHistory: (type: HistoryElementType, changes: NodeChange<NodeType>[] | EdgeChange<EdgeType>[]) => void;
+  commitHistory: () => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
 };
 
 export type ReactFlowState<NodeType extends Node = Node, EdgeType extends Edge = Edge> = ReactFlowStore<
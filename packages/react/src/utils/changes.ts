@@ -141,6 +141,23 @@ function applyChange(change: any, element: any): any {
 
       break;
     }
+
+    case 'waypoints': {
+      element.waypoints = change.waypoints;
+      break;
+    }
+
+    case 'rotation': {
+      if (typeof change.rotation !== 'undefined') {
+        element.rotation = change.rotation;
+      }
+
+      if (typeof change.rotating === 'boolean') {
+        element.rotating = change.rotating;
+      }
+
+      break;
+    }
   }
 }
 
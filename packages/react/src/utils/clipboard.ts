@@ -0,0 +1,44 @@
+import type { ClipboardData, EdgeBase, NodeBase } from '@xyflow/system';
+
+/*
+ * The last copied elements are kept in memory as well, so that copy and paste still work
+ * inside of the flow when the clipboard api is not available or the permission gets denied.
+ */
+let clipboardFallback: string | null = null;
+
+export async function writeClipboard(text: string) {
+  clipboardFallback = text;
+
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // the in memory clipboard is used instead
+  }
+}
+
+// copy and cut events can write to the clipboard synchronously, without the clipboard api
+export function writeClipboardEvent(event: ClipboardEvent, text: string) {
+  clipboardFallback = text;
+  event.clipboardData?.setData('text/plain', text);
+}
+
+export async function readClipboard(): Promise<string | null> {
+  try {
+    return await navigator.clipboard.readText();
+  } catch {
+    return clipboardFallback;
+  }
+}
+
+// only the elements that were actually deleted end up on the clipboard, onBeforeDelete can prevent the deletion
+export function getCutData<NodeType extends NodeBase, EdgeType extends EdgeBase>(
+  data: ClipboardData<NodeType, EdgeType>,
+  deletedNodes: NodeBase[]
+): ClipboardData<NodeType, EdgeType> {
+  const deletedIds = new Set(deletedNodes.map((node) => node.id));
+
+  return {
+    nodes: data.nodes.filter((node) => deletedIds.has(node.id)),
+    edges: data.edges.filter((edge) => deletedIds.has(edge.source) && deletedIds.has(edge.target)),
+  };
+}
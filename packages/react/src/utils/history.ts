@@ -0,0 +1,339 @@
+import {
+  getNodeDimensions,
+  type EdgeAddChange,
+  type EdgeChange,
+  type EdgeLookup,
+  type NodeAddChange,
+  type NodeChange,
+  type NodeLookup,
+} from '@xyflow/system';
+
+import type { Edge, InternalNode, Node } from '../types';
+
+export type HistoryElementType = 'nodes' | 'edges';
+
+export type HistoryChanges<NodeType extends Node = Node, EdgeType extends Edge = Edge> = {
+  nodes: NodeChange<NodeType>[];
+  edges: EdgeChange<EdgeType>[];
+};
+
+/**
+ * A single undoable step. `undo` contains the inverse changes that restore the state before
+ * the step, `redo` contains the recorded changes without transient flags like `dragging`.
+ */
+export type HistoryEntry<NodeType extends Node = Node, EdgeType extends Edge = Edge> = {
+  undo: HistoryChanges<NodeType, EdgeType>;
+  redo: HistoryChanges<NodeType, EdgeType>;
+};
+
+export type History<NodeType extends Node = Node, EdgeType extends Edge = Edge> = {
+  recordNodeChanges: (
+    changes: NodeChange<NodeType>[],
+    lookup: NodeLookup<InternalNode<NodeType>>,
+    nodes: NodeType[]
+  ) => void;
+  recordEdgeChanges: (changes: EdgeChange<EdgeType>[], lookup: EdgeLookup<EdgeType>, edges: EdgeType[]) => void;
+  commit: (maxSize: number, force?: boolean) => boolean;
+  undo: (apply: (changes: HistoryChanges<NodeType, EdgeType>) => void) => boolean;
+  redo: (apply: (changes: HistoryChanges<NodeType, EdgeType>) => void) => boolean;
+  clear: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+};
+
+type PendingChanges<ChangeType> = {
+  // the first inverse change per element and change type wins, so that we restore the initial state
+  undo: Map<string, ChangeType>;
+  // the last change per element and change type wins, so that we restore the final state
+  redo: Map<string, ChangeType>;
+};
+
+const createPendingChanges = <ChangeType>(): PendingChanges<ChangeType> => ({ undo: new Map(), redo: new Map() });
+
+/*
+ * Dimension changes without a `resizing` flag or `setAttributes` are measurements coming
+ * from the ResizeObserver. They are not caused by the user and can't be undone.
+ */
+function isMeasurement(change: NodeChange | EdgeChange) {
+  return change.type === 'dimensions' && change.resizing === undefined && !change.setAttributes;
+}
+
+function isAddChange<ChangeType extends NodeChange | EdgeChange>(
+  change: ChangeType
+): change is ChangeType & (NodeAddChange | EdgeAddChange) {
+  return change.type === 'add';
+}
+
+function getChangeId(change: NodeChange | EdgeChange): string {
+  return change.type === 'add' ? change.item.id : change.id;
+}
+
+// the index lookup is only created when an element gets removed
+function createGetIndex(items: { id: string }[]) {
+  let indexLookup: Map<string, number> | null = null;
+
+  return (id: string) => {
+    indexLookup ??= new Map(items.map((item, index) => [item.id, index]));
+    return indexLookup.get(id) ?? items.length;
+  };
+}
+
+function toRedoNodeChange<NodeType extends Node>(change: NodeChange<NodeType>): NodeChange<NodeType> {
+  switch (change.type) {
+    case 'position':
+      return { id: change.id, type: 'position', position: change.position };
+    case 'dimensions':
+      return { id: change.id, type: 'dimensions', dimensions: change.dimensions, setAttributes: change.setAttributes };
+    case 'rotation':
+      return { id: change.id, type: 'rotation', rotation: change.rotation };
+    default:
+      return change;
+  }
+}
+
+function toRedoEdgeChange<EdgeType extends Edge>(change: EdgeChange<EdgeType>): EdgeChange<EdgeType> {
+  return change.type === 'waypoints' ? { id: change.id, type: 'waypoints', waypoints: change.waypoints } : change;
+}
+
+/**
+ * Creates the node change that reverts the passed change. The lookup still needs to contain the
+ * state before the change got applied.
+ *
+ * @internal
+ */
+export function getInverseNodeChange<NodeType extends Node>(
+  change: NodeChange<NodeType>,
+  lookup: NodeLookup<InternalNode<NodeType>>,
+  getIndex: (id: string) => number
+): NodeChange<NodeType> | null {
+  if (change.type === 'add') {
+    return { id: change.item.id, type: 'remove' };
+  }
+
+  const internalNode = lookup.get(change.id);
+
+  if (!internalNode) {
+    return null;
+  }
+
+  // the node lookup stores internal nodes but we need to restore the user node
+  const node = internalNode.internals.userNode;
+
+  switch (change.type) {
+    case 'remove':
+      return { type: 'add', item: node, index: getIndex(change.id) };
+    case 'replace':
+      return { id: change.id, type: 'replace', item: node };
+    case 'position':
+      return { id: change.id, type: 'position', position: { ...node.position } };
+    case 'dimensions':
+      return {
+        id: change.id,
+        type: 'dimensions',
+        dimensions: getNodeDimensions(internalNode),
+        setAttributes: change.setAttributes,
+      };
+    case 'rotation':
+      return { id: change.id, type: 'rotation', rotation: node.rotation ?? 0 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Creates the edge change that reverts the passed change. The lookup still needs to contain the
+ * state before the change got applied.
+ *
+ * @internal
+ */
+export function getInverseEdgeChange<EdgeType extends Edge>(
+  change: EdgeChange<EdgeType>,
+  lookup: EdgeLookup<EdgeType>,
+  getIndex: (id: string) => number
+): EdgeChange<EdgeType> | null {
+  if (change.type === 'add') {
+    return { id: change.item.id, type: 'remove' };
+  }
+
+  const edge = lookup.get(change.id);
+
+  if (!edge) {
+    return null;
+  }
+
+  switch (change.type) {
+    case 'remove':
+      return { type: 'add', item: edge, index: getIndex(change.id) };
+    case 'replace':
+      return { id: change.id, type: 'replace', item: edge };
+    case 'waypoints':
+      return { id: change.id, type: 'waypoints', waypoints: edge.waypoints ?? [] };
+    default:
+      return null;
+  }
+}
+
+/*
+ * Inverse changes need to be applied in reverse order. Add changes get applied after all other
+ * changes by `applyChanges` anyway, but they need to be sorted by index to restore the initial order.
+ */
+function getUndoChanges<ChangeType extends NodeChange | EdgeChange>(pending: PendingChanges<ChangeType>): ChangeType[] {
+  const changes = [...pending.undo.values()].reverse();
+  const addChanges = changes.filter(isAddChange).sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+  return [...changes.filter((change) => !isAddChange(change)), ...addChanges];
+}
+
+/**
+ * Creates the undo/redo history of a flow. It records node and edge changes, merges all changes
+ * of a single tick into one entry and keeps an entry open while a node gets dragged, resized or rotated.
+ *
+ * @internal
+ */
+export function createHistory<NodeType extends Node = Node, EdgeType extends Edge = Edge>(): History<
+  NodeType,
+  EdgeType
+> {
+  let past: HistoryEntry<NodeType, EdgeType>[] = [];
+  let future: HistoryEntry<NodeType, EdgeType>[] = [];
+  const pendingNodes = createPendingChanges<NodeChange<NodeType>>();
+  const pendingEdges = createPendingChanges<EdgeChange<EdgeType>>();
+  let replaying = false;
+  // ids of the nodes that are currently dragged, resized or rotated and of the edges whose waypoints are dragged
+  const ongoing = new Set<string>();
+
+  function updateOngoing(key: string, isOngoing: boolean) {
+    if (isOngoing) {
+      ongoing.add(key);
+    } else {
+      ongoing.delete(key);
+    }
+  }
+
+  function hasPendingChanges() {
+    return pendingNodes.redo.size > 0 || pendingEdges.redo.size > 0;
+  }
+
+  function clearPendingChanges() {
+    for (const pending of [pendingNodes, pendingEdges]) {
+      pending.undo.clear();
+      pending.redo.clear();
+    }
+  }
+
+  function record<ChangeType extends NodeChange<NodeType> | EdgeChange<EdgeType>>(
+    pending: PendingChanges<ChangeType>,
+    changes: ChangeType[],
+    getInverseChange: (change: ChangeType) => ChangeType | null,
+    toRedoChange: (change: ChangeType) => ChangeType
+  ) {
+    if (replaying) {
+      return;
+    }
+
+    for (const change of changes) {
+      if (change.type === 'select' || isMeasurement(change)) {
+        continue;
+      }
+
+      if (change.type === 'position' && change.dragging !== undefined) {
+        updateOngoing(`drag-${change.id}`, change.dragging);
+      }
+
+      if (change.type === 'dimensions' && change.resizing !== undefined) {
+        updateOngoing(`resize-${change.id}`, change.resizing);
+      }
+
+      if (change.type === 'waypoints' && change.dragging !== undefined) {
+        updateOngoing(`waypoints-${change.id}`, change.dragging);
+      }
+
+      if (change.type === 'rotation' && change.rotating !== undefined) {
+        updateOngoing(`rotate-${change.id}`, change.rotating);
+      }
+
+      if (
+        (change.type === 'position' && !change.position) ||
+        (change.type === 'dimensions' && !change.dimensions) ||
+        (change.type === 'rotation' && change.rotation === undefined)
+      ) {
+        continue;
+      }
+
+      const key = `${getChangeId(change)}-${change.type}`;
+
+      if (!pending.undo.has(key)) {
+        const inverseChange = getInverseChange(change);
+
+        if (inverseChange) {
+          pending.undo.set(key, inverseChange);
+        }
+      }
+
+      pending.redo.set(key, toRedoChange(change));
+    }
+  }
+
+  function commit(maxSize: number, force = false) {
+    if (!hasPendingChanges() || (ongoing.size > 0 && !force)) {
+      return false;
+    }
+
+    ongoing.clear();
+
+    const entry: HistoryEntry<NodeType, EdgeType> = {
+      undo: { nodes: getUndoChanges(pendingNodes), edges: getUndoChanges(pendingEdges) },
+      redo: { nodes: [...pendingNodes.redo.values()], edges: [...pendingEdges.redo.values()] },
+    };
+
+    clearPendingChanges();
+    past = [...past, entry].slice(-maxSize);
+    future = [];
+
+    return true;
+  }
+
+  function replay(
+    from: HistoryEntry<NodeType, EdgeType>[],
+    to: HistoryEntry<NodeType, EdgeType>[],
+    direction: 'undo' | 'redo',
+    apply: (changes: HistoryChanges<NodeType, EdgeType>) => void
+  ) {
+    const entry = from.pop();
+
+    if (!entry) {
+      return false;
+    }
+
+    // the applied changes flow through the regular change handlers and must not be recorded again
+    replaying = true;
+    apply(entry[direction]);
+    replaying = false;
+
+    to.push(entry);
+
+    return true;
+  }
+
+  return {
+    recordNodeChanges: (changes, lookup, nodes) => {
+      const getIndex = createGetIndex(nodes);
+      record(pendingNodes, changes, (change) => getInverseNodeChange(change, lookup, getIndex), toRedoNodeChange);
+    },
+    recordEdgeChanges: (changes, lookup, edges) => {
+      const getIndex = createGetIndex(edges);
+      record(pendingEdges, changes, (change) => getInverseEdgeChange(change, lookup, getIndex), toRedoEdgeChange);
+    },
+    commit,
+    undo: (apply) => replay(past, future, 'undo', apply),
+    redo: (apply) => replay(future, past, 'redo', apply),
+    clear: () => {
+      past = [];
+      future = [];
+      clearPendingChanges();
+      ongoing.clear();
+    },
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+  };
+}
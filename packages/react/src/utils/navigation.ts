@@ -0,0 +1,65 @@
+import { nodeToRect, type Rect } from '@xyflow/system';
+
+import type { ReactFlowState } from '../types';
+
+/**
+ * Returns the ids of the visible and focusable edges that are connected to a node, in the order of the edges array.
+ */
+export function getFocusableConnectedEdgeIds(state: ReactFlowState, nodeId: string): string[] {
+  return state.edges
+    .filter(
+      (edge) =>
+        (edge.source === nodeId || edge.target === nodeId) &&
+        !edge.hidden &&
+        !!(edge.focusable || (state.edgesFocusable && typeof edge.focusable === 'undefined'))
+    )
+    .map((edge) => edge.id);
+}
+
+function isRectVisible(state: ReactFlowState, rect: Rect): boolean {
+  const [x, y, zoom] = state.transform;
+  const screenX = rect.x * zoom + x;
+  const screenY = rect.y * zoom + y;
+
+  return (
+    screenX >= 0 &&
+    screenY >= 0 &&
+    screenX + rect.width * zoom <= state.width &&
+    screenY + rect.height * zoom <= state.height
+  );
+}
+
+/**
+ * Moves the keyboard focus to a node or an edge. Nodes outside of the viewport get panned into view first,
+ * because the browser can't scroll the transformed viewport and with `onlyRenderVisibleElements` they aren't rendered.
+ */
+export async function focusElement(
+  getState: () => ReactFlowState,
+  type: 'node' | 'edge',
+  id: string
+): Promise<boolean> {
+  const state = getState();
+  const node = type === 'node' ? state.nodeLookup.get(id) : undefined;
+
+  if (node && !isRectVisible(state, nodeToRect(node))) {
+    const [x, y, zoom] = state.transform;
+    const { x: nodeX, y: nodeY, width, height } = nodeToRect(node);
+
+    await state.panBy({
+      x: state.width / 2 - ((nodeX + width / 2) * zoom + x),
+      y: state.height / 2 - ((nodeY + height / 2) * zoom + y),
+    });
+    // waits for the newly visible elements to be rendered
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+  }
+
+  const element = getState().domNode?.querySelector<HTMLElement | SVGElement>(`.react-flow__${type}[data-id="${id}"]`);
+
+  if (!element) {
+    return false;
+  }
+
+  element.focus({ preventScroll: true });
+
+  return true;
+}
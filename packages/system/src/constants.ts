@@ -1,4 +1,4 @@
-import { CoordinateExtent, HandleType } from './types';
+import { AriaLabelConfig, CoordinateExtent, HandleType } from './types';
 
 export const errorMessages = {
   error001: () =>
@@ -36,3 +36,34 @@ export const infiniteExtent: CoordinateExtent = [
 ];
 
 export const elementSelectionKeys = ['Enter', ' ', 'Escape'];
+
+export const defaultAriaLabelConfig: AriaLabelConfig = {
+  'node.a11yDescription.default':
+    'Press enter or space to select a node. You can then use the arrow keys to move the node around. Press delete to remove it and escape to cancel. Use the arrow keys to move the focus to the nearest node in that direction and press e to focus the edges of the node.',
+  'node.a11yDescription.keyboardDisabled':
+    'Press enter or space to select a node. Press delete to remove it and escape to cancel.',
+  'node.a11yDescription.ariaLiveMessage': ({ direction, x, y }) =>
+    `Moved selected node ${direction}. New position, x: ${x}, y: ${y}`,
+  'node.navigation.noNodeInDirection': ({ direction }) => `There is no node ${direction} of this node.`,
+  'node.navigation.noConnectedEdges': () => 'The node has no connected edges.',
+  'edge.a11yDescription.default':
+    'Press enter or space to select an edge. You can then press delete to remove it or escape to cancel. Use the arrow keys to move the focus to the other edges of the node and press n to go back to the node.',
+  'edge.a11yDescription.keyboardDisabled':
+    'Press enter or space to select an edge. You can then press delete to remove it or escape to cancel.',
+  'edge.ariaLabel': ({ source, target }) => `Edge from ${source} to ${target}`,
+  'handle.ariaLabel': ({ nodeId, handleId, type }) =>
+    `${type} handle ${handleId ? `${handleId} ` : ''}of node ${nodeId}`,
+  'handle.a11yDescription.default':
+    'Press enter or space to start a connection. You can then use the arrow keys or tab to choose a handle to connect to. Press enter to connect and escape to cancel.',
+  'handle.connection.ariaLiveMessage': ({ from, to, index, count }) =>
+    `Connecting ${from} to ${to}, ${index + 1} of ${count}.`,
+  'handle.connection.noValidHandles': ({ from }) => `There is no handle that ${from} can be connected to.`,
+  'handle.connection.connected': ({ from, to }) => `Connected ${from} to ${to}.`,
+  'handle.connection.canceled': 'Connection canceled.',
+  'controls.ariaLabel': 'React Flow controls',
+  'controls.zoomIn.ariaLabel': 'zoom in',
+  'controls.zoomOut.ariaLabel': 'zoom out',
+  'controls.fitView.ariaLabel': 'fit view',
+  'controls.interactive.ariaLabel': 'toggle interactivity',
+  'minimap.ariaLabel': 'React Flow mini map',
+};
@@ -18,6 +18,14 @@ export type NodePositionChange = {
   dragging?: boolean;
 };
 
+export type NodeRotationChange = {
+  id: string;
+  type: 'rotation';
+  rotation?: number;
+  /* if this is true, the node is currently being rotated via the NodeRotateControl */
+  rotating?: boolean;
+};
+
 export type NodeSelectionChange = {
   id: string;
   type: 'select';
@@ -44,13 +52,14 @@ export type NodeReplaceChange<NodeType extends NodeBase = NodeBase> = {
 /**
  * The [`onNodesChange`](/api-reference/react-flow#on-nodes-change) callback takes
  *an array of `NodeChange` objects that you should use to update your flow's state.
- *The `NodeChange` type is a union of six different object types that represent that
+ * The `NodeChange` type is a union of seven different object types that represent that
  *various ways an node can change in a flow.
  * @public
  */
 export type NodeChange<NodeType extends NodeBase = NodeBase> =
   | NodeDimensionChange
   | NodePositionChange
+  | NodeRotationChange
   | NodeSelectionChange
   | NodeRemoveChange
   | NodeAddChange<NodeType>
@@ -70,10 +79,18 @@ export type EdgeReplaceChange<EdgeType extends EdgeBase = EdgeBase> = {
   type: 'replace';
 };
 
+export type EdgeWaypointsChange = {
+  id: string;
+  type: 'waypoints';
+  waypoints: XYPosition[];
+  /* if this is true, a waypoint of the edge is currently being dragged */
+  dragging?: boolean;
+};
+
 /**
  * The [`onEdgesChange`](/api-reference/react-flow#on-edges-change) callback takes
  *an array of `EdgeChange` objects that you should use to update your flow's state.
- *The `EdgeChange` type is a union of four different object types that represent that
+ * The `EdgeChange` type is a union of five different object types that represent that
  *various ways an edge can change in a flow.
  *
  * @public
@@ -82,4 +99,5 @@ export type EdgeChange<EdgeType extends EdgeBase = EdgeBase> =
   | EdgeSelectionChange
   | EdgeRemoveChange
   | EdgeAddChange<EdgeType>
-  | EdgeReplaceChange<EdgeType>;
+  | EdgeReplaceChange<EdgeType>
+  | EdgeWaypointsChange;
@@ -1,4 +1,4 @@
-import { Position } from './utils';
+import { Position, XYPosition } from './utils';
 
 export type EdgeBase<
   EdgeData extends Record<string, unknown> = Record<string, unknown>,
@@ -43,6 +43,8 @@ export type EdgeBase<
   ariaLabel?: string;
   /** Padding around the edge where interaction is still possible */
   interactionWidth?: number;
+  /** Points the edge passes through between its source and target, used by the waypoint edge */
+  waypoints?: XYPosition[];
 };
 
 export type SmoothStepPathOptions = {
@@ -54,6 +56,17 @@ export type StepPathOptions = {
   offset?: number;
 };
 
+export type OrthogonalPathOptions = {
+  margin?: number;
+  borderRadius?: number;
+};
+
+export type WaypointCurve = 'polyline' | 'spline';
+
+export type WaypointPathOptions = {
+  curve?: WaypointCurve;
+};
+
 export type BezierPathOptions = {
   curvature?: number;
 };
@@ -73,9 +73,13 @@ export type OnConnectStartParams = {
   handleType: HandleType | null;
 };
 
-export type OnConnectStart = (event: MouseEvent | TouchEvent, params: OnConnectStartParams) => void;
+// connections that are made with the keyboard start and end with keyboard events or end when the handle loses the focus
+export type OnConnectStart = (event: MouseEvent | TouchEvent | KeyboardEvent, params: OnConnectStartParams) => void;
 export type OnConnect = (connection: Connection) => void;
-export type OnConnectEnd = (event: MouseEvent | TouchEvent, connectionState: FinalConnectionState) => void;
+export type OnConnectEnd = (
+  event: MouseEvent | TouchEvent | KeyboardEvent | FocusEvent,
+  connectionState: FinalConnectionState
+) => void;
 
 export type IsValidConnection = (edge: EdgeBase | Connection) => boolean;
 
@@ -181,6 +185,10 @@ export type UseDragEvent = D3DragEvent<HTMLDivElement, null, SubjectPosition>;
 export enum SelectionMode {
   Partial = 'partial',
   Full = 'full',
+  /** Freeform selection, selects the nodes inside of the lasso */
+  Lasso = 'lasso',
+  /** Freeform selection, selects the nodes that overlap the lasso */
+  LassoPartial = 'lasso-partial',
 }
 
 export type SelectionRect = Rect & {
@@ -255,6 +263,11 @@ export type ColorMode = ColorModeClass | 'system';
 
 export type ConnectionLookup = Map<string, Map<string, HandleConnection>>;
 
+/**
+ * Groups the ids of the edges that connect the same handles, in the order of the edges.
+ */
+export type ParallelEdgeLookup = Map<string, string[]>;
+
 export type OnBeforeDeleteBase<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase> = ({
   nodes,
   edges,
@@ -262,3 +275,51 @@ export type OnBeforeDeleteBase<NodeType extends NodeBase = NodeBase, EdgeType ex
   nodes: NodeType[];
   edges: EdgeType[];
 }) => Promise<boolean | { nodes: NodeType[]; edges: EdgeType[] }>;
+
+/**
+ * The texts that are read by screen readers, they can be overwritten to translate them.
+ * @public
+ */
+export type AriaLabelConfig = {
+  /** The description of nodes */
+  'node.a11yDescription.default': string;
+  /** The description of nodes when the keyboard controls are disabled */
+  'node.a11yDescription.keyboardDisabled': string;
+  /** The message after selected nodes were moved with the arrow keys */
+  'node.a11yDescription.ariaLiveMessage': (params: {
+    /** The direction the nodes were moved in: up, down, left or right */
+    direction: string;
+    /** The aria label of the focused node or its id */
+    label: string;
+    x: number;
+    y: number;
+  }) => string;
+  /** The message when there is no node in the direction of the pressed arrow key */
+  'node.navigation.noNodeInDirection': (params: { direction: string; label: string }) => string;
+  /** The message when a node without edges should pass the focus to its edges */
+  'node.navigation.noConnectedEdges': (params: { label: string }) => string;
+  /** The description of edges */
+  'edge.a11yDescription.default': string;
+  /** The description of edges when the keyboard controls are disabled */
+  'edge.a11yDescription.keyboardDisabled': string;
+  /** The label of edges without an `ariaLabel` */
+  'edge.ariaLabel': (params: { source: string; target: string }) => string;
+  /** The label of handles */
+  'handle.ariaLabel': (params: { nodeId: string; handleId: string | null; type: HandleType }) => string;
+  /** The description of handles */
+  'handle.a11yDescription.default': string;
+  /** The message when a handle is chosen as the target of a keyboard connection */
+  'handle.connection.ariaLiveMessage': (params: { from: string; to: string; index: number; count: number }) => string;
+  /** The message when a keyboard connection can't be started */
+  'handle.connection.noValidHandles': (params: { from: string }) => string;
+  /** The message when a keyboard connection was created */
+  'handle.connection.connected': (params: { from: string; to: string }) => string;
+  /** The message when a keyboard connection was canceled */
+  'handle.connection.canceled': string;
+  'controls.ariaLabel': string;
+  'controls.zoomIn.ariaLabel': string;
+  'controls.zoomOut.ariaLabel': string;
+  'controls.fitView.ariaLabel': string;
+  'controls.interactive.ariaLabel': string;
+  'minimap.ariaLabel': string;
+};
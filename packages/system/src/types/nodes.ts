@@ -69,8 +69,36 @@ export type NodeBase<
     width?: number;
     height?: number;
   };
+  /**
+   * Edges without a handle for this node connect to the outline of the node instead of its first handle.
+   * `true` uses the bounding rectangle of the node
+   * @example true, 'rectangle', 'circle' or 'diamond'
+   */
+  floating?: boolean | NodeShape;
+  /**
+   * Dragged nodes that get dropped onto this node become its children.
+   * Children that get dropped outside of it are detached from it.
+   */
+  dropContainer?: boolean;
+  /**
+   * The node fits its child nodes: it grows and shrinks when they get moved or resized.
+   * The padding is the distance between its border and the child nodes (default: 20)
+   * @example true or { padding: 10 }
+   */
+  fitChildren?: boolean | { padding?: number };
+  /**
+   * Rotation of the node in degrees, clockwise around its center
+   * @example 45
+   */
+  rotation?: number;
 };
 
+/**
+ * The shape that is used to calculate where a floating edge meets the node.
+ * 'circle' is an ellipse and 'diamond' a rhombus that fill the bounding rectangle of the node.
+ */
+export type NodeShape = 'rectangle' | 'circle' | 'diamond';
+
 export type InternalNodeBase<NodeType extends NodeBase = NodeBase> = NodeType & {
   measured: {
     width?: number;
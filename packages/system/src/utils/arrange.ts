@@ -0,0 +1,267 @@
+import type {
+  CoordinateExtent,
+  InternalNodeBase,
+  NodeDimensionChange,
+  NodeLookup,
+  NodeOrigin,
+  NodePositionChange,
+  Rect,
+  XYPosition,
+} from '../types';
+import { getNodeDimensions, nodeToRect } from './general';
+import { calculateNodePosition } from './graph';
+
+export type NodeAlignment = 'left' | 'right' | 'top' | 'bottom' | 'center-x' | 'center-y';
+
+export type NodeDistribution = 'horizontal' | 'vertical';
+
+type ArrangeNodesParams = {
+  /** The ids of the nodes that get arranged */
+  nodeIds: string[];
+  nodeLookup: NodeLookup;
+  nodeOrigin?: NodeOrigin;
+  nodeExtent?: CoordinateExtent;
+};
+
+export type GetNodeAlignmentChangesParams = ArrangeNodesParams & {
+  alignment: NodeAlignment;
+};
+
+export type GetNodeDistributionChangesParams = ArrangeNodesParams & {
+  distribution: NodeDistribution;
+};
+
+export type GetNodeScaleChangesParams = {
+  /** The ids of the nodes that get scaled */
+  nodeIds: string[];
+  /** The nodes before they got scaled */
+  nodeLookup: NodeLookup;
+  /** The bounds of the nodes before they got scaled */
+  from: Rect;
+  /** The bounds the nodes get scaled to */
+  to: Rect;
+  /** If false, only the positions of the nodes are scaled */
+  resizeNodes?: boolean;
+  nodeOrigin?: NodeOrigin;
+};
+
+// the rect is the bounding box of the rotated node, that's what the user sees and expects to be arranged
+type ArrangedNode = {
+  node: InternalNodeBase;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+function getArrangedNodes(nodeIds: string[], nodeLookup: NodeLookup): ArrangedNode[] {
+  const ids = new Set(nodeIds);
+  const arrangedNodes: ArrangedNode[] = [];
+
+  for (const id of ids) {
+    const node = nodeLookup.get(id);
+
+    if (!node || !node.measured.width || !node.measured.height) {
+      continue;
+    }
+
+    // child nodes move with their parent, so they are skipped if the parent gets arranged as well
+    let parentId = node.parentId;
+    while (parentId && !ids.has(parentId)) {
+      parentId = nodeLookup.get(parentId)?.parentId;
+    }
+
+    if (!parentId) {
+      arrangedNodes.push({ node, ...nodeToRect(node) });
+    }
+  }
+
+  return arrangedNodes;
+}
+
+function getPositionChanges(
+  nextPositions: Map<ArrangedNode, XYPosition>,
+  { nodeLookup, nodeOrigin, nodeExtent }: Omit<ArrangeNodesParams, 'nodeIds'>
+): NodePositionChange[] {
+  const changes: NodePositionChange[] = [];
+
+  for (const [{ node, x, y }, nextPosition] of nextPositions) {
+    if (nextPosition.x === x && nextPosition.y === y) {
+      continue;
+    }
+
+    // converts the top left corner of the bounding box to the position of the node, relative to its parent and origin
+    const { positionAbsolute } = node.internals;
+    const { position } = calculateNodePosition({
+      nodeId: node.id,
+      nextPosition: { x: positionAbsolute.x + nextPosition.x - x, y: positionAbsolute.y + nextPosition.y - y },
+      nodeLookup,
+      nodeOrigin,
+      nodeExtent,
+    });
+
+    changes.push({ id: node.id, type: 'position', position });
+  }
+
+  return changes;
+}
+
+/**
+ * Aligns the nodes to the edge or center of their bounding box, like the align tools of a drawing app.
+ * Child nodes are skipped if their parent gets aligned as well.
+ * @public
+ * @param params.nodeIds - The ids of the nodes that get aligned
+ * @param params.nodeLookup - Used for the bounding boxes of the nodes, rotated nodes take up their rotated bounds
+ * @param params.alignment - The edge or center the nodes get aligned to
+ * @param params.nodeOrigin - The node origin of the flow
+ * @param params.nodeExtent - The node extent of the flow
+ * @returns Position changes that can be applied with `applyNodeChanges`
+ */
+export function getNodeAlignmentChanges({
+  alignment,
+  nodeIds,
+  ...params
+}: GetNodeAlignmentChangesParams): NodePositionChange[] {
+  const nodes = getArrangedNodes(nodeIds, params.nodeLookup);
+
+  if (nodes.length < 2) {
+    return [];
+  }
+
+  const left = Math.min(...nodes.map(({ x }) => x));
+  const right = Math.max(...nodes.map(({ x, width }) => x + width));
+  const top = Math.min(...nodes.map(({ y }) => y));
+  const bottom = Math.max(...nodes.map(({ y, height }) => y + height));
+
+  const getNextPosition = ({ x, y, width, height }: ArrangedNode): XYPosition => {
+    switch (alignment) {
+      case 'left':
+        return { x: left, y };
+      case 'right':
+        return { x: right - width, y };
+      case 'center-x':
+        return { x: (left + right - width) / 2, y };
+      case 'top':
+        return { x, y: top };
+      case 'bottom':
+        return { x, y: bottom - height };
+      case 'center-y':
+        return { x, y: (top + bottom - height) / 2 };
+    }
+  };
+
+  return getPositionChanges(new Map(nodes.map((node) => [node, getNextPosition(node)])), params);
+}
+
+/**
+ * Moves the nodes so that the gaps between them are equal. The first and the last node keep their position.
+ * Child nodes are skipped if their parent gets distributed as well.
+ * @public
+ * @param params.nodeIds - The ids of the nodes that get distributed, at least three are needed
+ * @param params.nodeLookup - Used for the bounding boxes of the nodes, rotated nodes take up their rotated bounds
+ * @param params.distribution - 'horizontal' distributes the nodes along the x axis, 'vertical' along the y axis
+ * @param params.nodeOrigin - The node origin of the flow
+ * @param params.nodeExtent - The node extent of the flow
+ * @returns Position changes that can be applied with `applyNodeChanges`
+ */
+export function getNodeDistributionChanges({
+  distribution,
+  nodeIds,
+  ...params
+}: GetNodeDistributionChangesParams): NodePositionChange[] {
+  const isHorizontal = distribution === 'horizontal';
+  const getStart = (node: ArrangedNode) => (isHorizontal ? node.x : node.y);
+  const getSize = (node: ArrangedNode) => (isHorizontal ? node.width : node.height);
+  const nodes = getArrangedNodes(nodeIds, params.nodeLookup).sort(
+    (a, b) => getStart(a) + getSize(a) / 2 - (getStart(b) + getSize(b) / 2)
+  );
+
+  if (nodes.length < 3) {
+    return [];
+  }
+
+  const first = nodes[0];
+  const last = nodes[nodes.length - 1];
+  const totalSize = nodes.reduce((sum, node) => sum + getSize(node), 0);
+  const gap = (getStart(last) + getSize(last) - getStart(first) - totalSize) / (nodes.length - 1);
+
+  const nextPositions = new Map<ArrangedNode, XYPosition>();
+  let start = getStart(first) + getSize(first) + gap;
+
+  for (const node of nodes.slice(1, -1)) {
+    nextPositions.set(node, isHorizontal ? { x: start, y: node.y } : { x: node.x, y: start });
+    start += getSize(node) + gap;
+  }
+
+  return getPositionChanges(nextPositions, params);
+}
+
+/**
+ * Scales the nodes from one bounding box to another, for example when the user resizes the selection of several nodes.
+ * The centers of the nodes are scaled, so nodes that keep their size stay inside of the bounds.
+ * @public
+ * @param params.nodeIds - The ids of the nodes that get scaled
+ * @param params.nodeLookup - The node lookup from before the nodes got scaled
+ * @param params.from - The bounds of the nodes before they got scaled
+ * @param params.to - The bounds the nodes get scaled to
+ * @param params.resizeNodes - If false, only the positions of the nodes are scaled (default: true)
+ * @param params.nodeOrigin - The node origin of the flow
+ * @returns Position and dimension changes that can be applied with `applyNodeChanges`, the nodes are marked as `resizing`
+ */
+export function getNodeScaleChanges({
+  nodeIds,
+  nodeLookup,
+  from,
+  to,
+  resizeNodes = true,
+  nodeOrigin = [0, 0],
+}: GetNodeScaleChangesParams): (NodePositionChange | NodeDimensionChange)[] {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const ids = new Set(nodeIds);
+  const scaledRects = new Map<string, Rect>();
+  const changes: (NodePositionChange | NodeDimensionChange)[] = [];
+
+  // parent nodes come before their children, so the scaled rect of a parent is known when its children get scaled
+  for (const [id, node] of nodeLookup) {
+    if (!ids.has(id)) {
+      continue;
+    }
+
+    // rotated nodes are scaled around their center, so we use the unrotated rect
+    const rect = { ...node.internals.positionAbsolute, ...getNodeDimensions(node) };
+    const width = resizeNodes ? rect.width * scaleX : rect.width;
+    const height = resizeNodes ? rect.height * scaleY : rect.height;
+    const scaledRect = {
+      x: to.x + (rect.x + rect.width / 2 - from.x) * scaleX - width / 2,
+      y: to.y + (rect.y + rect.height / 2 - from.y) * scaleY - height / 2,
+      width,
+      height,
+    };
+    const parentPosition = node.parentId
+      ? scaledRects.get(node.parentId) ?? nodeLookup.get(node.parentId)?.internals.positionAbsolute
+      : undefined;
+    const origin = node.origin ?? nodeOrigin;
+
+    scaledRects.set(id, scaledRect);
+
+    changes.push({
+      id,
+      type: 'position',
+      position: {
+        x: scaledRect.x - (parentPosition?.x ?? 0) + width * origin[0],
+        y: scaledRect.y - (parentPosition?.y ?? 0) + height * origin[1],
+      },
+    });
+
+    // nodes that keep their size are marked as resizing as well, so that the whole gesture is one history step
+    changes.push({
+      id,
+      type: 'dimensions',
+      resizing: true,
+      ...(resizeNodes ? { setAttributes: true, dimensions: { width, height } } : {}),
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,194 @@
+import type { EdgeBase, InternalNodeBase, NodeBase, NodeLookup, XYPosition } from '../types';
+
+export type ClipboardData<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase> = {
+  nodes: NodeType[];
+  edges: EdgeType[];
+};
+
+export type GetClipboardDataParams<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase> = {
+  nodes: NodeType[];
+  edges: EdgeType[];
+  /** Used to read the absolute positions of nodes whose parent doesn't get copied */
+  nodeLookup: NodeLookup<InternalNodeBase<NodeType>>;
+  /** The nodes that get copied, defaults to the selected nodes */
+  nodesToCopy?: NodeType[];
+};
+
+export type GetPastedElementsParams<
+  NodeType extends NodeBase = NodeBase,
+  EdgeType extends EdgeBase = EdgeBase
+> = ClipboardData<NodeType, EdgeType> & {
+  /** The position of the top left corner of the pasted elements */
+  position?: XYPosition;
+  /** Moves the pasted elements by this distance, if no position is passed */
+  offset?: XYPosition;
+  /** Returns the id for a pasted node or edge */
+  getId?: (id: string, type: 'node' | 'edge') => string;
+};
+
+const clipboardType = 'xyflow-clipboard';
+
+/**
+ * Collects the nodes and edges that get copied: the selected nodes, all of their child nodes
+ * and all edges between them. Nodes whose parent doesn't get copied become top level nodes
+ * with an absolute position.
+ * @public
+ * @param params.nodes - All nodes of the flow
+ * @param params.edges - All edges of the flow
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.nodesToCopy - The nodes that get copied (default: selected nodes)
+ * @returns The nodes and edges you can pass to `serializeClipboardData` or `getPastedElements`
+ */
+export function getClipboardData<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase>({
+  nodes,
+  edges,
+  nodeLookup,
+  nodesToCopy = nodes.filter((node) => node.selected),
+}: GetClipboardDataParams<NodeType, EdgeType>): ClipboardData<NodeType, EdgeType> {
+  const copiedIds = new Set(nodesToCopy.map((node) => node.id));
+  const childIds = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    if (node.parentId) {
+      const siblings = childIds.get(node.parentId);
+
+      if (siblings) {
+        siblings.push(node.id);
+      } else {
+        childIds.set(node.parentId, [node.id]);
+      }
+    }
+  }
+
+  // sub flows are always copied together with their parent
+  const queue = [...copiedIds];
+  for (let i = 0; i < queue.length; i++) {
+    for (const childId of childIds.get(queue[i]) ?? []) {
+      if (!copiedIds.has(childId)) {
+        copiedIds.add(childId);
+        queue.push(childId);
+      }
+    }
+  }
+
+  const copiedNodes = nodes
+    .filter((node) => copiedIds.has(node.id))
+    .map((node) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { selected, dragging, ...copiedNode } = node;
+
+      if (!node.parentId || copiedIds.has(node.parentId)) {
+        return copiedNode as NodeType;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { parentId, extent, ...topLevelNode } = copiedNode;
+      const parentPosition = nodeLookup.get(node.parentId)?.internals.positionAbsolute ?? { x: 0, y: 0 };
+
+      return {
+        ...topLevelNode,
+        ...(extent && extent !== 'parent' ? { extent } : {}),
+        position: { x: parentPosition.x + node.position.x, y: parentPosition.y + node.position.y },
+      } as NodeType;
+    });
+
+  const copiedEdges = edges
+    .filter((edge) => copiedIds.has(edge.source) && copiedIds.has(edge.target))
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    .map(({ selected, ...edge }) => edge as EdgeType);
+
+  return { nodes: copiedNodes, edges: copiedEdges };
+}
+
+/**
+ * Turns copied nodes and edges into a string that can be written to the clipboard.
+ * @public
+ */
+export function serializeClipboardData<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase>({
+  nodes,
+  edges,
+}: ClipboardData<NodeType, EdgeType>): string {
+  return JSON.stringify({ type: clipboardType, nodes, edges });
+}
+
+/**
+ * Reads nodes and edges from a clipboard string.
+ * @public
+ * @returns The nodes and edges or null if the string wasn't created by `serializeClipboardData`
+ */
+export function parseClipboardData<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase>(
+  text: string
+): ClipboardData<NodeType, EdgeType> | null {
+  try {
+    const data = JSON.parse(text);
+
+    if (data?.type !== clipboardType || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+      return null;
+    }
+
+    return { nodes: data.nodes, edges: data.edges };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates the nodes and edges that get added to the flow when copied elements are pasted.
+ * All elements get new ids, `parentId`, `source` and `target` point to the new ids, edge waypoints
+ * are moved together with the nodes and the pasted elements are selected.
+ * @public
+ * @param params.nodes - The copied nodes
+ * @param params.edges - The copied edges
+ * @param params.position - The position of the top left corner of the pasted elements
+ * @param params.offset - Moves the pasted elements by this distance, if no position is passed (default: { x: 20, y: 20 })
+ * @param params.getId - Returns the id for a pasted node or edge (default: the old id with a random suffix)
+ * @returns The nodes and edges you can add to the flow
+ */
+export function getPastedElements<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase>({
+  nodes,
+  edges,
+  position,
+  offset = { x: 20, y: 20 },
+  getId,
+}: GetPastedElementsParams<NodeType, EdgeType>): ClipboardData<NodeType, EdgeType> {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const createId = getId ?? ((id: string) => `${id}-${suffix}`);
+  const nodeIds = new Map(nodes.map((node) => [node.id, createId(node.id, 'node')]));
+
+  // child positions are relative to their parent, so we only move the top level nodes
+  const topLevelNodes = nodes.filter((node) => !node.parentId || !nodeIds.has(node.parentId));
+  const delta = position
+    ? {
+        x: position.x - Math.min(...topLevelNodes.map((node) => node.position.x)),
+        y: position.y - Math.min(...topLevelNodes.map((node) => node.position.y)),
+      }
+    : offset;
+
+  const pastedNodes = nodes.map((node) => {
+    const isTopLevel = !node.parentId || !nodeIds.has(node.parentId);
+
+    return {
+      ...node,
+      id: nodeIds.get(node.id)!,
+      ...(node.parentId ? { parentId: nodeIds.get(node.parentId) ?? node.parentId } : {}),
+      position: isTopLevel ? { x: node.position.x + delta.x, y: node.position.y + delta.y } : node.position,
+      selected: true,
+    };
+  });
+
+  const pastedEdges = edges
+    .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map((edge) => ({
+      ...edge,
+      id: createId(edge.id, 'edge'),
+      source: nodeIds.get(edge.source)!,
+      target: nodeIds.get(edge.target)!,
+      // waypoints are absolute positions, so they move together with the nodes
+      ...(edge.waypoints
+        ? { waypoints: edge.waypoints.map((waypoint) => ({ x: waypoint.x + delta.x, y: waypoint.y + delta.y })) }
+        : {}),
+      selected: true,
+    }));
+
+  return { nodes: pastedNodes, edges: pastedEdges };
+}
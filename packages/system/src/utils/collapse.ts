@@ -0,0 +1,31 @@
+import type { InternalNodeBase, NodeLookup } from '../types';
+
+/**
+ * Returns the outermost collapsed ancestor of a node. Edges of nodes that are hidden inside a collapsed
+ * sub flow are drawn to this node instead.
+ * @public
+ * @param nodeId - The id of the node
+ * @param nodeLookup - The node lookup of the flow
+ * @param collapsedNodeIds - The ids of the collapsed nodes
+ * @returns The collapsed ancestor or undefined if none of the ancestors is collapsed
+ */
+export function getCollapsedAncestor<NodeType extends InternalNodeBase>(
+  nodeId: string,
+  nodeLookup: NodeLookup<NodeType>,
+  collapsedNodeIds: ReadonlySet<string>
+): NodeType | undefined {
+  let collapsedAncestor: NodeType | undefined;
+  let parentId = nodeLookup.get(nodeId)?.parentId;
+
+  while (parentId) {
+    const parentNode = nodeLookup.get(parentId);
+
+    if (parentNode && collapsedNodeIds.has(parentId)) {
+      collapsedAncestor = parentNode;
+    }
+
+    parentId = parentNode?.parentId;
+  }
+
+  return collapsedAncestor;
+}
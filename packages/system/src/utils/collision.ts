@@ -0,0 +1,271 @@
+import type { InternalNodeBase, NodeLookup, Rect, XYPosition } from '../types';
+import { getBoundsOfRects, getNodeDimensions, getOverlappingArea, nodeToRect } from './general';
+import { isDraggedNode } from './helper-lines';
+import type { SpatialIndex } from './spatial-index';
+
+/**
+ * `block` stops moved nodes in front of other nodes, `push` moves the other nodes out of the way
+ * @public
+ */
+export type NodeCollisionMode = 'block' | 'push';
+
+export type NodeMove = {
+  /** The current absolute position of the node */
+  from: XYPosition;
+  /** The absolute position the node gets moved to */
+  to: XYPosition;
+};
+
+export type ResolveNodeCollisionsParams = {
+  /** The moved nodes by id */
+  moves: Map<string, NodeMove>;
+  nodeLookup: NodeLookup;
+  mode: NodeCollisionMode;
+  /** Only the nodes near the moved nodes are checked if the spatial index of the nodes is passed */
+  spatialIndex?: SpatialIndex;
+};
+
+export type ResolveNodeCollisionsResult = {
+  /** The absolute positions of the moved nodes, in `block` mode they stop in front of other nodes */
+  positions: Map<string, XYPosition>;
+  /** The absolute positions of the nodes that got pushed out of the way */
+  pushedPositions: Map<string, XYPosition>;
+};
+
+// prevents endless pushing back and forth when there is no space left
+const MAX_PUSHES_PER_NODE = 10;
+
+const overlaps = (a: Rect, b: Rect) => getOverlappingArea(a, b) > 0;
+
+function moveRect(rect: Rect, delta: XYPosition): Rect {
+  return { ...rect, x: rect.x + delta.x, y: rect.y + delta.y };
+}
+
+// returns the siblings of the moved nodes that can collide with the passed rect
+type GetObstacles = (parentId: string | undefined, rect: Rect) => InternalNodeBase[];
+
+/*
+ * Nodes only collide with their siblings, because child nodes always overlap their parents.
+ * Nodes that get moved along with the moved nodes, like their children, are ignored as well.
+ */
+function createGetObstacles(
+  moves: Map<string, NodeMove>,
+  nodeLookup: NodeLookup,
+  spatialIndex?: SpatialIndex
+): GetObstacles {
+  const movedIds = new Set(moves.keys());
+  const parentIds = new Set(Array.from(movedIds, (id) => nodeLookup.get(id)?.parentId));
+  const isObstacle = (node: InternalNodeBase | undefined): node is InternalNodeBase =>
+    !!node &&
+    parentIds.has(node.parentId) &&
+    !node.hidden &&
+    !!node.measured.width &&
+    !!node.measured.height &&
+    !isDraggedNode(node, movedIds, nodeLookup);
+
+  if (spatialIndex) {
+    return (parentId, rect) =>
+      spatialIndex
+        .search(rect)
+        .map((id) => nodeLookup.get(id))
+        .filter((node): node is InternalNodeBase => isObstacle(node) && node.parentId === parentId);
+  }
+
+  const obstacles = new Map<string | undefined, InternalNodeBase[]>();
+
+  for (const node of nodeLookup.values()) {
+    if (!isObstacle(node)) {
+      continue;
+    }
+
+    const siblings = obstacles.get(node.parentId) ?? [];
+    siblings.push(node);
+    obstacles.set(node.parentId, siblings);
+  }
+
+  return (parentId) => obstacles.get(parentId) ?? [];
+}
+
+/*
+ * Returns the distance that a rect can travel on one axis before it touches one of the obstacles.
+ * Obstacles that already overlap the rect don't block it, so that overlapping nodes can be separated.
+ */
+function getAllowedDistance(rect: Rect, distance: number, axis: 'x' | 'y', obstacles: Rect[]): number {
+  const size = axis === 'x' ? 'width' : 'height';
+  const crossAxis = axis === 'x' ? 'y' : 'x';
+  const crossSize = axis === 'x' ? 'height' : 'width';
+  let allowed = distance;
+
+  for (const obstacle of obstacles) {
+    const isInLine =
+      obstacle[crossAxis] < rect[crossAxis] + rect[crossSize] &&
+      obstacle[crossAxis] + obstacle[crossSize] > rect[crossAxis];
+
+    if (!isInLine) {
+      continue;
+    }
+
+    if (distance > 0 && obstacle[axis] >= rect[axis] + rect[size]) {
+      allowed = Math.min(allowed, obstacle[axis] - rect[axis] - rect[size]);
+    } else if (distance < 0 && obstacle[axis] + obstacle[size] <= rect[axis]) {
+      allowed = Math.max(allowed, obstacle[axis] + obstacle[size] - rect[axis]);
+    }
+  }
+
+  return allowed;
+}
+
+function blockMoves(
+  moves: Map<string, NodeMove>,
+  nodeLookup: NodeLookup,
+  getObstacles: GetObstacles
+): Map<string, XYPosition> {
+  const rects = new Map<string, Rect>();
+  const obstacleRects = new Map<string, Rect[]>();
+
+  for (const [id, move] of moves) {
+    const node = nodeLookup.get(id)!;
+    const dimensions = getNodeDimensions(node);
+    // only the obstacles in the area that the node moves through can block it
+    const area = getBoundsOfRects({ ...move.from, ...dimensions }, { ...move.to, ...dimensions });
+
+    rects.set(id, { ...move.from, ...dimensions });
+    obstacleRects.set(
+      id,
+      getObstacles(node.parentId, area).map((obstacle) => nodeToRect(obstacle))
+    );
+  }
+
+  // the moved nodes stay together, so the node that is blocked first limits the movement of all of them
+  for (const axis of ['x', 'y'] as const) {
+    let correction = 0;
+
+    for (const [id, move] of moves) {
+      const distance = move.to[axis] - move.from[axis];
+      const allowed = getAllowedDistance(rects.get(id)!, distance, axis, obstacleRects.get(id)!);
+
+      if (Math.abs(allowed - distance) > Math.abs(correction)) {
+        correction = allowed - distance;
+      }
+    }
+
+    for (const [id, move] of moves) {
+      const rect = rects.get(id)!;
+      rect[axis] = move.to[axis] + correction;
+    }
+  }
+
+  // nodes that moved into an obstacle nevertheless, for example because of a different grid snapping, stay where they are
+  for (const [id, move] of moves) {
+    const from = { ...rects.get(id)!, ...move.from };
+    const hasCollision = obstacleRects
+      .get(id)!
+      .some((obstacle) => overlaps(rects.get(id)!, obstacle) && !overlaps(from, obstacle));
+
+    if (hasCollision) {
+      return new Map(Array.from(moves, ([movedId, { from: position }]) => [movedId, position]));
+    }
+  }
+
+  return new Map(Array.from(rects, ([id, { x, y }]) => [id, { x, y }]));
+}
+
+// returns the shortest distance that separates the rect from the pusher, away from the center of the pusher
+function getPushDelta(pusher: Rect, rect: Rect): XYPosition {
+  const dx =
+    rect.x + rect.width / 2 >= pusher.x + pusher.width / 2
+      ? pusher.x + pusher.width - rect.x
+      : pusher.x - rect.x - rect.width;
+  const dy =
+    rect.y + rect.height / 2 >= pusher.y + pusher.height / 2
+      ? pusher.y + pusher.height - rect.y
+      : pusher.y - rect.y - rect.height;
+
+  return Math.abs(dx) <= Math.abs(dy) ? { x: dx, y: 0 } : { x: 0, y: dy };
+}
+
+function pushNodes(
+  moves: Map<string, NodeMove>,
+  nodeLookup: NodeLookup,
+  getObstacles: GetObstacles
+): Map<string, XYPosition> {
+  const pushedRects = new Map<string, Rect>();
+  const pushCounts = new Map<string, number>();
+  // the moved nodes push their siblings and the pushed nodes push the nodes behind them
+  const pushers: { id: string; rect: Rect; parentId?: string }[] = [];
+
+  for (const [id, move] of moves) {
+    const node = nodeLookup.get(id)!;
+    pushers.push({ id, rect: { ...move.to, ...getNodeDimensions(node) }, parentId: node.parentId });
+  }
+
+  while (pushers.length > 0) {
+    const pusher = pushers.shift()!;
+    // the nodes that got pushed already are not at the position they have in the spatial index anymore
+    const pushedSiblings = Array.from(pushedRects.keys(), (id) => nodeLookup.get(id)!).filter(
+      (node) => node.parentId === pusher.parentId
+    );
+    const siblings = new Set([...getObstacles(pusher.parentId, pusher.rect), ...pushedSiblings]);
+
+    for (const sibling of siblings) {
+      const rect = pushedRects.get(sibling.id) ?? nodeToRect(sibling);
+      const pushCount = pushCounts.get(sibling.id) ?? 0;
+
+      if (sibling.id === pusher.id || pushCount >= MAX_PUSHES_PER_NODE || !overlaps(pusher.rect, rect)) {
+        continue;
+      }
+
+      const pushedRect = moveRect(rect, getPushDelta(pusher.rect, rect));
+
+      pushedRects.set(sibling.id, pushedRect);
+      pushCounts.set(sibling.id, pushCount + 1);
+      pushers.push({ id: sibling.id, rect: pushedRect, parentId: sibling.parentId });
+    }
+  }
+
+  const pushedPositions = new Map<string, XYPosition>();
+
+  for (const [id, rect] of pushedRects) {
+    const node = nodeLookup.get(id)!;
+    const { x, y } = nodeToRect(node);
+
+    // the rect of a rotated node is bigger than the node, so we move the node by the same distance as its rect
+    pushedPositions.set(id, {
+      x: node.internals.positionAbsolute.x + rect.x - x,
+      y: node.internals.positionAbsolute.y + rect.y - y,
+    });
+  }
+
+  return pushedPositions;
+}
+
+/**
+ * Prevents moved nodes from overlapping their siblings. In `block` mode the nodes stop in front of
+ * other nodes and slide along them, in `push` mode the other nodes get pushed out of the way.
+ * Nodes that already overlap don't block each other, so that they can be moved apart.
+ * @public
+ * @param params.moves - The current and next absolute positions of the moved nodes
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.mode - `block` or `push`
+ * @param params.spatialIndex - The spatial index of the nodes
+ * @returns The absolute positions of the moved nodes and of the pushed nodes
+ */
+export function resolveNodeCollisions({
+  moves,
+  nodeLookup,
+  mode,
+  spatialIndex,
+}: ResolveNodeCollisionsParams): ResolveNodeCollisionsResult {
+  // nodes that got removed in the meantime can't collide
+  const existingMoves = new Map(Array.from(moves).filter(([id]) => nodeLookup.has(id)));
+  const getObstacles = createGetObstacles(existingMoves, nodeLookup, spatialIndex);
+
+  if (mode === 'block') {
+    return { positions: blockMoves(existingMoves, nodeLookup, getObstacles), pushedPositions: new Map() };
+  }
+
+  return {
+    positions: new Map(Array.from(existingMoves, ([id, { to }]) => [id, to])),
+    pushedPositions: pushNodes(existingMoves, nodeLookup, getObstacles),
+  };
+}
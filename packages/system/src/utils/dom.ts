@@ -1,5 +1,5 @@
 import type { Transform, XYPosition, SnapGrid, Dimensions, Position, Handle } from '../types';
-import { snapPosition, pointToRendererPoint } from './general';
+import { snapPosition, pointToRendererPoint, rotatePoint } from './general';
 
 export type GetPointerPositionParams = {
   transform: Transform;
@@ -37,7 +37,7 @@ export const getHostForElement = (element: HTMLElement | EventTarget | null): Do
 
 const inputTags = ['INPUT', 'SELECT', 'TEXTAREA'];
 
-export function isInputDOMNode(event: KeyboardEvent): boolean {
+export function isInputDOMNode(event: KeyboardEvent | ClipboardEvent): boolean {
   // using composed path for handling shadow dom
   const target = (event.composedPath?.()?.[0] || event.target) as Element | null;
   if (target?.nodeType !== 1 /* Node.ELEMENT_NODE */) return false;
@@ -61,6 +61,25 @@ export const getEventPosition = (event: MouseEvent | TouchEvent, bounds?: DOMRec
   };
 };
 
+/**
+ * Samples the points of a rendered path, for example to check if an edge lies inside the user selection.
+ * The points are in the coordinate system of the path.
+ * @public
+ * @param path - The path element
+ * @param sampleDistance - The distance between two points (default: 5)
+ * @returns The points along the path, including its start and end
+ */
+export function getPathPoints(path: SVGGeometryElement, sampleDistance = 5): XYPosition[] {
+  const length = path.getTotalLength();
+  const segments = Math.max(1, Math.ceil(length / sampleDistance));
+
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const { x, y } = path.getPointAtLength((length * i) / segments);
+
+    return { x, y };
+  });
+}
+
 /*
  * The handle bounds are calculated relative to the node element.
  * We store them in the internals object of the node in order to avoid
@@ -71,7 +90,8 @@ export const getHandleBounds = (
   nodeElement: HTMLDivElement,
   nodeBounds: DOMRect,
   zoom: number,
-  nodeId: string
+  nodeId: string,
+  rotation = 0
 ): Handle[] | null => {
   const handles = nodeElement.querySelectorAll(`.${type}`);
 
@@ -79,17 +99,39 @@ export const getHandleBounds = (
     return null;
   }
 
+  const nodeDimensions = getDimensions(nodeElement);
+
   return Array.from(handles).map((handle): Handle => {
     const handleBounds = handle.getBoundingClientRect();
+    const dimensions = getDimensions(handle as HTMLDivElement);
+    let { x, y } = { x: (handleBounds.left - nodeBounds.left) / zoom, y: (handleBounds.top - nodeBounds.top) / zoom };
+
+    /*
+     * The bounds of a rotated node contain the whole rotated node, so we rotate the center of the
+     * handle back around the center of the node to get its position inside of the unrotated node.
+     */
+    if (rotation) {
+      const center = rotatePoint(
+        {
+          x: (handleBounds.left + handleBounds.width / 2 - nodeBounds.left - nodeBounds.width / 2) / zoom,
+          y: (handleBounds.top + handleBounds.height / 2 - nodeBounds.top - nodeBounds.height / 2) / zoom,
+        },
+        { x: 0, y: 0 },
+        -rotation
+      );
+
+      x = nodeDimensions.width / 2 + center.x - dimensions.width / 2;
+      y = nodeDimensions.height / 2 + center.y - dimensions.height / 2;
+    }
 
     return {
       id: handle.getAttribute('data-handleid'),
       type,
       nodeId,
       position: handle.getAttribute('data-handlepos') as unknown as Position,
-      x: (handleBounds.left - nodeBounds.left) / zoom,
-      y: (handleBounds.top - nodeBounds.top) / zoom,
-      ...getDimensions(handle as HTMLDivElement),
+      x,
+      y,
+      ...dimensions,
     };
   });
 };
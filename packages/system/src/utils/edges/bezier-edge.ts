@@ -1,4 +1,7 @@
-import { Position } from '../../types';
+import { getEdgeNormal } from './parallel-edges';
+import { getSelfLoopPoints } from './self-loop';
+import { getWaypointPath } from './waypoint-edge';
+import { Position, type Rect } from '../../types';
 
 export type GetBezierPathParams = {
   sourceX: number;
@@ -8,6 +11,10 @@ export type GetBezierPathParams = {
   targetY: number;
   targetPosition?: Position;
   curvature?: number;
+  /** Bends the path sideways by this distance to separate it from parallel edges */
+  parallelOffset?: number;
+  /** The rect of the node, if source and target are the same node. The path is drawn as a loop around it */
+  selfLoopRect?: Rect;
 };
 
 export type GetControlWithCurvatureParams = {
@@ -82,6 +89,8 @@ function getControlWithCurvature({ pos, x1, y1, x2, y2, c }: GetControlWithCurva
  * @param params.targetY - The y position of the target handle
  * @param params.targetPosition - The position of the target handle (default: Position.Top)
  * @param params.curvature - The curvature of the bezier edge
+ * @param params.parallelOffset - Bends the path sideways to separate it from parallel edges
+ * @param params.selfLoopRect - The rect of the node, if the edge starts and ends at the same node
  * @returns A path string you can use in an SVG, the labelX and labelY position (center of path) and offsetX, offsetY between source handle and label
  * @example
  * ```js
@@ -109,8 +118,33 @@ export function getBezierPath({
   targetY,
   targetPosition = Position.Top,
   curvature = 0.25,
+  parallelOffset = 0,
+  selfLoopRect,
 }: GetBezierPathParams): [path: string, labelX: number, labelY: number, offsetX: number, offsetY: number] {
-  const [sourceControlX, sourceControlY] = getControlWithCurvature({
+  if (selfLoopRect || (sourceX === targetX && sourceY === targetY)) {
+    const [points, labelX, labelY] = getSelfLoopPoints({
+      sourceX,
+      sourceY,
+      sourcePosition,
+      targetX,
+      targetY,
+      targetPosition,
+      rect: selfLoopRect,
+      offset: parallelOffset,
+    });
+    const [path] = getWaypointPath({
+      sourceX,
+      sourceY,
+      targetX,
+      targetY,
+      waypoints: points.slice(1, -1),
+      curve: 'spline',
+    });
+
+    return [path, labelX, labelY, Math.abs(labelX - sourceX), Math.abs(labelY - sourceY)];
+  }
+
+  let [sourceControlX, sourceControlY] = getControlWithCurvature({
     pos: sourcePosition,
     x1: sourceX,
     y1: sourceY,
@@ -118,7 +152,7 @@ export function getBezierPath({
     y2: targetY,
     c: curvature,
   });
-  const [targetControlX, targetControlY] = getControlWithCurvature({
+  let [targetControlX, targetControlY] = getControlWithCurvature({
     pos: targetPosition,
     x1: targetX,
     y1: targetY,
@@ -126,6 +160,17 @@ export function getBezierPath({
     y2: sourceY,
     c: curvature,
   });
+
+  if (parallelOffset !== 0) {
+    // the center of the curve moves 3/4 of the distance the control points move
+    const [normalX, normalY] = getEdgeNormal(sourceX, sourceY, targetX, targetY);
+    const controlOffset = parallelOffset / 0.75;
+
+    sourceControlX += normalX * controlOffset;
+    sourceControlY += normalY * controlOffset;
+    targetControlX += normalX * controlOffset;
+    targetControlY += normalY * controlOffset;
+  }
   const [labelX, labelY, offsetX, offsetY] = getBezierEdgeCenter({
     sourceX,
     sourceY,
@@ -3,3 +3,7 @@ export * from './straight-edge';
 export * from './smoothstep-edge';
 export * from './general';
 export * from './positions';
+export * from './orthogonal-edge';
+export * from './waypoint-edge';
+export * from './parallel-edges';
+export * from './self-loop';
@@ -0,0 +1,448 @@
+import { Position, type InternalNodeBase, type NodeLookup, type Rect, type XYPosition } from '../../types';
+import { nodeToRect } from '../general';
+import type { SpatialIndex } from '../spatial-index';
+import { getBend, getSmoothStepPath } from './smoothstep-edge';
+
+export interface GetOrthogonalPathParams {
+  sourceX: number;
+  sourceY: number;
+  sourcePosition?: Position;
+  targetX: number;
+  targetY: number;
+  targetPosition?: Position;
+  /** The nodes the edge gets routed around */
+  nodeLookup: NodeLookup;
+  /** Used to only look at the nodes near the edge instead of all nodes */
+  spatialIndex?: SpatialIndex;
+  /** The obstacles returned by `getOrthogonalObstacles`, so that they don't need to be collected again */
+  obstacles?: Rect[];
+  /** The distance the edge keeps to the nodes */
+  margin?: number;
+  borderRadius?: number;
+}
+
+export type GetOrthogonalObstaclesParams = Omit<GetOrthogonalPathParams, 'obstacles' | 'borderRadius'>;
+
+// the order matters: the opposite of a direction is always at index ^ 1
+const directions: XYPosition[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+const positionDirections = {
+  [Position.Right]: 0,
+  [Position.Left]: 1,
+  [Position.Bottom]: 2,
+  [Position.Top]: 3,
+};
+
+const isInside = (rect: Rect, point: XYPosition) =>
+  point.x > rect.x && point.x < rect.x + rect.width && point.y > rect.y && point.y < rect.y + rect.height;
+
+const rectsTouch = (a: Rect, b: Rect) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+const getBounds = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+const getPointBounds = (a: XYPosition, b: XYPosition) =>
+  getBounds({ ...a, width: 0, height: 0 }, { ...b, width: 0, height: 0 });
+
+function getObstacle(node: InternalNodeBase, margin: number): Rect | null {
+  const rect = nodeToRect(node);
+
+  if (node.hidden || !rect.width || !rect.height) {
+    return null;
+  }
+
+  return {
+    x: rect.x - margin,
+    y: rect.y - margin,
+    width: rect.width + margin * 2,
+    height: rect.height + margin * 2,
+  };
+}
+
+function getEndPoints({
+  sourceX,
+  sourceY,
+  sourcePosition = Position.Bottom,
+  targetX,
+  targetY,
+  targetPosition = Position.Top,
+  margin = 20,
+}: GetOrthogonalObstaclesParams): [start: XYPosition, end: XYPosition] {
+  const sourceDirection = directions[positionDirections[sourcePosition]];
+  const targetDirection = directions[positionDirections[targetPosition]];
+
+  return [
+    { x: sourceX + sourceDirection.x * margin, y: sourceY + sourceDirection.y * margin },
+    { x: targetX + targetDirection.x * margin, y: targetY + targetDirection.y * margin },
+  ];
+}
+
+/**
+ * Returns the nodes inflated by the margin that could be in the way of an orthogonal edge. We start with the nodes
+ * between the start and the end point and add the nodes next to them until nothing changes anymore,
+ * because going around one node could lead into the next one. The result only changes when nodes near the
+ * edge change, so it can be used to decide if the path needs to be calculated again.
+ * @public
+ * @param params.nodeLookup - The nodes that the edge should not cross
+ * @param params.spatialIndex - The spatial index of the nodes, only the nodes near the edge are looked at if it's passed
+ * @param params.margin - The distance the edge keeps to the nodes (default: 20)
+ * @returns The rects the edge gets routed around
+ */
+export function getOrthogonalObstacles(params: GetOrthogonalObstaclesParams): Rect[] {
+  const { nodeLookup, spatialIndex, margin = 20 } = params;
+  const [start, end] = getEndPoints(params);
+  const obstacles: Rect[] = [];
+  const checkedIds = new Set<string>();
+  let bounds = getPointBounds(start, end);
+  let added = true;
+
+  while (added) {
+    added = false;
+    const ids = spatialIndex
+      ? spatialIndex.search({
+          x: bounds.x - margin,
+          y: bounds.y - margin,
+          width: bounds.width + margin * 2,
+          height: bounds.height + margin * 2,
+        })
+      : nodeLookup.keys();
+
+    for (const id of ids) {
+      const node = checkedIds.has(id) ? undefined : nodeLookup.get(id);
+      const obstacle = node ? getObstacle(node, margin) : null;
+
+      if (!obstacle) {
+        continue;
+      }
+
+      // nodes that contain the start or the end point, like parent nodes, can't be avoided
+      if (isInside(obstacle, start) || isInside(obstacle, end)) {
+        checkedIds.add(id);
+      } else if (rectsTouch(obstacle, bounds)) {
+        obstacles.push(obstacle);
+        checkedIds.add(id);
+        bounds = getBounds(bounds, obstacle);
+        added = true;
+      }
+    }
+  }
+
+  return obstacles;
+}
+
+type QueueItem = { cost: number; state: number };
+
+// a minimal binary heap for the shortest path search
+function createQueue() {
+  const items: QueueItem[] = [];
+
+  const push = (item: QueueItem) => {
+    items.push(item);
+    let index = items.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+
+      if (items[parent].cost <= items[index].cost) {
+        break;
+      }
+
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  };
+
+  const getSmallestChild = (index: number) => {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+
+    if (left < items.length && items[left].cost < items[smallest].cost) {
+      smallest = left;
+    }
+
+    if (right < items.length && items[right].cost < items[smallest].cost) {
+      smallest = right;
+    }
+
+    return smallest;
+  };
+
+  const pop = () => {
+    const top = items[0];
+    const last = items.pop()!;
+
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      let smallest = getSmallestChild(index);
+
+      while (smallest !== index) {
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+        smallest = getSmallestChild(index);
+      }
+    }
+
+    return top;
+  };
+
+  return { push, pop, isEmpty: () => items.length === 0 };
+}
+
+const getSortedUnique = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+
+/*
+ * Searches the shortest path with the least bends on a grid that is built from the borders of the obstacles.
+ * A state is the combination of a grid point and the direction we arrived with.
+ */
+function getRoute(
+  start: XYPosition,
+  startDirection: number,
+  end: XYPosition,
+  endDirection: number,
+  obstacles: Rect[],
+  bounds: Rect,
+  margin: number
+): XYPosition[] | null {
+  const xs = getSortedUnique([
+    start.x,
+    end.x,
+    (start.x + end.x) / 2,
+    bounds.x - margin,
+    bounds.x + bounds.width + margin,
+    ...obstacles.flatMap((obstacle) => [obstacle.x, obstacle.x + obstacle.width]),
+  ]);
+  const ys = getSortedUnique([
+    start.y,
+    end.y,
+    (start.y + end.y) / 2,
+    bounds.y - margin,
+    bounds.y + bounds.height + margin,
+    ...obstacles.flatMap((obstacle) => [obstacle.y, obstacle.y + obstacle.height]),
+  ]);
+
+  const getPoint = (index: number) => ({ x: xs[Math.floor(index / ys.length)], y: ys[index % ys.length] });
+  const isFree = (point: XYPosition) => !obstacles.some((obstacle) => isInside(obstacle, point));
+
+  const startIndex = xs.indexOf(start.x) * ys.length + ys.indexOf(start.y);
+  const endIndex = xs.indexOf(end.x) * ys.length + ys.indexOf(end.y);
+  // every bend costs as much as a detour of this length, so that we prefer routes with less bends
+  const bendCost = margin * 2 + 1;
+
+  const costs = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const queue = createQueue();
+  const startState = startIndex * 4 + startDirection;
+
+  costs.set(startState, 0);
+  queue.push({ cost: 0, state: startState });
+
+  while (!queue.isEmpty()) {
+    const { cost, state } = queue.pop();
+
+    if (cost > costs.get(state)!) {
+      continue;
+    }
+
+    const pointIndex = Math.floor(state / 4);
+    const direction = state % 4;
+
+    // the bends in front of the target are already part of the cost, so the first arrival is the best one
+    if (pointIndex === endIndex) {
+      let finalState: number | undefined = state;
+      const route: XYPosition[] = [];
+
+      while (finalState !== undefined) {
+        route.unshift(getPoint(Math.floor(finalState / 4)));
+        finalState = previous.get(finalState);
+      }
+
+      return route;
+    }
+
+    const i = Math.floor(pointIndex / ys.length);
+    const j = pointIndex % ys.length;
+
+    directions.forEach((dir, nextDirection) => {
+      // we don't allow to go back the way we came
+      if (nextDirection === (direction ^ 1)) {
+        return;
+      }
+
+      const nextI = i + dir.x;
+      const nextJ = j + dir.y;
+
+      if (nextI < 0 || nextI >= xs.length || nextJ < 0 || nextJ >= ys.length) {
+        return;
+      }
+
+      const nextIndex = nextI * ys.length + nextJ;
+      const point = getPoint(pointIndex);
+      const nextPoint = getPoint(nextIndex);
+      const center = { x: (point.x + nextPoint.x) / 2, y: (point.y + nextPoint.y) / 2 };
+
+      if (!isFree(nextPoint) || !isFree(center)) {
+        return;
+      }
+
+      let nextCost =
+        cost +
+        Math.abs(nextPoint.x - point.x) +
+        Math.abs(nextPoint.y - point.y) +
+        (nextDirection !== direction ? bendCost : 0);
+
+      if (nextIndex === endIndex && nextDirection !== endDirection) {
+        // arriving from the wrong side needs one or two more bends in front of the target
+        nextCost += nextDirection === (endDirection ^ 1) ? bendCost * 2 : bendCost;
+      }
+
+      const nextState = nextIndex * 4 + nextDirection;
+
+      if (nextCost < (costs.get(nextState) ?? Infinity)) {
+        costs.set(nextState, nextCost);
+        previous.set(nextState, state);
+        queue.push({ cost: nextCost, state: nextState });
+      }
+    });
+  }
+
+  return null;
+}
+
+// removes the points that are on a straight line between their neighbors
+function removeCollinearPoints(points: XYPosition[]): XYPosition[] {
+  return points.filter((point, index) => {
+    const prev = points[index - 1];
+    const next = points[index + 1];
+
+    if (!prev || !next) {
+      return true;
+    }
+
+    const isSamePoint = prev.x === point.x && prev.y === point.y;
+    const isStraight = (prev.x === point.x && point.x === next.x) || (prev.y === point.y && point.y === next.y);
+
+    return !isSamePoint && !isStraight;
+  });
+}
+
+function getPathCenter(points: XYPosition[]): XYPosition {
+  const lengths = points.slice(1).map((point, index) => {
+    const prev = points[index];
+    return Math.abs(point.x - prev.x) + Math.abs(point.y - prev.y);
+  });
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let index = 0; index < lengths.length; index++) {
+    if (remaining <= lengths[index] && lengths[index] > 0) {
+      const ratio = remaining / lengths[index];
+      const a = points[index];
+      const b = points[index + 1];
+
+      return { x: a.x + (b.x - a.x) * ratio, y: a.y + (b.y - a.y) * ratio };
+    }
+
+    remaining -= lengths[index];
+  }
+
+  return points[0];
+}
+
+/**
+ * The `getOrthogonalPath` util returns a stepped path between two handles that is routed around
+ * the nodes in the `nodeLookup`. If there is no route around the nodes, it falls back to a smooth step path.
+ * @public
+ * @param params.sourceX - The x position of the source handle
+ * @param params.sourceY - The y position of the source handle
+ * @param params.sourcePosition - The position of the source handle (default: Position.Bottom)
+ * @param params.targetX - The x position of the target handle
+ * @param params.targetY - The y position of the target handle
+ * @param params.targetPosition - The position of the target handle (default: Position.Top)
+ * @param params.nodeLookup - The nodes that the edge should not cross
+ * @param params.spatialIndex - The spatial index of the nodes, only the nodes near the edge are looked at if it's passed
+ * @param params.obstacles - The obstacles returned by `getOrthogonalObstacles`, the nodes aren't looked at then
+ * @param params.margin - The distance the edge keeps to the nodes (default: 20)
+ * @param params.borderRadius - The radius of the corners (default: 5)
+ * @returns A path string you can use in an SVG, the labelX and labelY position (center of path) and offsetX, offsetY between source handle and label
+ * @example
+ * ```js
+ *  const nodeLookup = useStore((s) => s.nodeLookup);
+ *
+ *  const [path, labelX, labelY] = getOrthogonalPath({
+ *    sourceX,
+ *    sourceY,
+ *    sourcePosition,
+ *    targetX,
+ *    targetY,
+ *    targetPosition,
+ *    nodeLookup,
+ *  });
+ * ```
+ * @remarks This function returns a tuple (aka a fixed-size array) to make it easier to work with multiple edge paths at once.
+ */
+export function getOrthogonalPath({
+  obstacles,
+  borderRadius = 5,
+  ...params
+}: GetOrthogonalPathParams): [path: string, labelX: number, labelY: number, offsetX: number, offsetY: number] {
+  const {
+    sourceX,
+    sourceY,
+    sourcePosition = Position.Bottom,
+    targetX,
+    targetY,
+    targetPosition = Position.Top,
+    margin = 20,
+  } = params;
+  const source = { x: sourceX, y: sourceY };
+  const target = { x: targetX, y: targetY };
+  const sourceDirection = positionDirections[sourcePosition];
+  const targetDirection = positionDirections[targetPosition];
+  const [start, end] = getEndPoints(params);
+  const routeObstacles = obstacles ?? getOrthogonalObstacles(params);
+  const bounds = routeObstacles.reduce(getBounds, getPointBounds(start, end));
+
+  // we arrive at the end point moving towards the target handle, which is the opposite of its direction
+  const route = getRoute(start, sourceDirection, end, targetDirection ^ 1, routeObstacles, bounds, margin);
+
+  if (!route) {
+    return getSmoothStepPath({
+      sourceX,
+      sourceY,
+      sourcePosition,
+      targetX,
+      targetY,
+      targetPosition,
+      borderRadius,
+      offset: margin,
+    });
+  }
+
+  const points = removeCollinearPoints([source, ...route, target]);
+  const path = points.reduce<string>((res, p, i) => {
+    if (i > 0 && i < points.length - 1) {
+      return res + getBend(points[i - 1], p, points[i + 1], borderRadius);
+    }
+
+    return res + `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`;
+  }, '');
+  const center = getPathCenter(points);
+
+  return [path, center.x, center.y, Math.abs(center.x - sourceX), Math.abs(center.y - sourceY)];
+}
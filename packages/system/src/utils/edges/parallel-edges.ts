@@ -0,0 +1,106 @@
+import type { EdgeBase, ParallelEdgeLookup } from '../../types';
+
+export type GetParallelEdgeOffsetParams = {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+  parallelEdgeLookup: ParallelEdgeLookup;
+  /** The distance between two neighbouring parallel edges */
+  spacing?: number;
+};
+
+type EdgeEndpoints = Pick<EdgeBase, 'source' | 'target' | 'sourceHandle' | 'targetHandle'>;
+
+const getEndpointKey = (nodeId: string, handleId?: string | null) => `${nodeId}-${handleId ?? null}`;
+
+// parallel edges can point in opposite directions, so the key doesn't depend on the direction
+function getParallelEdgeKey({ source, target, sourceHandle, targetHandle }: EdgeEndpoints): string {
+  const sourceKey = getEndpointKey(source, sourceHandle);
+  const targetKey = getEndpointKey(target, targetHandle);
+
+  return sourceKey < targetKey ? `${sourceKey}--${targetKey}` : `${targetKey}--${sourceKey}`;
+}
+
+/**
+ * Groups the edges that connect the same handles, so that the offsets of parallel edges
+ * don't need to be searched for on every render.
+ *
+ * @internal
+ */
+export function updateParallelEdgeLookup(parallelEdgeLookup: ParallelEdgeLookup, edges: EdgeBase[]) {
+  parallelEdgeLookup.clear();
+
+  for (const edge of edges) {
+    const key = getParallelEdgeKey(edge);
+    const edgeIds = parallelEdgeLookup.get(key);
+
+    if (edgeIds) {
+      edgeIds.push(edge.id);
+    } else {
+      parallelEdgeLookup.set(key, [edge.id]);
+    }
+  }
+}
+
+/**
+ * Returns the offset an edge should be drawn with, so that it doesn't overlap with other edges
+ * that connect the same handles. Parallel edges are spread evenly around the direct connection.
+ * Self-loops get increasing offsets, so that every loop is drawn around the previous one.
+ * @public
+ * @param params.id - The id of the edge
+ * @param params.source - The id of the source node
+ * @param params.target - The id of the target node
+ * @param params.sourceHandle - The id of the source handle
+ * @param params.targetHandle - The id of the target handle
+ * @param params.parallelEdgeLookup - The parallel edge lookup of the flow
+ * @param params.spacing - The distance between two neighbouring parallel edges (default: 20)
+ * @returns The offset you can pass as `parallelOffset` to the path utils
+ * @example
+ * ```js
+ *  const parallelOffset = getParallelEdgeOffset({ ...edge, parallelEdgeLookup });
+ *  const [path] = getBezierPath({ ...edgePosition, parallelOffset });
+ * ```
+ */
+export function getParallelEdgeOffset({
+  id,
+  parallelEdgeLookup,
+  spacing = 20,
+  ...endpoints
+}: GetParallelEdgeOffsetParams): number {
+  const parallelEdgeIds = parallelEdgeLookup.get(getParallelEdgeKey(endpoints));
+  const index = parallelEdgeIds?.indexOf(id) ?? -1;
+
+  if (!parallelEdgeIds || parallelEdgeIds.length < 2 || index === -1) {
+    return 0;
+  }
+
+  if (endpoints.source === endpoints.target) {
+    return index * spacing;
+  }
+
+  /*
+   * the offset is applied perpendicular to the direction of the edge,
+   * so edges that point in the other direction need to be flipped
+   */
+  const offset = (index - (parallelEdgeIds.length - 1) / 2) * spacing;
+  const sourceKey = getEndpointKey(endpoints.source, endpoints.sourceHandle);
+  const targetKey = getEndpointKey(endpoints.target, endpoints.targetHandle);
+
+  return sourceKey < targetKey ? offset : -offset;
+}
+
+/**
+ * Returns the unit vector perpendicular to the line from source to target.
+ * @internal
+ */
+export function getEdgeNormal(sourceX: number, sourceY: number, targetX: number, targetY: number): [number, number] {
+  const length = Math.hypot(targetX - sourceX, targetY - sourceY);
+
+  if (length === 0) {
+    return [0, 0];
+  }
+
+  return [-(targetY - sourceY) / length, (targetX - sourceX) / length];
+}
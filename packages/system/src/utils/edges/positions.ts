@@ -1,10 +1,10 @@
 import { EdgePosition } from '../../types/edges';
 import { ConnectionMode, OnError } from '../../types/general';
-import { InternalNodeBase, NodeHandle } from '../../types/nodes';
+import { InternalNodeBase, NodeHandle, NodeShape } from '../../types/nodes';
 import { Position, XYPosition } from '../../types/utils';
 import { errorMessages } from '../../constants';
 import { Handle } from '../../types';
-import { getNodeDimensions } from '../general';
+import { getNodeDimensions, rotatePoint } from '../general';
 
 export type GetEdgePositionParams = {
   id: string;
@@ -31,22 +31,27 @@ export function getEdgePosition(params: GetEdgePositionParams): EdgePosition | n
     return null;
   }
 
+  const isSourceFloating = !params.sourceHandle && !!sourceNode.floating;
+  const isTargetFloating = !params.targetHandle && !!targetNode.floating;
+
   const sourceHandleBounds = sourceNode.internals.handleBounds || toHandleBounds(sourceNode.handles);
   const targetHandleBounds = targetNode.internals.handleBounds || toHandleBounds(targetNode.handles);
 
-  const sourceHandle = getHandle(sourceHandleBounds?.source ?? [], params.sourceHandle);
-  const targetHandle = getHandle(
-    // when connection type is loose we can define all handles as sources and connect source -> source
-    params.connectionMode === ConnectionMode.Strict
-      ? targetHandleBounds?.target ?? []
-      : (targetHandleBounds?.target ?? []).concat(targetHandleBounds?.source ?? []),
-    params.targetHandle
-  );
-
-  if (!sourceHandle || !targetHandle) {
+  const sourceHandle = isSourceFloating ? null : getHandle(sourceHandleBounds?.source ?? [], params.sourceHandle);
+  const targetHandle = isTargetFloating
+    ? null
+    : getHandle(
+        // when connection type is loose we can define all handles as sources and connect source -> source
+        params.connectionMode === ConnectionMode.Strict
+          ? targetHandleBounds?.target ?? []
+          : (targetHandleBounds?.target ?? []).concat(targetHandleBounds?.source ?? []),
+        params.targetHandle
+      );
+
+  if ((!sourceHandle && !isSourceFloating) || (!targetHandle && !isTargetFloating)) {
     params.onError?.(
       '008',
-      errorMessages['error008'](!sourceHandle ? 'source' : 'target', {
+      errorMessages['error008'](!sourceHandle && !isSourceFloating ? 'source' : 'target', {
         id: params.id,
         sourceHandle: params.sourceHandle,
         targetHandle: params.targetHandle,
@@ -56,21 +61,101 @@ export function getEdgePosition(params: GetEdgePositionParams): EdgePosition | n
     return null;
   }
 
-  const sourcePosition = sourceHandle?.position || Position.Bottom;
-  const targetPosition = targetHandle?.position || Position.Top;
-  const source = getHandlePosition(sourceNode, sourceHandle, sourcePosition);
-  const target = getHandlePosition(targetNode, targetHandle, targetPosition);
+  let sourcePosition = rotatePosition(sourceHandle?.position || Position.Bottom, sourceNode.rotation);
+  let targetPosition = rotatePosition(targetHandle?.position || Position.Top, targetNode.rotation);
+  let source = sourceHandle ? getHandlePosition(sourceNode, sourceHandle, sourcePosition) : null;
+  let target = targetHandle ? getHandlePosition(targetNode, targetHandle, targetPosition) : null;
+
+  // a floating end points to the handle of the other end or to the center of the other node, if that one is floating too
+  if (isSourceFloating) {
+    [source, sourcePosition] = getFloatingPosition(sourceNode, target ?? getNodeCenter(targetNode));
+  }
+
+  if (isTargetFloating) {
+    [target, targetPosition] = getFloatingPosition(targetNode, source ?? getNodeCenter(sourceNode));
+  }
 
   return {
-    sourceX: source.x,
-    sourceY: source.y,
-    targetX: target.x,
-    targetY: target.y,
+    sourceX: source!.x,
+    sourceY: source!.y,
+    targetX: target!.x,
+    targetY: target!.y,
     sourcePosition,
     targetPosition,
   };
 }
 
+const positionOrder = [Position.Top, Position.Right, Position.Bottom, Position.Left];
+
+// returns the side that a side of the node faces after rotating the node
+function rotatePosition(position: Position, rotation = 0): Position {
+  const steps = Math.round(rotation / 90);
+
+  if (!steps) {
+    return position;
+  }
+
+  const index = positionOrder.indexOf(position);
+
+  return positionOrder[(((index + steps) % 4) + 4) % 4];
+}
+
+function getNodeCenter(node: InternalNodeBase): XYPosition {
+  const { width, height } = getNodeDimensions(node);
+
+  return {
+    x: node.internals.positionAbsolute.x + width / 2,
+    y: node.internals.positionAbsolute.y + height / 2,
+  };
+}
+
+/**
+ * Returns the point where the line from the center of the node to the reference point leaves the
+ * shape of the node and the side of the node that this point is on.
+ * For rotated nodes, the reference point is rotated into the coordinate system of the node and the result back.
+ */
+function getFloatingPosition(node: InternalNodeBase, reference: XYPosition): [XYPosition, Position] {
+  const center = getNodeCenter(node);
+  const { width, height } = getNodeDimensions(node);
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  const localReference = rotatePoint(reference, center, -(node.rotation ?? 0));
+  const dx = localReference.x - center.x;
+  const dy = localReference.y - center.y;
+
+  if ((!dx && !dy) || !halfWidth || !halfHeight) {
+    return [
+      rotatePoint({ x: center.x, y: center.y + halfHeight }, center, node.rotation),
+      rotatePosition(Position.Bottom, node.rotation),
+    ];
+  }
+
+  const shape: NodeShape = node.floating === true ? 'rectangle' : (node.floating as NodeShape);
+  const nx = Math.abs(dx) / halfWidth;
+  const ny = Math.abs(dy) / halfHeight;
+
+  // the factor by which we need to scale the direction to reach the outline of the shape
+  let scale: number;
+
+  switch (shape) {
+    case 'circle':
+      scale = 1 / Math.sqrt(nx * nx + ny * ny);
+      break;
+    case 'diamond':
+      scale = 1 / (nx + ny);
+      break;
+    default:
+      scale = 1 / Math.max(nx, ny);
+  }
+
+  const position = nx >= ny ? (dx > 0 ? Position.Right : Position.Left) : dy > 0 ? Position.Bottom : Position.Top;
+
+  return [
+    rotatePoint({ x: center.x + dx * scale, y: center.y + dy * scale }, center, node.rotation),
+    rotatePosition(position, node.rotation),
+  ];
+}
+
 function toHandleBounds(handles?: NodeHandle[]) {
   if (!handles) {
     return null;
@@ -105,23 +190,29 @@ export function getHandlePosition(
   const x = (handle?.x ?? 0) + node.internals.positionAbsolute.x;
   const y = (handle?.y ?? 0) + node.internals.positionAbsolute.y;
   const { width, height } = handle ?? getNodeDimensions(node);
-
-  if (center) {
-    return { x: x + width / 2, y: y + height / 2 };
-  }
-
   const position = handle?.position ?? fallbackPosition;
+  let point: XYPosition;
 
-  switch (position) {
+  switch (center ? null : position) {
+    case null:
+      point = { x: x + width / 2, y: y + height / 2 };
+      break;
     case Position.Top:
-      return { x: x + width / 2, y };
+      point = { x: x + width / 2, y };
+      break;
     case Position.Right:
-      return { x: x + width, y: y + height / 2 };
+      point = { x: x + width, y: y + height / 2 };
+      break;
     case Position.Bottom:
-      return { x: x + width / 2, y: y + height };
+      point = { x: x + width / 2, y: y + height };
+      break;
     case Position.Left:
-      return { x, y: y + height / 2 };
+      point = { x, y: y + height / 2 };
+      break;
   }
+
+  // the handle bounds are stored relative to the unrotated node, so the point is rotated with the node
+  return node.rotation ? rotatePoint(point, getNodeCenter(node), node.rotation) : point;
 }
 
 function getHandle(bounds: Handle[], handleId?: string | null): Handle | null {
@@ -0,0 +1,151 @@
+import { Position, type Rect, type XYPosition } from '../../types';
+
+export type GetSelfLoopPointsParams = {
+  sourceX: number;
+  sourceY: number;
+  sourcePosition?: Position;
+  targetX: number;
+  targetY: number;
+  targetPosition?: Position;
+  /** The rect of the node the loop starts and ends at */
+  rect?: Rect;
+  /** Additional distance between the loop and the node, used to stack multiple loops */
+  offset?: number;
+  /** If true, all segments of the loop are horizontal or vertical */
+  orthogonal?: boolean;
+};
+
+// distance between a self-loop and the border of its node
+const selfLoopSize = 30;
+
+const sideDirections = {
+  [Position.Left]: { x: -1, y: 0 },
+  [Position.Right]: { x: 1, y: 0 },
+  [Position.Top]: { x: 0, y: -1 },
+  [Position.Bottom]: { x: 0, y: 1 },
+};
+
+// the corner at index i is the one we reach when we walk clockwise along side i
+const clockwiseSides = [Position.Top, Position.Right, Position.Bottom, Position.Left];
+
+const movePoint = (point: XYPosition, direction: XYPosition, distance: number): XYPosition => ({
+  x: point.x + direction.x * distance,
+  y: point.y + direction.y * distance,
+});
+
+/*
+ * If source and target handle are at the same point, we can't go around the node.
+ * Instead we draw a small lobe that leaves the handle and comes back to it.
+ */
+function getLobePoints(
+  source: XYPosition,
+  position: Position,
+  size: number,
+  orthogonal: boolean
+): [XYPosition[], number, number] {
+  const dir = sideDirections[position];
+  const perpendicular = { x: dir.y, y: -dir.x };
+  const outer = movePoint(source, dir, size);
+
+  if (orthogonal) {
+    const label = movePoint(movePoint(source, dir, size * 0.75), perpendicular, size);
+    const points = [
+      source,
+      outer,
+      movePoint(outer, perpendicular, size),
+      movePoint(movePoint(source, dir, size / 2), perpendicular, size),
+      movePoint(source, dir, size / 2),
+      source,
+    ];
+
+    return [points, label.x, label.y];
+  }
+
+  const points = [
+    source,
+    movePoint(outer, perpendicular, size / 2),
+    movePoint(outer, perpendicular, -size / 2),
+    source,
+  ];
+
+  return [points, outer.x, outer.y];
+}
+
+function getExitPoint(point: XYPosition, position: Position, bounds: Rect): XYPosition {
+  switch (position) {
+    case Position.Left:
+      return { x: bounds.x, y: point.y };
+    case Position.Right:
+      return { x: bounds.x + bounds.width, y: point.y };
+    case Position.Top:
+      return { x: point.x, y: bounds.y };
+    case Position.Bottom:
+      return { x: point.x, y: bounds.y + bounds.height };
+  }
+}
+
+/**
+ * Returns the points of an edge that starts and ends at the same node. The loop leaves the
+ * source handle, walks around the outside of the node on the shorter way and enters the target handle.
+ * @internal
+ */
+export function getSelfLoopPoints({
+  sourceX,
+  sourceY,
+  sourcePosition = Position.Bottom,
+  targetX,
+  targetY,
+  targetPosition = Position.Top,
+  rect,
+  offset = 0,
+  orthogonal = false,
+}: GetSelfLoopPointsParams): [points: XYPosition[], labelX: number, labelY: number] {
+  const source = { x: sourceX, y: sourceY };
+  const target = { x: targetX, y: targetY };
+  const size = selfLoopSize + Math.abs(offset);
+
+  if (!rect || (sourceX === targetX && sourceY === targetY)) {
+    return getLobePoints(source, sourcePosition, size, orthogonal);
+  }
+
+  const bounds = {
+    x: rect.x - size,
+    y: rect.y - size,
+    width: rect.width + size * 2,
+    height: rect.height + size * 2,
+  };
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height },
+  ];
+
+  const sourceSide = clockwiseSides.indexOf(sourcePosition);
+  const targetSide = clockwiseSides.indexOf(targetPosition);
+  const clockwiseSteps = (targetSide - sourceSide + 4) % 4;
+  const counterClockwiseSteps = (sourceSide - targetSide + 4) % 4;
+
+  const passedCorners =
+    clockwiseSteps < counterClockwiseSteps
+      ? Array.from({ length: clockwiseSteps }, (_, i) => corners[(sourceSide + i + 1) % 4])
+      : Array.from({ length: counterClockwiseSteps }, (_, i) => corners[(sourceSide - i + 4) % 4]);
+
+  const outerPoints = [
+    getExitPoint(source, sourcePosition, bounds),
+    ...passedCorners,
+    getExitPoint(target, targetPosition, bounds),
+  ];
+
+  // the label sits in the middle of the part of the loop that runs around the node
+  const middle = Math.floor(outerPoints.length / 2);
+  const label =
+    outerPoints.length % 2 === 1
+      ? outerPoints[middle]
+      : {
+          x: (outerPoints[middle - 1].x + outerPoints[middle].x) / 2,
+          y: (outerPoints[middle - 1].y + outerPoints[middle].y) / 2,
+        };
+
+  return [[source, ...outerPoints, target], label.x, label.y];
+}
@@ -1,5 +1,6 @@
 import { getEdgeCenter } from './general';
-import { Position, type XYPosition } from '../../types';
+import { getSelfLoopPoints, type GetSelfLoopPointsParams } from './self-loop';
+import { Position, type Rect, type XYPosition } from '../../types';
 
 export interface GetSmoothStepPathParams {
   sourceX: number;
@@ -12,6 +13,10 @@ export interface GetSmoothStepPathParams {
   centerX?: number;
   centerY?: number;
   offset?: number;
+  /** Moves the middle segment of the path by this distance to separate it from parallel edges */
+  parallelOffset?: number;
+  /** The rect of the node, if source and target are the same node. The path is drawn as a loop around it */
+  selfLoopRect?: Rect;
 }
 
 const handleDirections = {
@@ -49,6 +54,7 @@ function getPoints({
   targetPosition = Position.Top,
   center,
   offset,
+  parallelOffset,
 }: {
   source: XYPosition;
   sourcePosition: Position;
@@ -56,6 +62,7 @@ function getPoints({
   targetPosition: Position;
   center: Partial<XYPosition>;
   offset: number;
+  parallelOffset: number;
 }): [XYPosition[], number, number, number, number] {
   const sourceDir = handleDirections[sourcePosition];
   const targetDir = handleDirections[targetPosition];
@@ -83,8 +90,10 @@ function getPoints({
 
   // opposite handle positions, default case
   if (sourceDir[dirAccessor] * targetDir[dirAccessor] === -1) {
-    centerX = center.x ?? defaultCenterX;
-    centerY = center.y ?? defaultCenterY;
+    const isVerticalSplit = (sourceDir[dirAccessor] === currDir) === (dirAccessor === 'x');
+    // parallel edges are separated by moving the middle segment
+    centerX = (center.x ?? defaultCenterX) + (isVerticalSplit ? parallelOffset : 0);
+    centerY = (center.y ?? defaultCenterY) + (isVerticalSplit ? 0 : parallelOffset);
     /*
      *    --->
      *    |
@@ -104,11 +113,7 @@ function getPoints({
       { x: targetGapped.x, y: centerY },
     ];
 
-    if (sourceDir[dirAccessor] === currDir) {
-      points = dirAccessor === 'x' ? verticalSplit : horizontalSplit;
-    } else {
-      points = dirAccessor === 'x' ? horizontalSplit : verticalSplit;
-    }
+    points = isVerticalSplit ? verticalSplit : horizontalSplit;
   } else {
     // sourceTarget means we take x from source and y from target, targetSource is the opposite
     const sourceTarget: XYPosition[] = [{ x: sourceGapped.x, y: targetGapped.y }];
@@ -175,7 +180,17 @@ function getPoints({
   return [pathPoints, centerX, centerY, defaultOffsetX, defaultOffsetY];
 }
 
-function getBend(a: XYPosition, b: XYPosition, c: XYPosition, size: number): string {
+function getSelfLoopStepPoints(params: GetSelfLoopPointsParams): [XYPosition[], number, number, number, number] {
+  const [points, labelX, labelY] = getSelfLoopPoints(params);
+
+  return [points, labelX, labelY, Math.abs(labelX - params.sourceX), Math.abs(labelY - params.sourceY)];
+}
+
+/**
+ * Returns the path segment for the corner point b, rounded by the given size.
+ * @internal
+ */
+export function getBend(a: XYPosition, b: XYPosition, c: XYPosition, size: number): string {
   const bendSize = Math.min(distance(a, b) / 2, distance(b, c) / 2, size);
   const { x, y } = b;
 
@@ -207,6 +222,8 @@ function getBend(a: XYPosition, b: XYPosition, c: XYPosition, size: number): str
  * @param params.targetX - The x position of the target handle
  * @param params.targetY - The y position of the target handle
  * @param params.targetPosition - The position of the target handle (default: Position.Top)
+ * @param params.parallelOffset - Moves the middle segment of the path to separate it from parallel edges
+ * @param params.selfLoopRect - The rect of the node, if the edge starts and ends at the same node
  * @returns A path string you can use in an SVG, the labelX and labelY position (center of path) and offsetX, offsetY between source handle and label
  * @example
  * ```js
@@ -235,15 +252,31 @@ export function getSmoothStepPath({
   centerX,
   centerY,
   offset = 20,
+  parallelOffset = 0,
+  selfLoopRect,
 }: GetSmoothStepPathParams): [path: string, labelX: number, labelY: number, offsetX: number, offsetY: number] {
-  const [points, labelX, labelY, offsetX, offsetY] = getPoints({
-    source: { x: sourceX, y: sourceY },
-    sourcePosition,
-    target: { x: targetX, y: targetY },
-    targetPosition,
-    center: { x: centerX, y: centerY },
-    offset,
-  });
+  const [points, labelX, labelY, offsetX, offsetY] =
+    selfLoopRect || (sourceX === targetX && sourceY === targetY)
+      ? getSelfLoopStepPoints({
+          sourceX,
+          sourceY,
+          sourcePosition,
+          targetX,
+          targetY,
+          targetPosition,
+          rect: selfLoopRect,
+          offset: parallelOffset,
+          orthogonal: true,
+        })
+      : getPoints({
+          source: { x: sourceX, y: sourceY },
+          sourcePosition,
+          target: { x: targetX, y: targetY },
+          targetPosition,
+          center: { x: centerX, y: centerY },
+          offset,
+          parallelOffset,
+        });
 
   const path = points.reduce<string>((res, p, i) => {
     let segment = '';
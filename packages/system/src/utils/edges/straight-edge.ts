@@ -1,10 +1,21 @@
 import { getEdgeCenter } from './general';
+import { getEdgeNormal } from './parallel-edges';
+import { getSelfLoopPoints } from './self-loop';
+import type { Position, Rect } from '../../types';
 
 export type GetStraightPathParams = {
   sourceX: number;
   sourceY: number;
   targetX: number;
   targetY: number;
+  /** Only used to draw self-loops */
+  sourcePosition?: Position;
+  /** Only used to draw self-loops */
+  targetPosition?: Position;
+  /** Bends the path sideways by this distance to separate it from parallel edges */
+  parallelOffset?: number;
+  /** The rect of the node, if source and target are the same node. The path is drawn as a loop around it */
+  selfLoopRect?: Rect;
 };
 
 /**
@@ -14,6 +25,8 @@ export type GetStraightPathParams = {
  * @param params.sourceY - The y position of the source handle
  * @param params.targetX - The x position of the target handle
  * @param params.targetY - The y position of the target handle
+ * @param params.parallelOffset - Bends the path sideways to separate it from parallel edges
+ * @param params.selfLoopRect - The rect of the node, if the edge starts and ends at the same node
  * @returns A path string you can use in an SVG, the labelX and labelY position (center of path) and offsetX, offsetY between source handle and label
  * @example
  * ```js
@@ -36,13 +49,50 @@ export function getStraightPath({
   sourceY,
   targetX,
   targetY,
+  sourcePosition,
+  targetPosition,
+  parallelOffset = 0,
+  selfLoopRect,
 }: GetStraightPathParams): [path: string, labelX: number, labelY: number, offsetX: number, offsetY: number] {
-  const [labelX, labelY, offsetX, offsetY] = getEdgeCenter({
+  if (selfLoopRect || (sourceX === targetX && sourceY === targetY)) {
+    const [points, labelX, labelY] = getSelfLoopPoints({
+      sourceX,
+      sourceY,
+      sourcePosition,
+      targetX,
+      targetY,
+      targetPosition,
+      rect: selfLoopRect,
+      offset: parallelOffset,
+    });
+    const path = points.reduce((res, p, i) => `${res}${i === 0 ? 'M' : 'L'} ${p.x},${p.y}`, '');
+
+    return [path, labelX, labelY, Math.abs(labelX - sourceX), Math.abs(labelY - sourceY)];
+  }
+
+  const [centerX, centerY, offsetX, offsetY] = getEdgeCenter({
     sourceX,
     sourceY,
     targetX,
     targetY,
   });
 
-  return [`M ${sourceX},${sourceY}L ${targetX},${targetY}`, labelX, labelY, offsetX, offsetY];
+  if (parallelOffset === 0) {
+    return [`M ${sourceX},${sourceY}L ${targetX},${targetY}`, centerX, centerY, offsetX, offsetY];
+  }
+
+  // a quadratic curve reaches half the distance to its control point, so the label sits exactly on the path
+  const [normalX, normalY] = getEdgeNormal(sourceX, sourceY, targetX, targetY);
+  const controlX = centerX + normalX * parallelOffset * 2;
+  const controlY = centerY + normalY * parallelOffset * 2;
+  const labelX = centerX + normalX * parallelOffset;
+  const labelY = centerY + normalY * parallelOffset;
+
+  return [
+    `M ${sourceX},${sourceY}Q ${controlX},${controlY} ${targetX},${targetY}`,
+    labelX,
+    labelY,
+    Math.abs(labelX - sourceX),
+    Math.abs(labelY - sourceY),
+  ];
 }
@@ -0,0 +1,115 @@
+import type { WaypointCurve, XYPosition } from '../../types';
+
+export type GetWaypointPathParams = {
+  sourceX: number;
+  sourceY: number;
+  targetX: number;
+  targetY: number;
+  /** The points the path passes through between the source and the target */
+  waypoints?: XYPosition[];
+  /** 'polyline' connects the points with straight lines, 'spline' with a smooth curve */
+  curve?: WaypointCurve;
+};
+
+/*
+ * Returns the control points of the cubic bezier between points[index] and points[index + 1],
+ * so that all segments form a Catmull-Rom spline through the points.
+ */
+function getSplineControlPoints(points: XYPosition[], index: number): [XYPosition, XYPosition] {
+  const p0 = points[index - 1] ?? points[index];
+  const p1 = points[index];
+  const p2 = points[index + 1];
+  const p3 = points[index + 2] ?? p2;
+
+  return [
+    { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+    { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+  ];
+}
+
+function getPointOnSegment(points: XYPosition[], index: number, t: number, curve: WaypointCurve): XYPosition {
+  const a = points[index];
+  const b = points[index + 1];
+
+  if (curve === 'polyline') {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  }
+
+  const [c1, c2] = getSplineControlPoints(points, index);
+  const mt = 1 - t;
+
+  return {
+    x: mt * mt * mt * a.x + 3 * mt * mt * t * c1.x + 3 * mt * t * t * c2.x + t * t * t * b.x,
+    y: mt * mt * mt * a.y + 3 * mt * mt * t * c1.y + 3 * mt * t * t * c2.y + t * t * t * b.y,
+  };
+}
+
+/*
+ * Returns the point in the middle of the path. For splines we use the length of the polyline
+ * as an approximation of the curve length.
+ */
+function getLabelPosition(points: XYPosition[], curve: WaypointCurve): XYPosition {
+  const lengths = points
+    .slice(1)
+    .map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let index = 0; index < lengths.length; index++) {
+    if (remaining <= lengths[index] && lengths[index] > 0) {
+      return getPointOnSegment(points, index, remaining / lengths[index], curve);
+    }
+
+    remaining -= lengths[index];
+  }
+
+  return points[0];
+}
+
+/**
+ * The `getWaypointPath` util returns a path from the source to the target that passes through
+ * the given waypoints, either with straight lines or as a smooth spline.
+ * @public
+ * @param params.sourceX - The x position of the source handle
+ * @param params.sourceY - The y position of the source handle
+ * @param params.targetX - The x position of the target handle
+ * @param params.targetY - The y position of the target handle
+ * @param params.waypoints - The points the path passes through
+ * @param params.curve - 'polyline' (default) or 'spline'
+ * @returns A path string you can use in an SVG, the labelX and labelY position (center of path) and offsetX, offsetY between source handle and label
+ * @example
+ * ```js
+ *  const [path, labelX, labelY] = getWaypointPath({
+ *    sourceX: 0,
+ *    sourceY: 20,
+ *    targetX: 150,
+ *    targetY: 100,
+ *    waypoints: [{ x: 100, y: 20 }],
+ *    curve: 'spline',
+ *  });
+ * ```
+ * @remarks This function returns a tuple (aka a fixed-size array) to make it easier to work with multiple edge paths at once.
+ */
+export function getWaypointPath({
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  waypoints = [],
+  curve = 'polyline',
+}: GetWaypointPathParams): [path: string, labelX: number, labelY: number, offsetX: number, offsetY: number] {
+  const points = [{ x: sourceX, y: sourceY }, ...waypoints, { x: targetX, y: targetY }];
+
+  const path = points.slice(1).reduce((res, point, index) => {
+    if (curve === 'polyline') {
+      return `${res}L ${point.x},${point.y}`;
+    }
+
+    const [c1, c2] = getSplineControlPoints(points, index);
+
+    return `${res}C ${c1.x},${c1.y} ${c2.x},${c2.y} ${point.x},${point.y}`;
+  }, `M ${sourceX},${sourceY}`);
+
+  const { x: labelX, y: labelY } = getLabelPosition(points, curve);
+
+  return [path, labelX, labelY, Math.abs(labelX - sourceX), Math.abs(labelY - sourceY)];
+}
@@ -0,0 +1,287 @@
+import type { EdgeBase, NodeBase, Viewport } from '../types';
+
+export type FlowDocument<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase> = {
+  nodes: NodeType[];
+  edges: EdgeType[];
+  viewport?: Viewport;
+  /** The schema version of the document. Documents without a version are treated as version 0 */
+  version?: number;
+};
+
+// old documents don't need to match the current types, that's why migrations work with untyped documents
+export type UntypedFlowDocument = Record<string, unknown>;
+
+/**
+ * A migration receives a document of the previous version and returns the document of the version
+ * it is registered for.
+ */
+export type FlowMigration = (document: UntypedFlowDocument) => UntypedFlowDocument;
+
+/** Maps the version a migration produces to the migration */
+export type FlowMigrations = Record<number, FlowMigration>;
+
+export type FlowDocumentErrorCode =
+  | 'invalid-document'
+  | 'invalid-viewport'
+  | 'unsupported-version'
+  | 'missing-migration'
+  | 'migration-failed'
+  | 'invalid-node'
+  | 'invalid-edge'
+  | 'duplicate-node-id'
+  | 'duplicate-edge-id'
+  | 'missing-parent'
+  | 'parent-cycle'
+  | 'missing-source'
+  | 'missing-target';
+
+export type FlowDocumentError = {
+  code: FlowDocumentErrorCode;
+  message: string;
+  /** The id of the node or edge that caused the error */
+  id?: string;
+};
+
+export type ParseFlowDocumentOptions = {
+  /** The version the document gets migrated to. If it's not set, the document is not migrated */
+  version?: number;
+  migrations?: FlowMigrations;
+};
+
+export type ParseFlowDocumentResult<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase> = {
+  /** The migrated document or null if it is invalid */
+  document: FlowDocument<NodeType, EdgeType> | null;
+  errors: FlowDocumentError[];
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// NaN and Infinity are numbers as well, but they would break the positions and the viewport
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function getDuplicateIds(items: { id: string }[]): string[] {
+  const ids = new Set<string>();
+  const duplicates = new Set<string>();
+
+  for (const { id } of items) {
+    if (ids.has(id)) {
+      duplicates.add(id);
+    }
+
+    ids.add(id);
+  }
+
+  return [...duplicates];
+}
+
+/**
+ * Checks that the nodes and edges of a document form a valid flow: ids are unique,
+ * positions and the viewport are numbers and all parents, sources and targets exist.
+ * @public
+ * @param document - The document to validate
+ * @returns A list of errors, empty if the document is valid
+ */
+export function validateFlowDocument(document: unknown): FlowDocumentError[] {
+  if (!isObject(document) || !Array.isArray(document.nodes) || !Array.isArray(document.edges)) {
+    return [{ code: 'invalid-document', message: 'The document needs a nodes and an edges array.' }];
+  }
+
+  const errors: FlowDocumentError[] = [];
+  const { viewport } = document;
+
+  if (
+    viewport !== undefined &&
+    !(isObject(viewport) && isFiniteNumber(viewport.x) && isFiniteNumber(viewport.y) && isFiniteNumber(viewport.zoom))
+  ) {
+    errors.push({ code: 'invalid-viewport', message: 'The viewport needs a numeric x, y and zoom.' });
+  }
+
+  const nodes = document.nodes.filter((node, index) => {
+    const isValid =
+      isObject(node) &&
+      typeof node.id === 'string' &&
+      isObject(node.position) &&
+      isFiniteNumber(node.position.x) &&
+      isFiniteNumber(node.position.y);
+
+    if (!isValid) {
+      errors.push({
+        code: 'invalid-node',
+        message: `The node at index ${index} needs an id and a position with a numeric x and y.`,
+      });
+    }
+
+    return isValid;
+  }) as NodeBase[];
+  const edges = document.edges.filter((edge, index) => {
+    const isValid =
+      isObject(edge) &&
+      typeof edge.id === 'string' &&
+      typeof edge.source === 'string' &&
+      typeof edge.target === 'string';
+
+    if (!isValid) {
+      errors.push({ code: 'invalid-edge', message: `The edge at index ${index} needs an id, a source and a target.` });
+    }
+
+    return isValid;
+  }) as EdgeBase[];
+
+  for (const id of getDuplicateIds(nodes)) {
+    errors.push({ code: 'duplicate-node-id', message: `There are multiple nodes with the id "${id}".`, id });
+  }
+
+  for (const id of getDuplicateIds(edges)) {
+    errors.push({ code: 'duplicate-edge-id', message: `There are multiple edges with the id "${id}".`, id });
+  }
+
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  for (const node of nodes) {
+    if (!node.parentId) {
+      continue;
+    }
+
+    if (!nodesById.has(node.parentId)) {
+      errors.push({
+        code: 'missing-parent',
+        message: `The parent "${node.parentId}" of node "${node.id}" does not exist.`,
+        id: node.id,
+      });
+      continue;
+    }
+
+    // we walk up the parents until we reach a root node, if we get back to the node there is a cycle
+    const visited = new Set([node.id]);
+    let parent = nodesById.get(node.parentId);
+
+    while (parent?.parentId && !visited.has(parent.id)) {
+      visited.add(parent.id);
+      parent = nodesById.get(parent.parentId);
+    }
+
+    if (parent && visited.has(parent.id)) {
+      errors.push({ code: 'parent-cycle', message: `The parents of node "${node.id}" form a cycle.`, id: node.id });
+    }
+  }
+
+  for (const edge of edges) {
+    if (!nodesById.has(edge.source)) {
+      errors.push({
+        code: 'missing-source',
+        message: `The source "${edge.source}" of edge "${edge.id}" does not exist.`,
+        id: edge.id,
+      });
+    }
+
+    if (!nodesById.has(edge.target)) {
+      errors.push({
+        code: 'missing-target',
+        message: `The target "${edge.target}" of edge "${edge.id}" does not exist.`,
+        id: edge.id,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Runs the registered migrations, one version after the other, until the document has the given version.
+ * @public
+ * @param document - The document to migrate
+ * @param options.version - The version the document gets migrated to
+ * @param options.migrations - The migrations, keyed by the version they produce
+ * @returns The migrated document and a list of errors, the document is null if the migration failed
+ */
+export function migrateFlowDocument(
+  document: UntypedFlowDocument,
+  { version, migrations = {} }: { version: number; migrations?: FlowMigrations }
+): { document: UntypedFlowDocument | null; errors: FlowDocumentError[] } {
+  const documentVersion = typeof document.version === 'number' ? document.version : 0;
+
+  if (documentVersion > version) {
+    return {
+      document: null,
+      errors: [
+        {
+          code: 'unsupported-version',
+          message: `The document has version ${documentVersion}, but only versions up to ${version} are supported.`,
+        },
+      ],
+    };
+  }
+
+  let migrated = document;
+
+  for (let nextVersion = documentVersion + 1; nextVersion <= version; nextVersion++) {
+    const migrate = migrations[nextVersion];
+
+    if (!migrate) {
+      return {
+        document: null,
+        errors: [{ code: 'missing-migration', message: `There is no migration to version ${nextVersion}.` }],
+      };
+    }
+
+    try {
+      migrated = { ...migrate(migrated), version: nextVersion };
+    } catch (error) {
+      return {
+        document: null,
+        errors: [
+          {
+            code: 'migration-failed',
+            message: `The migration to version ${nextVersion} failed: ${
+              error instanceof Error ? error.message : error
+            }`,
+          },
+        ],
+      };
+    }
+  }
+
+  return { document: migrated, errors: [] };
+}
+
+/**
+ * Migrates a stored document to the current version and validates it afterwards.
+ * Use this before you load nodes, edges and the viewport from an unknown source.
+ * @public
+ * @param document - The stored document, for example the parsed result of `toObject()`
+ * @param options.version - The current version of your documents. If it's not set, the document is not migrated
+ * @param options.migrations - The migrations, keyed by the version they produce
+ * @returns The migrated document or null if it's invalid and a list of errors
+ * @example
+ * ```js
+ *  const { document, errors } = parseFlowDocument(JSON.parse(storedFlow), {
+ *    version: 2,
+ *    migrations: {
+ *      1: (doc) => ({ ...doc, edges: doc.edges ?? [] }),
+ *      2: (doc) => ({ ...doc, nodes: doc.nodes.map((node) => ({ ...node, type: node.kind })) }),
+ *    },
+ *  });
+ * ```
+ */
+export function parseFlowDocument<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase>(
+  document: unknown,
+  { version, migrations }: ParseFlowDocumentOptions = {}
+): ParseFlowDocumentResult<NodeType, EdgeType> {
+  if (!isObject(document)) {
+    return { document: null, errors: [{ code: 'invalid-document', message: 'The document needs to be an object.' }] };
+  }
+
+  const migration =
+    version === undefined ? { document, errors: [] } : migrateFlowDocument(document, { version, migrations });
+
+  if (!migration.document) {
+    return { document: null, errors: migration.errors };
+  }
+
+  const errors = validateFlowDocument(migration.document);
+
+  return {
+    document: errors.length === 0 ? (migration.document as FlowDocument<NodeType, EdgeType>) : null,
+    errors,
+  };
+}
@@ -142,7 +142,57 @@ export const boxToRect = ({ x, y, x2, y2 }: Box): Rect => ({
 });
 
 /**
- * 将节点转换为矩形格式
+ * 围绕中心点顺时针旋转一个点
+ * @param point - 要旋转的点
+ * @param center - 旋转中心
+ * @param rotation - 旋转角度（度）
+ * @returns 旋转后的点
+ */
+export const rotatePoint = (point: XYPosition, center: XYPosition, rotation = 0): XYPosition => {
+  if (!rotation) {
+    return point;
+  }
+
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+};
+
+/**
+ * 获取围绕中心旋转后的矩形的边界矩形
+ * @param rect - 未旋转的矩形
+ * @param rotation - 旋转角度（度）
+ * @returns 包含旋转后矩形的最小矩形
+ */
+export const getRotatedRect = (rect: Rect, rotation = 0): Rect => {
+  if (!rotation) {
+    return rect;
+  }
+
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const width = rect.width * cos + rect.height * sin;
+  const height = rect.width * sin + rect.height * cos;
+
+  // 旋转中心保持不变
+  return {
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * 将节点转换为矩形格式，旋转的节点返回它们的边界矩形
  * @param node - 节点对象
  * @param nodeOrigin - 节点原点，默认为[0, 0]
  * @returns 表示节点的矩形对象
@@ -153,37 +203,27 @@ export const nodeToRect = (node: InternalNodeBase | NodeBase, nodeOrigin: NodeOr
     ? node.internals.positionAbsolute // 如果是内部节点，使用绝对位置
     : getNodePositionWithOrigin(node, nodeOrigin); // 否则，使用基于原点的位置
 
-  return {
-    x, // 矩形左上角x坐标
-    y, // 矩形左上角y坐标
-    // 优先使用测量宽度，然后是指定宽度，再是初始宽度，最后默认为0
-    width: node.measured?.width ?? node.width ?? node.initialWidth ?? 0,
-    // 优先使用测量高度，然后是指定高度，再是初始高度，最后默认为0
-    height: node.measured?.height ?? node.height ?? node.initialHeight ?? 0,
-  };
+  return getRotatedRect(
+    {
+      x, // 矩形左上角x坐标
+      y, // 矩形左上角y坐标
+      // 优先使用测量宽度，然后是指定宽度，再是初始宽度，最后默认为0
+      width: node.measured?.width ?? node.width ?? node.initialWidth ?? 0,
+      // 优先使用测量高度，然后是指定高度，再是初始高度，最后默认为0
+      height: node.measured?.height ?? node.height ?? node.initialHeight ?? 0,
+    },
+    node.rotation
+  );
 };
 
 /**
- * 将节点转换为Box格式
+ * 将节点转换为Box格式，旋转的节点返回它们的边界
  * @param node - 节点对象
  * @param nodeOrigin - 节点原点，默认为[0, 0]
  * @returns 表示节点的Box对象
  */
-export const nodeToBox = (node: InternalNodeBase | NodeBase, nodeOrigin: NodeOrigin = [0, 0]): Box => {
-  // 获取节点的位置坐标
-  const { x, y } = isInternalNodeBase(node)
-    ? node.internals.positionAbsolute // 如果是内部节点，使用绝对位置
-    : getNodePositionWithOrigin(node, nodeOrigin); // 否则，使用基于原点的位置
-
-  return {
-    x, // Box左上角x坐标
-    y, // Box左上角y坐标
-    // 右下角x坐标 = 左上角x + 宽度
-    x2: x + (node.measured?.width ?? node.width ?? node.initialWidth ?? 0),
-    // 右下角y坐标 = 左上角y + 高度
-    y2: y + (node.measured?.height ?? node.height ?? node.initialHeight ?? 0),
-  };
-};
+export const nodeToBox = (node: InternalNodeBase | NodeBase, nodeOrigin: NodeOrigin = [0, 0]): Box =>
+  rectToBox(nodeToRect(node, nodeOrigin));
 
 /**
  * 获取两个矩形的边界范围
@@ -0,0 +1,255 @@
+import type { Connection, ConnectionLookup, HandleConnection } from '../types';
+
+export type GraphDirection = 'outgoing' | 'incoming' | 'both';
+
+export type GraphPath = {
+  /** The ids of the nodes on the path, including the start and the end node */
+  nodeIds: string[];
+  /** The ids of the edges on the path */
+  edgeIds: string[];
+};
+
+type Neighbor = { nodeId: string; edgeId: string };
+
+function getNeighbors(nodeId: string, connectionLookup: ConnectionLookup, direction: GraphDirection): Neighbor[] {
+  const neighbors: Neighbor[] = [];
+  const addNeighbors = (connections: Map<string, HandleConnection> | undefined, key: 'source' | 'target') => {
+    for (const connection of connections?.values() ?? []) {
+      neighbors.push({ nodeId: connection[key], edgeId: connection.edgeId });
+    }
+  };
+
+  // connections of `${nodeId}-source` are the edges where the node is the source
+  if (direction !== 'incoming') {
+    addNeighbors(connectionLookup.get(`${nodeId}-source`), 'target');
+  }
+
+  if (direction !== 'outgoing') {
+    addNeighbors(connectionLookup.get(`${nodeId}-target`), 'source');
+  }
+
+  return neighbors;
+}
+
+function getReachableNodeIds(nodeId: string, connectionLookup: ConnectionLookup, direction: GraphDirection) {
+  const visited = new Set<string>([nodeId]);
+  const queue = [nodeId];
+
+  for (let i = 0; i < queue.length; i++) {
+    for (const neighbor of getNeighbors(queue[i], connectionLookup, direction)) {
+      if (!visited.has(neighbor.nodeId)) {
+        visited.add(neighbor.nodeId);
+        queue.push(neighbor.nodeId);
+      }
+    }
+  }
+
+  return queue;
+}
+
+/**
+ * Returns all nodes that can be reached from the given node by following the edges, not just the direct outgoers.
+ * @public
+ * @param nodeId - The id of the node to start from
+ * @param connectionLookup - The connection lookup of the flow
+ * @returns The ids of the descendants, ordered by their distance to the node
+ * @example
+ * ```js
+ *  const { connectionLookup } = store.getState();
+ *  const downstream = getDescendants('1', connectionLookup);
+ * ```
+ */
+export function getDescendants(nodeId: string, connectionLookup: ConnectionLookup): string[] {
+  return getReachableNodeIds(nodeId, connectionLookup, 'outgoing').slice(1);
+}
+
+/**
+ * Returns all nodes from which the given node can be reached by following the edges, not just the direct incomers.
+ * @public
+ * @param nodeId - The id of the node to start from
+ * @param connectionLookup - The connection lookup of the flow
+ * @returns The ids of the ancestors, ordered by their distance to the node
+ */
+export function getAncestors(nodeId: string, connectionLookup: ConnectionLookup): string[] {
+  return getReachableNodeIds(nodeId, connectionLookup, 'incoming').slice(1);
+}
+
+/**
+ * Sorts the nodes so that every node comes after all nodes it has an incoming edge from.
+ * @public
+ * @param nodeIds - The ids of all nodes that get sorted
+ * @param connectionLookup - The connection lookup of the flow
+ * @returns The sorted node ids or null if the graph contains a cycle
+ */
+export function getTopologicalOrder(nodeIds: Iterable<string>, connectionLookup: ConnectionLookup): string[] | null {
+  const ids = new Set(nodeIds);
+  const inDegrees = new Map<string, number>();
+
+  for (const id of ids) {
+    const incomers = getNeighbors(id, connectionLookup, 'incoming').filter(({ nodeId }) => ids.has(nodeId));
+    inDegrees.set(id, incomers.length);
+  }
+
+  const order = [...ids].filter((id) => inDegrees.get(id) === 0);
+
+  for (let i = 0; i < order.length; i++) {
+    for (const { nodeId } of getNeighbors(order[i], connectionLookup, 'outgoing')) {
+      const inDegree = inDegrees.get(nodeId);
+
+      if (inDegree === undefined) {
+        continue;
+      }
+
+      inDegrees.set(nodeId, inDegree - 1);
+
+      if (inDegree === 1) {
+        order.push(nodeId);
+      }
+    }
+  }
+
+  // nodes that are part of a cycle never reach an in-degree of zero
+  return order.length === ids.size ? order : null;
+}
+
+/**
+ * Searches for a cycle in the graph.
+ * @public
+ * @param nodeIds - The ids of all nodes that get searched
+ * @param connectionLookup - The connection lookup of the flow
+ * @returns The ids of the nodes that form a cycle, in the order of the edges, or null if there is no cycle
+ */
+export function findCycle(nodeIds: Iterable<string>, connectionLookup: ConnectionLookup): string[] | null {
+  const ids = new Set(nodeIds);
+  // nodes on the current path are 'active', nodes whose descendants are all visited are 'done'
+  const states = new Map<string, 'active' | 'done'>();
+
+  for (const startId of ids) {
+    if (states.has(startId)) {
+      continue;
+    }
+
+    const path: { nodeId: string; neighbors: Neighbor[]; index: number }[] = [];
+    const enter = (nodeId: string) => {
+      states.set(nodeId, 'active');
+      path.push({ nodeId, neighbors: getNeighbors(nodeId, connectionLookup, 'outgoing'), index: 0 });
+    };
+
+    enter(startId);
+
+    while (path.length > 0) {
+      const current = path[path.length - 1];
+      const neighbor = current.neighbors[current.index++];
+
+      if (!neighbor) {
+        states.set(current.nodeId, 'done');
+        path.pop();
+        continue;
+      }
+
+      if (!ids.has(neighbor.nodeId)) {
+        continue;
+      }
+
+      const state = states.get(neighbor.nodeId);
+
+      if (state === 'active') {
+        const cycleStart = path.findIndex((item) => item.nodeId === neighbor.nodeId);
+        return path.slice(cycleStart).map((item) => item.nodeId);
+      }
+
+      if (!state) {
+        enter(neighbor.nodeId);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks if adding the given connection would create a cycle. You can use this in `isValidConnection`
+ * to only allow acyclic flows.
+ * @public
+ * @param connection - The connection that would be added
+ * @param connectionLookup - The connection lookup of the flow
+ * @returns true if the target can already reach the source
+ */
+export function isCreatingCycle(
+  connection: Pick<Connection, 'source' | 'target'>,
+  connectionLookup: ConnectionLookup
+): boolean {
+  return (
+    connection.source === connection.target ||
+    getDescendants(connection.target, connectionLookup).includes(connection.source)
+  );
+}
+
+/**
+ * Groups the nodes into components whose nodes are connected by edges, ignoring the edge direction.
+ * @public
+ * @param nodeIds - The ids of all nodes that get grouped
+ * @param connectionLookup - The connection lookup of the flow
+ * @returns A list of components, each one is a list of node ids
+ */
+export function getConnectedComponents(nodeIds: Iterable<string>, connectionLookup: ConnectionLookup): string[][] {
+  const ids = new Set(nodeIds);
+  const visited = new Set<string>();
+  const components: string[][] = [];
+
+  for (const id of ids) {
+    if (visited.has(id)) {
+      continue;
+    }
+
+    const component = getReachableNodeIds(id, connectionLookup, 'both').filter((nodeId) => ids.has(nodeId));
+    component.forEach((nodeId) => visited.add(nodeId));
+    components.push(component);
+  }
+
+  return components;
+}
+
+/**
+ * Returns the path with the least edges between two nodes.
+ * @public
+ * @param sourceId - The id of the node the path starts at
+ * @param targetId - The id of the node the path ends at
+ * @param connectionLookup - The connection lookup of the flow
+ * @param direction - 'outgoing' follows the edges, 'incoming' goes against them and 'both' ignores the direction (default: 'outgoing')
+ * @returns The nodes and edges of the path or null if there is no path
+ */
+export function getShortestPath(
+  sourceId: string,
+  targetId: string,
+  connectionLookup: ConnectionLookup,
+  direction: GraphDirection = 'outgoing'
+): GraphPath | null {
+  // for every visited node we remember how we got there, so that we can walk back from the target
+  const previous = new Map<string, Neighbor | null>([[sourceId, null]]);
+  const queue = [sourceId];
+
+  for (let i = 0; i < queue.length && !previous.has(targetId); i++) {
+    for (const neighbor of getNeighbors(queue[i], connectionLookup, direction)) {
+      if (!previous.has(neighbor.nodeId)) {
+        previous.set(neighbor.nodeId, { nodeId: queue[i], edgeId: neighbor.edgeId });
+        queue.push(neighbor.nodeId);
+      }
+    }
+  }
+
+  if (!previous.has(targetId)) {
+    return null;
+  }
+
+  const path: GraphPath = { nodeIds: [targetId], edgeIds: [] };
+  let step = previous.get(targetId);
+
+  while (step) {
+    path.nodeIds.unshift(step.nodeId);
+    path.edgeIds.unshift(step.edgeId);
+    step = previous.get(step.nodeId);
+  }
+
+  return path;
+}
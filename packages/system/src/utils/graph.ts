@@ -28,6 +28,7 @@ import {
   NodeDragItem,
 } from '../types';
 import { errorMessages } from '../constants';
+import type { SpatialIndex } from './spatial-index';
 
 /**
  * 测试一个对象是否可用作Edge
@@ -273,6 +274,7 @@ export const getInternalNodesBounds = <NodeType extends InternalNodeBase | NodeD
  * @param transform - 画布的变换[x偏移, y偏移, 缩放比例]
  * @param partially - 如果设为true，则部分在区域内的节点也会被包含
  * @param excludeNonSelectableNodes - 是否排除不可选择的节点
+ * @param spatialIndex - 如果传入，只检查空间索引返回的候选节点，而不是遍历所有节点
  * @returns 在指定区域内的节点数组
  */
 export const getNodesInside = <NodeType extends NodeBase = NodeBase>(
@@ -281,7 +283,8 @@ export const getNodesInside = <NodeType extends NodeBase = NodeBase>(
   [tx, ty, tScale]: Transform = [0, 0, 1],
   partially = false,
   // 如果你想关注节点的"selectable"属性，请设置excludeNonSelectableNodes
-  excludeNonSelectableNodes = false
+  excludeNonSelectableNodes = false,
+  spatialIndex?: SpatialIndex
 ): InternalNodeBase<NodeType>[] => {
   const paneRect = {
     ...pointToRendererPoint(rect, [tx, ty, tScale]),
@@ -290,8 +293,13 @@ export const getNodesInside = <NodeType extends NodeBase = NodeBase>(
   };
 
   const visibleNodes: InternalNodeBase<NodeType>[] = [];
+  const candidates = spatialIndex ? spatialIndex.search(paneRect).map((id) => nodes.get(id)) : nodes.values();
+
+  for (const node of candidates) {
+    if (!node) {
+      continue;
+    }
 
-  for (const node of nodes.values()) {
     const { measured, selectable = true, hidden = false } = node;
 
     if ((excludeNonSelectableNodes && !selectable) || hidden) {
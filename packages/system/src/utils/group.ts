@@ -0,0 +1,192 @@
+import type { InternalNodeBase, NodeBase, NodeLookup, NodeOrigin, XYPosition } from '../types';
+import { boxToRect, getBoundsOfBoxes, getNodeDimensions, nodeToBox } from './general';
+
+export type GetGroupedNodesParams<NodeType extends NodeBase = NodeBase> = {
+  /** All nodes of the flow */
+  nodes: NodeType[];
+  /** The ids of the nodes that get grouped */
+  nodeIds: string[];
+  /** Used to read the absolute positions and measured dimensions of the nodes */
+  nodeLookup: NodeLookup<InternalNodeBase<NodeType>>;
+  /** The group node gets created from this template, its position and size are calculated */
+  groupNode?: Partial<NodeType>;
+  /** The distance between the border of the group node and the grouped nodes */
+  padding?: number;
+  nodeOrigin?: NodeOrigin;
+};
+
+export type GetUngroupedNodesParams<NodeType extends NodeBase = NodeBase> = {
+  /** All nodes of the flow */
+  nodes: NodeType[];
+  /** The id of the group node that gets removed */
+  groupId: string;
+  /** Used to read the absolute positions and measured dimensions of the nodes */
+  nodeLookup: NodeLookup<InternalNodeBase<NodeType>>;
+  nodeOrigin?: NodeOrigin;
+};
+
+/*
+ * Converts the absolute top left corner of a node to its position, which is relative
+ * to the parent and depends on the origin of the node.
+ */
+function getRelativePosition(
+  absolutePosition: XYPosition,
+  { width, height }: { width: number; height: number },
+  origin: NodeOrigin,
+  parent?: InternalNodeBase
+): XYPosition {
+  const parentPosition = parent?.internals.positionAbsolute ?? { x: 0, y: 0 };
+
+  return {
+    x: absolutePosition.x - parentPosition.x + width * origin[0],
+    y: absolutePosition.y - parentPosition.y + height * origin[1],
+  };
+}
+
+/**
+ * Creates a group node around the given nodes and makes it their parent. The grouped nodes keep
+ * their absolute positions. Nodes whose ancestor gets grouped as well keep their parent.
+ * @public
+ * @param params.nodes - All nodes of the flow
+ * @param params.nodeIds - The ids of the nodes that get grouped
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.groupNode - The template for the group node (default: `{ type: 'group' }` with a generated id)
+ * @param params.padding - The distance between the border of the group node and the grouped nodes (default: 20)
+ * @param params.nodeOrigin - The node origin of the flow
+ * @returns The next nodes of the flow and the created group node or null if there is nothing to group
+ */
+export function getGroupedNodes<NodeType extends NodeBase = NodeBase>({
+  nodes,
+  nodeIds,
+  nodeLookup,
+  groupNode: groupNodeTemplate = {},
+  padding = 20,
+  nodeOrigin = [0, 0],
+}: GetGroupedNodesParams<NodeType>): { nodes: NodeType[]; groupNode: NodeType } | null {
+  const ids = new Set(nodeIds);
+  const groupedNodes = nodeIds
+    .map((id) => nodeLookup.get(id))
+    .filter((node): node is InternalNodeBase<NodeType> => {
+      let parentId = node?.parentId;
+
+      while (parentId && !ids.has(parentId)) {
+        parentId = nodeLookup.get(parentId)?.parentId;
+      }
+
+      return !!node && !parentId;
+    });
+
+  if (groupedNodes.length === 0) {
+    return null;
+  }
+
+  const bounds = boxToRect(
+    groupedNodes.reduce((box, node) => getBoundsOfBoxes(box, nodeToBox(node)), {
+      x: Infinity,
+      y: Infinity,
+      x2: -Infinity,
+      y2: -Infinity,
+    })
+  );
+  const groupPosition = { x: bounds.x - padding, y: bounds.y - padding };
+  const groupSize = { width: bounds.width + padding * 2, height: bounds.height + padding * 2 };
+
+  // the group stays inside the parent of the grouped nodes, if they all have the same one
+  const parentId = groupedNodes.every((node) => node.parentId === groupedNodes[0].parentId)
+    ? groupedNodes[0].parentId
+    : undefined;
+  const groupId = groupNodeTemplate.id ?? `group-${Math.random().toString(36).slice(2, 8)}`;
+
+  const groupNode = {
+    type: 'group',
+    data: {},
+    ...groupNodeTemplate,
+    id: groupId,
+    ...(parentId ? { parentId } : {}),
+    position: getRelativePosition(
+      groupPosition,
+      groupSize,
+      groupNodeTemplate.origin ?? nodeOrigin,
+      parentId ? nodeLookup.get(parentId) : undefined
+    ),
+    ...groupSize,
+  } as NodeType;
+
+  const groupedIds = new Set(groupedNodes.map((node) => node.id));
+  const groupIndex = nodes.findIndex((node) => groupedIds.has(node.id));
+  const groupInternalNode = { internals: { positionAbsolute: groupPosition } } as InternalNodeBase;
+
+  const nextNodes = nodes.map((node) => {
+    if (!groupedIds.has(node.id)) {
+      return node;
+    }
+
+    const internalNode = nodeLookup.get(node.id)!;
+
+    return {
+      ...node,
+      parentId: groupId,
+      position: getRelativePosition(
+        internalNode.internals.positionAbsolute,
+        getNodeDimensions(internalNode),
+        node.origin ?? nodeOrigin,
+        groupInternalNode
+      ),
+    };
+  });
+
+  // parent nodes need to come before their child nodes
+  nextNodes.splice(groupIndex, 0, groupNode);
+
+  return { nodes: nextNodes, groupNode };
+}
+
+/**
+ * Removes a group node and moves its child nodes to the parent of the group. The child nodes
+ * keep their absolute positions.
+ * @public
+ * @param params.nodes - All nodes of the flow
+ * @param params.groupId - The id of the group node that gets removed
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.nodeOrigin - The node origin of the flow
+ * @returns The next nodes of the flow or null if the group node doesn't exist
+ */
+export function getUngroupedNodes<NodeType extends NodeBase = NodeBase>({
+  nodes,
+  groupId,
+  nodeLookup,
+  nodeOrigin = [0, 0],
+}: GetUngroupedNodesParams<NodeType>): NodeType[] | null {
+  const groupNode = nodeLookup.get(groupId);
+
+  if (!groupNode) {
+    return null;
+  }
+
+  const parent = groupNode.parentId ? nodeLookup.get(groupNode.parentId) : undefined;
+
+  return nodes
+    .filter((node) => node.id !== groupId)
+    .map((node) => {
+      if (node.parentId !== groupId) {
+        return node;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { parentId, extent, ...childNode } = node;
+      const internalNode = nodeLookup.get(node.id)!;
+
+      return {
+        ...childNode,
+        // without a parent, there is no parent extent
+        ...(extent && (extent !== 'parent' || parent) ? { extent } : {}),
+        ...(parent ? { parentId: parent.id } : {}),
+        position: getRelativePosition(
+          internalNode.internals.positionAbsolute,
+          getNodeDimensions(internalNode),
+          node.origin ?? nodeOrigin,
+          parent
+        ),
+      } as NodeType;
+    });
+}
@@ -0,0 +1,172 @@
+import type { InternalNodeBase, NodeLookup, Rect, XYPosition } from '../types';
+import { getOverlappingArea, nodeToRect } from './general';
+import type { SpatialIndex } from './spatial-index';
+
+export type HelperLine = {
+  /** Vertical lines have a fixed x coordinate, horizontal lines a fixed y coordinate */
+  orientation: 'horizontal' | 'vertical';
+  /** The x coordinate of a vertical line or the y coordinate of a horizontal line */
+  position: number;
+  /** The coordinate on the other axis where the line starts */
+  start: number;
+  /** The coordinate on the other axis where the line ends */
+  end: number;
+};
+
+export type SnapRectToNodesParams = {
+  /** The bounds of the dragged nodes */
+  rect: Rect;
+  nodeLookup: NodeLookup;
+  /** The ids of the dragged nodes, these nodes and their children are ignored */
+  draggedNodeIds: ReadonlySet<string>;
+  /** The maximum distance in flow coordinates that the rect gets moved by */
+  threshold: number;
+  /** Only nodes that overlap this area are used, for example the visible part of the flow */
+  searchRect?: Rect;
+  /** Used to find the nodes inside the search rect without checking all nodes */
+  spatialIndex?: SpatialIndex;
+};
+
+export type SnapRectToNodesResult = {
+  /** The distance the rect needs to be moved by to be aligned with the nearby nodes */
+  snapOffset: XYPosition;
+  helperLines: HelperLine[];
+};
+
+// the start, center and end of a rect on one axis
+const getAnchors = (start: number, size: number) => [start, start + size / 2, start + size];
+
+// snapped anchors are calculated by adding the offset, so they can differ by rounding errors
+const isAligned = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+/**
+ * Returns true if the node or one of its ancestors gets dragged.
+ * @internal
+ */
+export function isDraggedNode(
+  node: InternalNodeBase,
+  draggedNodeIds: ReadonlySet<string>,
+  nodeLookup: NodeLookup
+): boolean {
+  let current: InternalNodeBase | undefined = node;
+
+  while (current) {
+    if (draggedNodeIds.has(current.id)) {
+      return true;
+    }
+
+    current = current.parentId ? nodeLookup.get(current.parentId) : undefined;
+  }
+
+  return false;
+}
+
+function getSnapDelta(anchors: number[], targets: number[][], threshold: number): number | null {
+  let snapDelta: number | null = null;
+
+  for (const targetAnchors of targets) {
+    for (const anchor of anchors) {
+      for (const target of targetAnchors) {
+        const delta = target - anchor;
+
+        if (Math.abs(delta) <= threshold && (snapDelta === null || Math.abs(delta) < Math.abs(snapDelta))) {
+          snapDelta = delta;
+        }
+      }
+    }
+  }
+
+  return snapDelta;
+}
+
+function getHelperLines(orientation: HelperLine['orientation'], rect: Rect, nodeRects: Rect[]): HelperLine[] {
+  const isVertical = orientation === 'vertical';
+  const getStart = (r: Rect) => (isVertical ? r.y : r.x);
+  const getEnd = (r: Rect) => (isVertical ? r.y + r.height : r.x + r.width);
+  const anchors = isVertical ? getAnchors(rect.x, rect.width) : getAnchors(rect.y, rect.height);
+  const helperLines: HelperLine[] = [];
+
+  for (const position of anchors) {
+    const alignedRects = nodeRects.filter((nodeRect) =>
+      (isVertical ? getAnchors(nodeRect.x, nodeRect.width) : getAnchors(nodeRect.y, nodeRect.height)).some((anchor) =>
+        isAligned(anchor, position)
+      )
+    );
+
+    if (alignedRects.length > 0) {
+      helperLines.push({
+        orientation,
+        position,
+        start: Math.min(getStart(rect), ...alignedRects.map(getStart)),
+        end: Math.max(getEnd(rect), ...alignedRects.map(getEnd)),
+      });
+    }
+  }
+
+  return helperLines;
+}
+
+/**
+ * Aligns the edges and centers of a rect with the edges and centers of the nearby nodes.
+ * The rect snaps on each axis to the closest node within the threshold.
+ * @public
+ * @param params.rect - The bounds of the dragged nodes
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.draggedNodeIds - The ids of the dragged nodes
+ * @param params.threshold - The maximum snap distance in flow coordinates
+ * @param params.searchRect - Only nodes that overlap this area are used
+ * @param params.spatialIndex - The spatial index of the nodes
+ * @returns The offset the rect needs to be moved by and the helper lines that show the alignment
+ */
+export function snapRectToNodes({
+  rect,
+  nodeLookup,
+  draggedNodeIds,
+  threshold,
+  searchRect,
+  spatialIndex,
+}: SnapRectToNodesParams): SnapRectToNodesResult {
+  const candidates =
+    spatialIndex && searchRect ? spatialIndex.search(searchRect).map((id) => nodeLookup.get(id)) : nodeLookup.values();
+  const nodeRects: Rect[] = [];
+
+  for (const node of candidates) {
+    if (
+      !node ||
+      node.hidden ||
+      !node.measured.width ||
+      !node.measured.height ||
+      isDraggedNode(node, draggedNodeIds, nodeLookup)
+    ) {
+      continue;
+    }
+
+    const nodeRect = nodeToRect(node);
+
+    if (!searchRect || getOverlappingArea(searchRect, nodeRect) > 0) {
+      nodeRects.push(nodeRect);
+    }
+  }
+
+  const snapX = getSnapDelta(
+    getAnchors(rect.x, rect.width),
+    nodeRects.map((nodeRect) => getAnchors(nodeRect.x, nodeRect.width)),
+    threshold
+  );
+  const snapY = getSnapDelta(
+    getAnchors(rect.y, rect.height),
+    nodeRects.map((nodeRect) => getAnchors(nodeRect.y, nodeRect.height)),
+    threshold
+  );
+
+  const snapOffset = { x: snapX ?? 0, y: snapY ?? 0 };
+  const snappedRect = { ...rect, x: rect.x + snapOffset.x, y: rect.y + snapOffset.y };
+
+  return {
+    snapOffset,
+    helperLines: [
+      ...(snapX === null ? [] : getHelperLines('vertical', snappedRect, nodeRects)),
+      ...(snapY === null ? [] : getHelperLines('horizontal', snappedRect, nodeRects)),
+    ],
+  };
+}
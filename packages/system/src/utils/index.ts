@@ -8,3 +8,17 @@ export * from './node-toolbar';
 export * from './store';
 export * from './types';
 export * from './shallow-node-data';
+export * from './layout';
+export * from './spatial-index';
+export * from './clipboard';
+export * from './flow-document';
+export * from './graph-algorithms';
+export * from './helper-lines';
+export * from './arrange';
+export * from './group';
+export * from './reparent';
+export * from './collapse';
+export * from './lasso';
+export * from './collision';
+export * from './navigation';
+export * from './keymap';
@@ -0,0 +1,161 @@
+import type { KeyCode } from '../types';
+
+/**
+ * The built-in keyboard actions.
+ * @public
+ */
+export type KeymapAction =
+  | 'delete'
+  | 'duplicate'
+  | 'selectAll'
+  | 'deselect'
+  | 'select'
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'moveUpFast'
+  | 'moveDownFast'
+  | 'moveLeftFast'
+  | 'moveRightFast'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'fitView'
+  | 'panUp'
+  | 'panDown'
+  | 'panLeft'
+  | 'panRight'
+  | 'focusEdges'
+  | 'focusNode';
+
+/**
+ * Maps actions to key combinations like `'Shift+ArrowUp'`. `null` disables an action, actions that aren't set
+ * use their default keys. Custom actions can be added by their name.
+ * @public
+ */
+export type Keymap = { [action in KeymapAction]?: KeyCode | null } & { [action: string]: KeyCode | null | undefined };
+
+/**
+ * Handles a custom action or overwrites a built-in one.
+ * @public
+ */
+export type KeymapActionHandler = (event: KeyboardEvent) => void;
+
+export type KeymapActions = Record<string, KeymapActionHandler>;
+
+const modifierKeys = ['Shift', 'Control', 'Meta', 'Alt'] as const;
+
+/*
+ * Duplicate, select all, deselect and the viewport actions aren't bound by default, because the keys are often used
+ * by the app or the browser itself. The arrow keys move the selected nodes only while a node or the nodes selection is focused.
+ */
+export const defaultKeymap: Record<KeymapAction, KeyCode | null> = {
+  delete: 'Backspace',
+  duplicate: null,
+  selectAll: null,
+  deselect: null,
+  select: ['Enter', ' '],
+  moveUp: 'ArrowUp',
+  moveDown: 'ArrowDown',
+  moveLeft: 'ArrowLeft',
+  moveRight: 'ArrowRight',
+  moveUpFast: 'Shift+ArrowUp',
+  moveDownFast: 'Shift+ArrowDown',
+  moveLeftFast: 'Shift+ArrowLeft',
+  moveRightFast: 'Shift+ArrowRight',
+  zoomIn: null,
+  zoomOut: null,
+  fitView: null,
+  panUp: null,
+  panDown: null,
+  panLeft: null,
+  panRight: null,
+  focusEdges: 'e',
+  focusNode: 'n',
+};
+
+/**
+ * Focused nodes and edges get unselected with escape as long as the deselect action isn't set in the keymap.
+ * @param keymap - The keymap of the flow
+ * @returns The keymap for the key events of focused elements
+ */
+export function getElementKeymap(keymap: Keymap): Keymap {
+  return keymap.deselect === undefined ? { ...keymap, deselect: 'Escape' } : keymap;
+}
+
+// a '+' at the end is the plus key, so that combinations like 'Control++' are supported
+function splitKeyCombo(keyCombo: string): string[] {
+  return keyCombo.split(/\+(?!$)/);
+}
+
+/**
+ * Checks if a key combination like `'Shift+ArrowUp'` is pressed. The modifier keys need to match exactly,
+ * so `'ArrowUp'` doesn't match when shift is pressed as well.
+ * @public
+ * @param event - The keyboard event
+ * @param keyCode - A key combination or an array of alternative key combinations
+ * @returns true if one of the key combinations is pressed
+ */
+export function isKeyComboPressed(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey'>,
+  keyCode: KeyCode | null
+): boolean {
+  if (keyCode === null) {
+    return false;
+  }
+
+  const pressedModifiers = {
+    Shift: event.shiftKey,
+    Control: event.ctrlKey,
+    Meta: event.metaKey,
+    Alt: event.altKey,
+  };
+
+  return (Array.isArray(keyCode) ? keyCode : [keyCode]).some((keyCombo) => {
+    const keys = splitKeyCombo(keyCombo);
+    const key = keys.filter((k) => !(modifierKeys as readonly string[]).includes(k)).pop();
+    const isKeyPressed =
+      key === undefined ||
+      key === event.code ||
+      key === event.key ||
+      (key.length === 1 && key.toLowerCase() === event.key.toLowerCase());
+
+    if (!isKeyPressed) {
+      return false;
+    }
+
+    return modifierKeys.every((modifier) => {
+      // characters like '+' need shift on some keyboard layouts, so shift only matters if it's part of the combination
+      if (
+        modifier === 'Shift' &&
+        key?.length === 1 &&
+        key.toLowerCase() === key.toUpperCase() &&
+        !keys.includes(modifier)
+      ) {
+        return true;
+      }
+
+      return keys.includes(modifier) === pressedModifiers[modifier];
+    });
+  });
+}
+
+/**
+ * Returns the first action whose keys are pressed.
+ * @public
+ * @param event - The keyboard event
+ * @param keymap - The keys of the actions, the built-in actions that aren't set use their default keys
+ * @param actions - The names of the actions to check
+ * @returns The name of the action or undefined if none of the actions matches
+ */
+export function getKeymapAction<ActionType extends string = KeymapAction>(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey'>,
+  keymap: Keymap,
+  actions: readonly ActionType[]
+): ActionType | undefined {
+  return actions.find((action) => {
+    const keyCode = keymap[action] !== undefined ? keymap[action] : defaultKeymap[action as KeymapAction];
+
+    return keyCode !== undefined && isKeyComboPressed(event, keyCode);
+  });
+}
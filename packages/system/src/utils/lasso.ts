@@ -0,0 +1,145 @@
+import type { InternalNodeBase, NodeBase, Rect, XYPosition } from '../types';
+import { getOverlappingArea, nodeToRect } from './general';
+import type { SpatialIndex } from './spatial-index';
+
+function getPolygonBounds(polygon: XYPosition[]): Rect {
+  const xs = polygon.map(({ x }) => x);
+  const ys = polygon.map(({ y }) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function getOrientation(a: XYPosition, b: XYPosition, c: XYPosition): number {
+  return Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+}
+
+function doSegmentsIntersect(a1: XYPosition, a2: XYPosition, b1: XYPosition, b2: XYPosition): boolean {
+  return (
+    getOrientation(a1, a2, b1) !== getOrientation(a1, a2, b2) &&
+    getOrientation(b1, b2, a1) !== getOrientation(b1, b2, a2)
+  );
+}
+
+function doesPolylineCrossPolygon(points: XYPosition[], polygon: XYPosition[]): boolean {
+  for (let i = 1; i < points.length; i++) {
+    for (let j = 0; j < polygon.length; j++) {
+      // the polygon is closed, so the last point connects to the first one
+      if (doSegmentsIntersect(points[i - 1], points[i], polygon[j], polygon[(j + 1) % polygon.length])) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks if a point lies inside a polygon, the polygon gets closed automatically.
+ * @public
+ * @param point - The point to check
+ * @param polygon - The points of the polygon
+ * @returns true if the point is inside the polygon
+ */
+export function isPointInPolygon({ x, y }: XYPosition, polygon: XYPosition[]): boolean {
+  let isInside = false;
+
+  // casts a ray to the right and counts how often it crosses the outline of the polygon
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      isInside = !isInside;
+    }
+  }
+
+  return isInside;
+}
+
+/**
+ * Checks if a line that is made of points lies inside a polygon.
+ * @public
+ * @param points - The points of the line
+ * @param polygon - The points of the polygon
+ * @param partially - If true, lines that cross the outline of the polygon are inside as well
+ * @returns true if the line is inside the polygon
+ */
+export function isPolylineInPolygon(points: XYPosition[], polygon: XYPosition[], partially = false): boolean {
+  if (points.length === 0 || polygon.length < 3) {
+    return false;
+  }
+
+  if (partially) {
+    return points.some((point) => isPointInPolygon(point, polygon)) || doesPolylineCrossPolygon(points, polygon);
+  }
+
+  return points.every((point) => isPointInPolygon(point, polygon)) && !doesPolylineCrossPolygon(points, polygon);
+}
+
+/**
+ * Checks if a rect lies inside a polygon.
+ * @public
+ * @param rect - The rect to check
+ * @param polygon - The points of the polygon
+ * @param partially - If true, rects that overlap the polygon are inside as well
+ * @returns true if the rect is inside the polygon
+ */
+export function isRectInPolygon(rect: Rect, polygon: XYPosition[], partially = false): boolean {
+  const { x, y, width, height } = rect;
+  const corners = [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+    { x, y },
+  ];
+
+  if (isPolylineInPolygon(corners, polygon, partially)) {
+    return true;
+  }
+
+  // a polygon that is drawn inside of the rect overlaps it without crossing its outline
+  return partially && polygon.length > 0 && isPointInPolygon(polygon[0], corners);
+}
+
+/**
+ * Returns the nodes that are inside a polygon, for example the lasso of a user selection.
+ * @public
+ * @param nodeLookup - The node lookup of the flow
+ * @param polygon - The points of the polygon in flow coordinates
+ * @param partially - If true, nodes that overlap the polygon are inside as well
+ * @param excludeNonSelectableNodes - If true, nodes that are not selectable are skipped
+ * @param spatialIndex - If passed, only the nodes around the polygon are checked
+ * @returns The nodes inside the polygon
+ */
+export function getNodesInsidePolygon<NodeType extends NodeBase = NodeBase>(
+  nodeLookup: Map<string, InternalNodeBase<NodeType>>,
+  polygon: XYPosition[],
+  partially = false,
+  excludeNonSelectableNodes = false,
+  spatialIndex?: SpatialIndex
+): InternalNodeBase<NodeType>[] {
+  if (polygon.length < 3) {
+    return [];
+  }
+
+  const bounds = getPolygonBounds(polygon);
+  const candidates = spatialIndex ? spatialIndex.search(bounds).map((id) => nodeLookup.get(id)) : nodeLookup.values();
+  const nodesInside: InternalNodeBase<NodeType>[] = [];
+
+  for (const node of candidates) {
+    if (!node || node.hidden || (excludeNonSelectableNodes && node.selectable === false)) {
+      continue;
+    }
+
+    const nodeRect = nodeToRect(node);
+
+    if (getOverlappingArea(bounds, nodeRect) > 0 && isRectInPolygon(nodeRect, polygon, partially)) {
+      nodesInside.push(node);
+    }
+  }
+
+  return nodesInside;
+}
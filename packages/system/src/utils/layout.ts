@@ -0,0 +1,481 @@
+import type {
+  Dimensions,
+  EdgeBase,
+  InternalNodeBase,
+  NodeBase,
+  NodeDimensionChange,
+  NodeLookup,
+  NodeOrigin,
+  NodePositionChange,
+  XYPosition,
+} from '../types';
+import { getNodeDimensions } from './general';
+import { getNodePositionWithOrigin } from './graph';
+
+export type LayeredLayoutDirection = 'TB' | 'LR';
+
+export type GetLayeredLayoutParams<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase> = {
+  nodes: NodeType[];
+  edges: EdgeType[];
+  /** Used to read the measured dimensions of the nodes */
+  nodeLookup?: NodeLookup<InternalNodeBase<NodeType>>;
+  /** 'TB' places the ranks from top to bottom, 'LR' from left to right */
+  direction?: LayeredLayoutDirection;
+  /** Distance between two ranks */
+  rankSpacing?: number;
+  /** Distance between two nodes of the same rank */
+  nodeSpacing?: number;
+  /** Distance between a parent node and its laid out child nodes */
+  padding?: number;
+  nodeOrigin?: NodeOrigin;
+};
+
+type LayoutOptions = {
+  isHorizontal: boolean;
+  rankSpacing: number;
+  nodeSpacing: number;
+};
+
+type LayerItem = {
+  id: string;
+  // size along the rank axis (height for TB, width for LR)
+  rankSize: number;
+  // size along the cross axis (width for TB, height for LR)
+  crossSize: number;
+  isDummy: boolean;
+};
+
+function pushToMap<K, T>(map: Map<K, T[]>, key: K, value: T) {
+  const values = map.get(key);
+
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Reverses the edges that close a cycle, so that the graph becomes acyclic.
+ */
+function removeCycles(ids: string[], successors: Map<string, string[]>): [string, string][] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const acyclicEdges: [string, string][] = [];
+
+  for (const rootId of ids) {
+    if (state.has(rootId)) {
+      continue;
+    }
+
+    // we use an explicit stack instead of recursion, so that long chains don't exceed the call stack
+    const stack: [string, number][] = [[rootId, 0]];
+    state.set(rootId, 'visiting');
+
+    while (stack.length > 0) {
+      const current = stack[stack.length - 1];
+      const [id, index] = current;
+      const target = successors.get(id)?.[index];
+
+      if (target === undefined) {
+        state.set(id, 'done');
+        stack.pop();
+        continue;
+      }
+
+      current[1]++;
+
+      if (state.get(target) === 'visiting') {
+        acyclicEdges.push([target, id]);
+        continue;
+      }
+
+      acyclicEdges.push([id, target]);
+
+      if (!state.has(target)) {
+        state.set(target, 'visiting');
+        stack.push([target, 0]);
+      }
+    }
+  }
+
+  return acyclicEdges;
+}
+
+/**
+ * Assigns each node to the rank of the longest path that leads to it.
+ */
+function assignRanks(ids: string[], edges: [string, string][]): Map<string, number> {
+  const ranks = new Map<string, number>(ids.map((id) => [id, 0]));
+  const inDegree = new Map<string, number>(ids.map((id) => [id, 0]));
+  const successors = new Map<string, string[]>();
+
+  for (const [source, target] of edges) {
+    inDegree.set(target, inDegree.get(target)! + 1);
+    pushToMap(successors, source, target);
+  }
+
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+
+    for (const target of successors.get(id) ?? []) {
+      ranks.set(target, Math.max(ranks.get(target)!, ranks.get(id)! + 1));
+      inDegree.set(target, inDegree.get(target)! - 1);
+
+      if (inDegree.get(target) === 0) {
+        queue.push(target);
+      }
+    }
+  }
+
+  return ranks;
+}
+
+function getBarycenter(neighbors: string[] | undefined, order: Map<string, number>, fallback: number) {
+  if (!neighbors?.length) {
+    return fallback;
+  }
+
+  return neighbors.reduce((sum, id) => sum + order.get(id)!, 0) / neighbors.length;
+}
+
+/**
+ * Reorders the nodes of each layer by the barycenter of their neighbors to reduce edge crossings.
+ */
+function orderLayers(layers: LayerItem[][], predecessors: Map<string, string[]>, successors: Map<string, string[]>) {
+  const order = new Map<string, number>();
+  layers.forEach((layer) => layer.forEach((item, index) => order.set(item.id, index)));
+
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const downwards = iteration % 2 === 0;
+    const neighbors = downwards ? predecessors : successors;
+    const layerIndices = layers.map((_, index) => index);
+
+    for (const layerIndex of downwards ? layerIndices.slice(1) : layerIndices.reverse().slice(1)) {
+      const layer = layers[layerIndex];
+      const barycenters = new Map(
+        layer.map((item, index) => [item.id, getBarycenter(neighbors.get(item.id), order, index)])
+      );
+
+      layer.sort((a, b) => barycenters.get(a.id)! - barycenters.get(b.id)!);
+      layer.forEach((item, index) => order.set(item.id, index));
+    }
+  }
+}
+
+/**
+ * Places the items of a layer as close as possible to their desired centers without overlaps.
+ * The order of the items is kept. This is an isotonic regression (pool adjacent violators)
+ * on the desired centers shifted by the minimal distance to the first item.
+ */
+function placeLayer(layer: LayerItem[], desired: number[], nodeSpacing: number): number[] {
+  const offsets = [0];
+
+  for (let i = 1; i < layer.length; i++) {
+    offsets.push(offsets[i - 1] + (layer[i - 1].crossSize + layer[i].crossSize) / 2 + nodeSpacing);
+  }
+
+  const blocks: { sum: number; count: number }[] = [];
+
+  desired.forEach((center, i) => {
+    blocks.push({ sum: center - offsets[i], count: 1 });
+
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+
+      if (previous.sum / previous.count <= last.sum / last.count) {
+        break;
+      }
+
+      previous.sum += last.sum;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  });
+
+  const centers: number[] = [];
+
+  for (const block of blocks) {
+    for (let i = 0; i < block.count; i++) {
+      centers.push(block.sum / block.count + offsets[centers.length]);
+    }
+  }
+
+  return centers;
+}
+
+/**
+ * Assigns the cross axis centers by repeatedly moving the nodes towards the centers of their
+ * neighbors in the adjacent layer.
+ */
+function assignCrossCoordinates(
+  layers: LayerItem[][],
+  predecessors: Map<string, string[]>,
+  successors: Map<string, string[]>,
+  nodeSpacing: number
+): Map<string, number> {
+  const centers = new Map<string, number>();
+
+  for (const layer of layers) {
+    const positions = placeLayer(
+      layer,
+      layer.map(() => 0),
+      nodeSpacing
+    );
+    const shift = (positions[0] + positions[positions.length - 1]) / 2;
+    layer.forEach((item, index) => centers.set(item.id, positions[index] - shift));
+  }
+
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const downwards = iteration % 2 === 0;
+    const neighbors = downwards ? predecessors : successors;
+    const orderedLayers = downwards ? layers : [...layers].reverse();
+
+    for (const layer of orderedLayers) {
+      const desired = layer.map((item) => {
+        const itemNeighbors = neighbors.get(item.id);
+
+        if (!itemNeighbors?.length) {
+          return centers.get(item.id)!;
+        }
+
+        return itemNeighbors.reduce((sum, id) => sum + centers.get(id)!, 0) / itemNeighbors.length;
+      });
+
+      placeLayer(layer, desired, nodeSpacing).forEach((center, index) => centers.set(layer[index].id, center));
+    }
+  }
+
+  return centers;
+}
+
+/**
+ * Lays out a single graph and returns the top left positions of the nodes relative to [0, 0].
+ */
+function layoutGraph(
+  ids: string[],
+  dimensions: Map<string, Dimensions>,
+  edges: [string, string][],
+  { isHorizontal, rankSpacing, nodeSpacing }: LayoutOptions
+): Map<string, XYPosition> {
+  const successors = new Map<string, string[]>();
+
+  for (const [source, target] of edges) {
+    // self loops don't influence the layout
+    if (source !== target) {
+      pushToMap(successors, source, target);
+    }
+  }
+
+  const acyclicEdges = removeCycles(ids, successors);
+  const ranks = assignRanks(ids, acyclicEdges);
+  const layers: LayerItem[][] = [];
+  const layerPredecessors = new Map<string, string[]>();
+  const layerSuccessors = new Map<string, string[]>();
+
+  const addToLayer = (rank: number, item: LayerItem) => {
+    layers[rank] ??= [];
+    layers[rank].push(item);
+  };
+
+  const connect = (source: string, target: string) => {
+    pushToMap(layerSuccessors, source, target);
+    pushToMap(layerPredecessors, target, source);
+  };
+
+  for (const id of ids) {
+    const { width, height } = dimensions.get(id)!;
+
+    addToLayer(ranks.get(id)!, {
+      id,
+      rankSize: isHorizontal ? width : height,
+      crossSize: isHorizontal ? height : width,
+      isDummy: false,
+    });
+  }
+
+  // edges that span more than one rank get a dummy node on every rank they pass
+  acyclicEdges.forEach(([source, target], edgeIndex) => {
+    let previous = source;
+
+    for (let rank = ranks.get(source)! + 1; rank < ranks.get(target)!; rank++) {
+      const dummyId = `__dummy-${edgeIndex}-${rank}`;
+      addToLayer(rank, { id: dummyId, rankSize: 0, crossSize: 0, isDummy: true });
+      connect(previous, dummyId);
+      previous = dummyId;
+    }
+
+    connect(previous, target);
+  });
+
+  const filledLayers = layers.filter((layer) => !!layer);
+
+  orderLayers(filledLayers, layerPredecessors, layerSuccessors);
+
+  const centers = assignCrossCoordinates(filledLayers, layerPredecessors, layerSuccessors, nodeSpacing);
+  const positions = new Map<string, XYPosition>();
+  let minCross = Infinity;
+  let rankStart = 0;
+
+  for (const layer of filledLayers) {
+    for (const item of layer) {
+      minCross = Math.min(minCross, centers.get(item.id)! - item.crossSize / 2);
+    }
+  }
+
+  for (const layer of filledLayers) {
+    const layerSize = Math.max(...layer.map((item) => item.rankSize));
+
+    for (const item of layer) {
+      if (item.isDummy) {
+        continue;
+      }
+
+      const cross = centers.get(item.id)! - item.crossSize / 2 - minCross;
+      const rank = rankStart + (layerSize - item.rankSize) / 2;
+
+      positions.set(item.id, isHorizontal ? { x: rank, y: cross } : { x: cross, y: rank });
+    }
+
+    rankStart += layerSize + rankSpacing;
+  }
+
+  return positions;
+}
+
+/**
+ * Returns the chain of the node and all of its ancestors that are part of the layout.
+ */
+function getAncestors<NodeType extends NodeBase>(id: string, nodesById: Map<string, NodeType>): NodeType[] {
+  const ancestors: NodeType[] = [];
+  let node = nodesById.get(id);
+
+  while (node && !ancestors.includes(node)) {
+    ancestors.push(node);
+    node = node.parentId ? nodesById.get(node.parentId) : undefined;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Calculates a layered (Sugiyama style) layout for the given nodes and edges. The nodes of every
+ * sub flow are laid out separately inside of their parent, edges between nodes of different sub
+ * flows are treated as edges between their ancestors that share the same parent.
+ *
+ * @public
+ * @param params.nodes - the nodes to lay out
+ * @param params.edges - the edges that connect the nodes
+ * @param params.nodeLookup - used for the measured dimensions of the nodes
+ * @param params.direction - 'TB' (default) or 'LR'
+ * @param params.rankSpacing - distance between two ranks, defaults to 80
+ * @param params.nodeSpacing - distance between two nodes of the same rank, defaults to 40
+ * @param params.padding - distance between a parent node and its child nodes, defaults to 20
+ * @param params.nodeOrigin - the node origin of the flow
+ * @returns position changes and dimension changes for the parent nodes that can be applied with `applyNodeChanges`
+ *
+ * @example
+ * ```js
+ * const { getNodes, getEdges } = useReactFlow();
+ * const nodeLookup = useStore((s) => s.nodeLookup);
+ *
+ * const onLayout = () => {
+ *  const changes = getLayeredLayout({ nodes: getNodes(), edges: getEdges(), nodeLookup, direction: 'LR' });
+ *  setNodes((nodes) => applyNodeChanges(changes, nodes));
+ * };
+ * ```
+ */
+export function getLayeredLayout<NodeType extends NodeBase = NodeBase, EdgeType extends EdgeBase = EdgeBase>({
+  nodes,
+  edges,
+  nodeLookup,
+  direction = 'TB',
+  rankSpacing = 80,
+  nodeSpacing = 40,
+  padding = 20,
+  nodeOrigin = [0, 0],
+}: GetLayeredLayoutParams<NodeType, EdgeType>): (NodePositionChange | NodeDimensionChange)[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const groups = new Map<string | undefined, string[]>();
+  const groupEdges = new Map<string | undefined, [string, string][]>();
+  const dimensions = new Map<string, Dimensions>();
+
+  for (const node of nodes) {
+    pushToMap(groups, node.parentId, node.id);
+    dimensions.set(node.id, getNodeDimensions(nodeLookup?.get(node.id) ?? node));
+  }
+
+  for (const edge of edges) {
+    const sourceAncestors = getAncestors(edge.source, nodesById);
+    const targetAncestors = getAncestors(edge.target, nodesById);
+
+    // we are looking for the deepest pair of ancestors that are siblings
+    for (const sourceAncestor of sourceAncestors) {
+      const targetAncestor = targetAncestors.find((ancestor) => ancestor.parentId === sourceAncestor.parentId);
+
+      if (targetAncestor) {
+        if (targetAncestor !== sourceAncestor) {
+          pushToMap(groupEdges, sourceAncestor.parentId, [sourceAncestor.id, targetAncestor.id]);
+        }
+        break;
+      }
+    }
+  }
+
+  const options = { isHorizontal: direction === 'LR', rankSpacing, nodeSpacing };
+  const changes: (NodePositionChange | NodeDimensionChange)[] = [];
+  const getDepth = (parentId?: string) => (parentId ? getAncestors(parentId, nodesById).length : 0);
+  // the deepest sub flows are laid out first, so that their parents are resized before they get laid out themselves
+  const sortedGroups = Array.from(groups).sort(([a], [b]) => getDepth(b) - getDepth(a));
+
+  for (const [parentId, ids] of sortedGroups) {
+    const positions = layoutGraph(ids, dimensions, groupEdges.get(parentId) ?? [], options);
+    const isParentLaidOut = !!parentId && nodesById.has(parentId);
+    let offset = { x: padding, y: padding };
+
+    if (!isParentLaidOut) {
+      // if the parent is not laid out, we keep the top left corner of the current nodes, so that they don't jump
+      offset = ids.reduce(
+        (currentOffset, id) => {
+          const node = nodesById.get(id)!;
+          const { x, y } = getNodePositionWithOrigin({ ...node, measured: dimensions.get(id) }, nodeOrigin);
+
+          return { x: Math.min(currentOffset.x, x), y: Math.min(currentOffset.y, y) };
+        },
+        { x: Infinity, y: Infinity }
+      );
+    }
+
+    for (const [id, position] of positions) {
+      const { width, height } = dimensions.get(id)!;
+      const origin = nodesById.get(id)!.origin ?? nodeOrigin;
+
+      changes.push({
+        id,
+        type: 'position',
+        position: {
+          x: offset.x + position.x + width * origin[0],
+          y: offset.y + position.y + height * origin[1],
+        },
+      });
+    }
+
+    if (isParentLaidOut) {
+      // the parent fits its laid out children, so that they don't overflow it or get clamped by `extent: 'parent'`
+      const parentDimensions = { width: 0, height: 0 };
+
+      for (const [id, position] of positions) {
+        const { width, height } = dimensions.get(id)!;
+        parentDimensions.width = Math.max(parentDimensions.width, position.x + width + padding * 2);
+        parentDimensions.height = Math.max(parentDimensions.height, position.y + height + padding * 2);
+      }
+
+      dimensions.set(parentId, parentDimensions);
+      changes.push({ id: parentId, type: 'dimensions', dimensions: parentDimensions, setAttributes: true });
+    }
+  }
+
+  return changes;
+}
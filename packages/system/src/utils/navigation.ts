@@ -0,0 +1,77 @@
+import type { InternalNodeBase, NodeLookup, XYPosition } from '../types';
+import { getNodeDimensions, nodeToRect } from './general';
+
+export type GetNodeInDirectionParams<NodeType extends InternalNodeBase = InternalNodeBase> = {
+  /** The id of the node to start from */
+  nodeId: string;
+  /** The direction to look in, for example `{ x: 1, y: 0 }` for the right side */
+  direction: XYPosition;
+  nodeLookup: NodeLookup<NodeType>;
+  /** Nodes that don't pass the filter are skipped */
+  filter?: (node: NodeType) => boolean;
+};
+
+// nodes that are off to the side are further away than nodes in a straight line
+const PERPENDICULAR_WEIGHT = 2;
+
+function getNodeCenter(node: InternalNodeBase): XYPosition {
+  const { x, y, width, height } = nodeToRect(node);
+
+  return { x: x + width / 2, y: y + height / 2 };
+}
+
+/**
+ * Returns the nearest node in a direction, for example to move the focus with the arrow keys.
+ * Only nodes whose center lies on the side of the direction are taken into account.
+ * @public
+ * @param params.nodeId - The id of the node to start from
+ * @param params.direction - The direction to look in
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.filter - Nodes that don't pass the filter are skipped
+ * @returns The nearest node or undefined if there is no node in that direction
+ */
+export function getNodeInDirection<NodeType extends InternalNodeBase = InternalNodeBase>({
+  nodeId,
+  direction,
+  nodeLookup,
+  filter,
+}: GetNodeInDirectionParams<NodeType>): NodeType | undefined {
+  const node = nodeLookup.get(nodeId);
+  const length = Math.hypot(direction.x, direction.y);
+
+  if (!node || length === 0) {
+    return undefined;
+  }
+
+  const from = getNodeCenter(node);
+  const dir = { x: direction.x / length, y: direction.y / length };
+  let nearestNode: NodeType | undefined;
+  let nearestScore = Infinity;
+
+  for (const candidate of nodeLookup.values()) {
+    const { width, height } = getNodeDimensions(candidate);
+
+    if (candidate.id === nodeId || candidate.hidden || !width || !height || (filter && !filter(candidate))) {
+      continue;
+    }
+
+    const to = getNodeCenter(candidate);
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = dx * dir.x + dy * dir.y;
+
+    if (distance <= 0) {
+      continue;
+    }
+
+    const offset = Math.abs(dx * dir.y - dy * dir.x);
+    const score = distance + offset * PERPENDICULAR_WEIGHT;
+
+    if (score < nearestScore) {
+      nearestNode = candidate;
+      nearestScore = score;
+    }
+  }
+
+  return nearestNode;
+}
@@ -0,0 +1,160 @@
+import type { InternalNodeBase, NodeBase, NodeChange, NodeLookup, NodeOrigin, XYPosition } from '../types';
+import { clampPositionToParent, getNodeDimensions, nodeToRect } from './general';
+import { isDraggedNode } from './helper-lines';
+import type { SpatialIndex } from './spatial-index';
+
+export type GetDropTargetParams = {
+  /** The position of the pointer in flow coordinates */
+  position: XYPosition;
+  nodeLookup: NodeLookup;
+  /** The ids of the dragged nodes, these nodes and their children can't be drop targets */
+  draggedNodeIds: ReadonlySet<string>;
+  /** Used to find the nodes under the pointer without checking all nodes */
+  spatialIndex?: SpatialIndex;
+};
+
+export type GetReparentChangesParams<NodeType extends NodeBase = NodeBase> = {
+  /** All nodes of the flow */
+  nodes: NodeType[];
+  nodeLookup: NodeLookup<InternalNodeBase<NodeType>>;
+  /** The ids of the nodes that get a new parent */
+  nodeIds: string[];
+  /** The id of the new parent, if it's not set the nodes are moved to the top level */
+  parentId?: string;
+  /** The absolute positions of the nodes, by default the positions of the node lookup are used */
+  positionsAbsolute?: Map<string, XYPosition>;
+  nodeOrigin?: NodeOrigin;
+};
+
+/**
+ * Returns the top most drop container under the pointer.
+ * @public
+ * @param params.position - The position of the pointer in flow coordinates
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.draggedNodeIds - The ids of the dragged nodes
+ * @param params.spatialIndex - The spatial index of the nodes
+ * @returns The drop container or undefined if there is none
+ */
+export function getDropTarget({
+  position,
+  nodeLookup,
+  draggedNodeIds,
+  spatialIndex,
+}: GetDropTargetParams): InternalNodeBase | undefined {
+  const candidates = spatialIndex
+    ? spatialIndex.search({ ...position, width: 0, height: 0 }).map((id) => nodeLookup.get(id))
+    : nodeLookup.values();
+  let dropTarget: InternalNodeBase | undefined;
+
+  for (const node of candidates) {
+    if (!node?.dropContainer || node.hidden || isDraggedNode(node, draggedNodeIds, nodeLookup)) {
+      continue;
+    }
+
+    const { x, y, width, height } = nodeToRect(node);
+    const isInside = position.x >= x && position.x <= x + width && position.y >= y && position.y <= y + height;
+
+    // nodes later in the list are rendered on top of the previous ones with the same z-index
+    if (isInside && (!dropTarget || node.internals.z >= dropTarget.internals.z)) {
+      dropTarget = node;
+    }
+  }
+
+  return dropTarget;
+}
+
+/**
+ * Creates the changes that move nodes into a new parent or to the top level. The nodes keep their absolute
+ * positions, unless they have `extent: 'parent'`, then they are moved inside the new parent.
+ * Parent nodes need to come before their children, so nodes that are in front of their new parent get
+ * removed and added again behind it, together with their descendants.
+ * @public
+ * @param params.nodes - All nodes of the flow
+ * @param params.nodeLookup - The node lookup of the flow
+ * @param params.nodeIds - The ids of the nodes that get a new parent
+ * @param params.parentId - The id of the new parent, moves the nodes to the top level if it's not set
+ * @param params.positionsAbsolute - The absolute positions of the nodes (default: the positions of the node lookup)
+ * @param params.nodeOrigin - The node origin of the flow
+ * @returns Changes that can be applied with `applyNodeChanges`
+ */
+export function getReparentChanges<NodeType extends NodeBase = NodeBase>({
+  nodes,
+  nodeLookup,
+  nodeIds,
+  parentId,
+  positionsAbsolute,
+  nodeOrigin = [0, 0],
+}: GetReparentChangesParams<NodeType>): NodeChange<NodeType>[] {
+  const parent = parentId ? nodeLookup.get(parentId) : undefined;
+
+  if (parentId && !parent) {
+    return [];
+  }
+
+  const parentPosition = parent?.internals.positionAbsolute ?? { x: 0, y: 0 };
+  const movedIds = new Set(nodeIds.filter((id) => id !== parentId && nodeLookup.has(id)));
+  const updatedNodes = new Map<string, NodeType>();
+
+  for (const node of nodes) {
+    if (!movedIds.has(node.id)) {
+      continue;
+    }
+
+    const internalNode = nodeLookup.get(node.id)!;
+    const dimensions = getNodeDimensions(internalNode);
+    const origin = node.origin ?? nodeOrigin;
+    let positionAbsolute = positionsAbsolute?.get(node.id) ?? internalNode.internals.positionAbsolute;
+
+    if (parent && node.extent === 'parent') {
+      positionAbsolute = clampPositionToParent(positionAbsolute, dimensions, parent);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { parentId: prevParentId, extent, ...updatedNode } = node;
+
+    updatedNodes.set(node.id, {
+      ...updatedNode,
+      // without a parent, there is no parent extent
+      ...(extent && (extent !== 'parent' || parent) ? { extent } : {}),
+      ...(parentId ? { parentId } : {}),
+      position: {
+        x: positionAbsolute.x - parentPosition.x + dimensions.width * origin[0],
+        y: positionAbsolute.y - parentPosition.y + dimensions.height * origin[1],
+      },
+      dragging: false,
+    } as NodeType);
+  }
+
+  const parentIndex = nodes.findIndex((node) => node.id === parentId);
+  const reorderedIds = new Set<string>();
+
+  nodes.forEach((node, index) => {
+    // children always come after their parents, so one pass collects all descendants
+    if ((movedIds.has(node.id) && index < parentIndex) || (node.parentId && reorderedIds.has(node.parentId))) {
+      reorderedIds.add(node.id);
+    }
+  });
+
+  const changes: NodeChange<NodeType>[] = [];
+
+  for (const [id, item] of updatedNodes) {
+    if (!reorderedIds.has(id)) {
+      changes.push({ id, type: 'replace', item });
+    }
+  }
+
+  if (reorderedIds.size === 0) {
+    return changes;
+  }
+
+  const nextNodes = nodes.filter((node) => !reorderedIds.has(node.id));
+  const insertIndex = nextNodes.findIndex((node) => node.id === parentId) + 1;
+  const reorderedNodes = nodes.filter((node) => reorderedIds.has(node.id));
+
+  reorderedNodes.forEach((node, i) => {
+    changes.push({ id: node.id, type: 'remove' });
+    changes.push({ item: updatedNodes.get(node.id) ?? node, type: 'add', index: insertIndex + i });
+  });
+
+  return changes;
+}
@@ -0,0 +1,307 @@
+import type { Box, EdgeBase, InternalNodeBase, NodeLookup, Rect } from '../types';
+import { getCollapsedAncestor } from './collapse';
+import { getOrthogonalObstacles } from './edges/orthogonal-edge';
+import { boxToRect, getBoundsOfBoxes, isNumeric, nodeToBox, nodeToRect, rectToBox } from './general';
+
+export type SpatialIndex = {
+  /**
+   * Inserts an item or updates its rect. Items without a rect are returned by every search.
+   * The order is used to sort the search results, if it's not passed the current order is kept.
+   */
+  update: (id: string, rect: Rect | null, order?: number) => void;
+  remove: (id: string) => void;
+  /** Returns the ids of all items whose rects overlap or touch the passed rect, sorted by their order */
+  search: (rect: Rect) => string[];
+  getRect: (id: string) => Rect | null | undefined;
+  has: (id: string) => boolean;
+  ids: () => IterableIterator<string>;
+  clear: () => void;
+  readonly size: number;
+  /** Gets incremented whenever an item gets added, removed or its rect might have changed */
+  readonly version: number;
+};
+
+type SpatialIndexEntry = {
+  rect: Rect | null;
+  order: number;
+  cellKeys: string[];
+};
+
+type SpatialIndexCell = {
+  x: number;
+  y: number;
+  ids: Set<string>;
+};
+
+// items that would cover more cells than this are not stored in the grid but checked on every search
+const MAX_CELLS_PER_ITEM = 64;
+
+const isFiniteRect = (rect: Rect) =>
+  isNumeric(rect.x) && isNumeric(rect.y) && isNumeric(rect.width) && isNumeric(rect.height);
+
+const rectsTouch = (a: Rect, b: Rect) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+const isSameRect = (a: Rect | null, b: Rect) =>
+  !!a && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+/**
+ * Creates a spatial index that stores rects in a uniform grid. Updating an item only touches the
+ * cells it covers, so the index can be maintained incrementally while nodes get dragged or measured.
+ *
+ * @internal
+ * @param cellSize - the width and height of a grid cell in flow coordinates
+ */
+export function createSpatialIndex(cellSize = 500): SpatialIndex {
+  const entries = new Map<string, SpatialIndexEntry>();
+  const cells = new Map<string, SpatialIndexCell>();
+  // ids of the items that are not stored in the grid
+  const unbounded = new Set<string>();
+  let nextOrder = 0;
+  let version = 0;
+
+  const getCellRange = (rect: Rect) => ({
+    x1: Math.floor(rect.x / cellSize),
+    y1: Math.floor(rect.y / cellSize),
+    x2: Math.floor((rect.x + rect.width) / cellSize),
+    y2: Math.floor((rect.y + rect.height) / cellSize),
+  });
+
+  function removeFromCells(id: string, entry: SpatialIndexEntry) {
+    for (const key of entry.cellKeys) {
+      const cell = cells.get(key)!;
+      cell.ids.delete(id);
+
+      if (cell.ids.size === 0) {
+        cells.delete(key);
+      }
+    }
+
+    unbounded.delete(id);
+  }
+
+  function addToCells(id: string, rect: Rect | null): string[] {
+    if (!rect || !isFiniteRect(rect)) {
+      unbounded.add(id);
+      return [];
+    }
+
+    const { x1, y1, x2, y2 } = getCellRange(rect);
+
+    if ((x2 - x1 + 1) * (y2 - y1 + 1) > MAX_CELLS_PER_ITEM) {
+      unbounded.add(id);
+      return [];
+    }
+
+    const cellKeys: string[] = [];
+
+    for (let x = x1; x <= x2; x++) {
+      for (let y = y1; y <= y2; y++) {
+        const key = `${x},${y}`;
+        const cell = cells.get(key);
+
+        if (cell) {
+          cell.ids.add(id);
+        } else {
+          cells.set(key, { x, y, ids: new Set([id]) });
+        }
+
+        cellKeys.push(key);
+      }
+    }
+
+    return cellKeys;
+  }
+
+  function update(id: string, rect: Rect | null, order?: number) {
+    const entry = entries.get(id);
+
+    if (entry) {
+      entry.order = order ?? entry.order;
+
+      // we can't tell if an item without a rect changed, so only items with an unchanged rect are skipped
+      if (rect && isSameRect(entry.rect, rect)) {
+        return;
+      }
+
+      removeFromCells(id, entry);
+    }
+
+    entries.set(id, {
+      rect: rect ? { ...rect } : null,
+      order: order ?? entry?.order ?? nextOrder++,
+      cellKeys: addToCells(id, rect),
+    });
+    version++;
+  }
+
+  function remove(id: string) {
+    const entry = entries.get(id);
+
+    if (entry) {
+      removeFromCells(id, entry);
+      entries.delete(id);
+      version++;
+    }
+  }
+
+  function search(rect: Rect): string[] {
+    const result = new Set<string>();
+
+    const collect = (id: string) => {
+      if (result.has(id)) {
+        return;
+      }
+
+      const entryRect = entries.get(id)!.rect;
+
+      if (!entryRect || !isFiniteRect(entryRect) || rectsTouch(entryRect, rect)) {
+        result.add(id);
+      }
+    };
+
+    if (!isFiniteRect(rect)) {
+      entries.forEach((_, id) => collect(id));
+    } else {
+      const { x1, y1, x2, y2 } = getCellRange(rect);
+
+      // when the searched area covers more cells than we have, it's faster to check the existing cells
+      if ((x2 - x1 + 1) * (y2 - y1 + 1) > cells.size) {
+        for (const cell of cells.values()) {
+          if (cell.x >= x1 && cell.x <= x2 && cell.y >= y1 && cell.y <= y2) {
+            cell.ids.forEach(collect);
+          }
+        }
+      } else {
+        for (let x = x1; x <= x2; x++) {
+          for (let y = y1; y <= y2; y++) {
+            cells.get(`${x},${y}`)?.ids.forEach(collect);
+          }
+        }
+      }
+
+      unbounded.forEach(collect);
+    }
+
+    return [...result].sort((a, b) => entries.get(a)!.order - entries.get(b)!.order);
+  }
+
+  return {
+    update,
+    remove,
+    search,
+    getRect: (id) => entries.get(id)?.rect,
+    has: (id) => entries.has(id),
+    ids: () => entries.keys(),
+    clear: () => {
+      entries.clear();
+      cells.clear();
+      unbounded.clear();
+      version++;
+    },
+    get size() {
+      return entries.size;
+    },
+    get version() {
+      return version;
+    },
+  };
+}
+
+/**
+ * Returns the rect of a node that is stored in the spatial index. Nodes that are not measured yet
+ * or that are dragged get rendered even if they are outside of the viewport, so they are part of every search.
+ *
+ * @internal
+ */
+export function getNodeSpatialIndexRect(node: InternalNodeBase): Rect | null {
+  if (!node.internals.handleBounds || node.dragging) {
+    return null;
+  }
+
+  return nodeToRect(node);
+}
+
+export type UpdateEdgeSpatialIndexOptions<EdgeType extends EdgeBase = EdgeBase> = {
+  /** The spatial index of the nodes, used to find the nodes that routed edges go around */
+  nodeSpatialIndex?: SpatialIndex;
+  /** Returns the margin of edges that are routed around other nodes, like orthogonal edges, and undefined otherwise */
+  getRouteMargin?: (edge: EdgeType) => number | undefined;
+  /** The ids of the collapsed nodes, edges of the nodes inside of them are drawn to the collapsed nodes */
+  collapsedNodeIds?: ReadonlySet<string>;
+};
+
+// routed edges can go around every node near them, so their rect contains these nodes and the margin around them
+function getRoutedEdgeBox(
+  box: Box,
+  sourceNode: InternalNodeBase,
+  targetNode: InternalNodeBase,
+  nodeLookup: NodeLookup,
+  nodeSpatialIndex: SpatialIndex | undefined,
+  margin: number
+): Box {
+  const sourceRect = nodeToRect(sourceNode);
+  const targetRect = nodeToRect(targetNode);
+  const obstacles = getOrthogonalObstacles({
+    sourceX: sourceRect.x + sourceRect.width / 2,
+    sourceY: sourceRect.y + sourceRect.height / 2,
+    targetX: targetRect.x + targetRect.width / 2,
+    targetY: targetRect.y + targetRect.height / 2,
+    nodeLookup,
+    spatialIndex: nodeSpatialIndex,
+    margin,
+  });
+  const routeBox = obstacles.reduce((res, obstacle) => getBoundsOfBoxes(res, rectToBox(obstacle)), box);
+
+  return { x: routeBox.x - margin, y: routeBox.y - margin, x2: routeBox.x2 + margin, y2: routeBox.y2 + margin };
+}
+
+/**
+ * Syncs the spatial index of the edges with the current edges and the positions of their nodes.
+ * The rect of an edge is the bounding box of its source and target node and its waypoints.
+ * Nodes inside of a collapsed node are replaced by their collapsed ancestor.
+ *
+ * @internal
+ */
+export function updateEdgeSpatialIndex<EdgeType extends EdgeBase = EdgeBase>(
+  spatialIndex: SpatialIndex,
+  edges: EdgeType[],
+  nodeLookup: NodeLookup,
+  { nodeSpatialIndex, getRouteMargin, collapsedNodeIds }: UpdateEdgeSpatialIndexOptions<EdgeType> = {}
+) {
+  const edgeIds = new Set<string>();
+  const getEdgeNode = (nodeId: string) =>
+    (collapsedNodeIds && getCollapsedAncestor(nodeId, nodeLookup, collapsedNodeIds)) ?? nodeLookup.get(nodeId);
+
+  edges.forEach((edge, index) => {
+    const sourceNode = getEdgeNode(edge.source);
+    const targetNode = getEdgeNode(edge.target);
+
+    if (!sourceNode || !targetNode) {
+      return;
+    }
+
+    let edgeBox = getBoundsOfBoxes(nodeToBox(sourceNode), nodeToBox(targetNode));
+
+    for (const { x, y } of edge.waypoints ?? []) {
+      edgeBox = getBoundsOfBoxes(edgeBox, { x, y, x2: x, y2: y });
+    }
+
+    const routeMargin = getRouteMargin?.(edge);
+
+    if (routeMargin !== undefined) {
+      edgeBox = getRoutedEdgeBox(edgeBox, sourceNode, targetNode, nodeLookup, nodeSpatialIndex, routeMargin);
+    }
+
+    edgeIds.add(edge.id);
+    spatialIndex.update(edge.id, boxToRect(edgeBox), index);
+  });
+
+  if (spatialIndex.size > edgeIds.size) {
+    for (const id of [...spatialIndex.ids()]) {
+      if (!edgeIds.has(id)) {
+        spatialIndex.remove(id);
+      }
+    }
+  }
+}
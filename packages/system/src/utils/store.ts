@@ -23,11 +23,13 @@ import {
   clampPositionToParent,
   getBoundsOfRects,
   getNodeDimensions,
+  getRotatedRect,
   isCoordinateExtent,
   isNumeric,
   nodeToRect,
 } from './general';
 import { getNodePositionWithOrigin } from './graph';
+import { getNodeSpatialIndexRect, SpatialIndex } from './spatial-index';
 import { ParentExpandChild } from './types';
 
 const defaultOptions = {
@@ -69,6 +71,8 @@ export function updateAbsolutePositions<NodeType extends NodeBase>(
       const clampedPosition = clampPosition(positionWithOrigin, extent, getNodeDimensions(node));
       node.internals.positionAbsolute = clampedPosition;
     }
+
+    options?.spatialIndex?.update(node.id, getNodeSpatialIndexRect(nodeLookup.get(node.id)!));
   }
 }
 
@@ -78,6 +82,10 @@ type UpdateNodesOptions<NodeType extends NodeBase> = {
   elevateNodesOnSelect?: boolean;
   defaults?: Partial<NodeType>;
   checkEquality?: boolean;
+  // 如果传入，空间索引会随节点的绝对位置一起更新
+  spatialIndex?: SpatialIndex;
+  // 折叠的节点，它们的所有后代节点都会被隐藏
+  collapsedNodeIds?: ReadonlySet<string>;
 };
 
 export function adoptUserNodes<NodeType extends NodeBase>(
@@ -94,10 +102,23 @@ export function adoptUserNodes<NodeType extends NodeBase>(
   nodeLookup.clear();
   parentLookup.clear();
 
-  for (const userNode of nodes) {
+  // 被折叠的祖先节点隐藏的节点，父节点总是在子节点之前，所以一次遍历就能找到所有后代节点
+  const collapsedChildIds = new Set<string>();
+
+  nodes.forEach((userNode, index) => {
     let internalNode = tmpLookup.get(userNode.id);
+    const isCollapsedChild =
+      !!userNode.parentId &&
+      (!!options?.collapsedNodeIds?.has(userNode.parentId) || collapsedChildIds.has(userNode.parentId));
+
+    if (isCollapsedChild) {
+      collapsedChildIds.add(userNode.id);
+    }
 
-    if (_options.checkEquality && userNode === internalNode?.internals.userNode) {
+    // 只隐藏内部节点，用户的节点不会被修改
+    const hidden = userNode.hidden || isCollapsedChild;
+
+    if (_options.checkEquality && userNode === internalNode?.internals.userNode && !!internalNode.hidden === !!hidden) {
       nodeLookup.set(userNode.id, internalNode);
     } else {
       const positionWithOrigin = getNodePositionWithOrigin(userNode, _options.nodeOrigin);
@@ -107,6 +128,7 @@ export function adoptUserNodes<NodeType extends NodeBase>(
       internalNode = {
         ..._options.defaults,
         ...userNode,
+        ...(isCollapsedChild ? { hidden: true } : {}),
         measured: {
           width: userNode.measured?.width,
           height: userNode.measured?.height,
@@ -126,6 +148,17 @@ export function adoptUserNodes<NodeType extends NodeBase>(
     if (userNode.parentId) {
       updateChildNode(internalNode, nodeLookup, parentLookup, options);
     }
+
+    // 节点的顺序决定了搜索结果的顺序，这样可见节点的渲染顺序与 nodes 数组一致
+    options?.spatialIndex?.update(userNode.id, getNodeSpatialIndexRect(nodeLookup.get(userNode.id)!), index);
+  });
+
+  if (options?.spatialIndex) {
+    for (const id of tmpLookup.keys()) {
+      if (!nodeLookup.has(id)) {
+        options.spatialIndex.remove(id);
+      }
+    }
   }
 }
 
@@ -310,13 +343,127 @@ export function handleExpandParent(
   return changes;
 }
 
+// 节点旋转前的矩形
+function getUnrotatedRect(node: InternalNodeBase): Rect {
+  return { ...node.internals.positionAbsolute, ...getNodeDimensions(node) };
+}
+
+export function handleFitParent(
+  children: ParentExpandChild[],
+  nodeLookup: NodeLookup,
+  parentLookup: ParentLookup,
+  nodeOrigin: NodeOrigin = [0, 0]
+): (NodeDimensionChange | NodePositionChange)[] {
+  const changes: (NodeDimensionChange | NodePositionChange)[] = [];
+  // 节点更新后的矩形，适配后的父节点也会加进来，这样祖先节点可以继续适配它们
+  const updatedRects = new Map<string, Rect>(children.map((child) => [child.id, child.rect]));
+  let parentIds = new Set(children.map((child) => child.parentId));
+
+  while (parentIds.size > 0) {
+    const nextParentIds = new Set<string>();
+
+    for (const parentId of parentIds) {
+      const parent = nodeLookup.get(parentId);
+      // parentLookup 中的子节点可能是旧的，所以我们从 nodeLookup 中读取它们
+      const childNodes = Array.from(parentLookup.get(parentId)?.keys() ?? [])
+        .map((childId) => nodeLookup.get(childId))
+        .filter((childNode): childNode is InternalNodeBase => !!childNode);
+
+      if (!parent?.fitChildren || childNodes.length === 0) {
+        continue;
+      }
+
+      const padding = (parent.fitChildren === true ? undefined : parent.fitChildren.padding) ?? 20;
+      // 未旋转的矩形用于计算子节点的位置，旋转后的边界矩形用于计算父节点的尺寸
+      const childRects = childNodes.map((child) => updatedRects.get(child.id) ?? getUnrotatedRect(child));
+      // 隐藏的和还没有测量的子节点不影响父节点的尺寸
+      const visibleChildRects = childNodes.flatMap((child, i) =>
+        !child.hidden && childRects[i].width > 0 && childRects[i].height > 0
+          ? [getRotatedRect(childRects[i], child.rotation)]
+          : []
+      );
+
+      if (visibleChildRects.length === 0) {
+        continue;
+      }
+
+      const childBounds = visibleChildRects.reduce((bounds, rect) => getBoundsOfRects(bounds, rect));
+      const fittedRect = {
+        x: childBounds.x - padding,
+        y: childBounds.y - padding,
+        width: childBounds.width + padding * 2,
+        height: childBounds.height + padding * 2,
+      };
+      const parentRect = updatedRects.get(parentId) ?? getUnrotatedRect(parent);
+
+      if (
+        fittedRect.x === parentRect.x &&
+        fittedRect.y === parentRect.y &&
+        fittedRect.width === parentRect.width &&
+        fittedRect.height === parentRect.height
+      ) {
+        continue;
+      }
+
+      const origin = parent.origin ?? nodeOrigin;
+
+      changes.push({
+        id: parentId,
+        type: 'position',
+        position: {
+          x: parent.position.x + fittedRect.x - parentRect.x + (fittedRect.width - parentRect.width) * origin[0],
+          y: parent.position.y + fittedRect.y - parentRect.y + (fittedRect.height - parentRect.height) * origin[1],
+        },
+      });
+
+      changes.push({
+        id: parentId,
+        type: 'dimensions',
+        setAttributes: true,
+        dimensions: {
+          width: fittedRect.width,
+          height: fittedRect.height,
+        },
+      });
+
+      /*
+       * 子节点的位置是相对于父节点的，父节点移动时我们把它们往反方向移动，
+       * 这样它们的绝对位置保持不变
+       */
+      childNodes.forEach((childNode, i) => {
+        const childOrigin = childNode.origin ?? nodeOrigin;
+
+        changes.push({
+          id: childNode.id,
+          type: 'position',
+          position: {
+            x: childRects[i].x - fittedRect.x + childRects[i].width * childOrigin[0],
+            y: childRects[i].y - fittedRect.y + childRects[i].height * childOrigin[1],
+          },
+        });
+      });
+
+      updatedRects.set(parentId, fittedRect);
+
+      if (parent.parentId) {
+        nextParentIds.add(parent.parentId);
+      }
+    }
+
+    parentIds = nextParentIds;
+  }
+
+  return changes;
+}
+
 export function updateNodeInternals<NodeType extends InternalNodeBase>(
   updates: Map<string, InternalNodeUpdate>,
   nodeLookup: NodeLookup<NodeType>,
   parentLookup: ParentLookup<NodeType>,
   domNode: HTMLElement | null,
   nodeOrigin?: NodeOrigin,
-  nodeExtent?: CoordinateExtent
+  nodeExtent?: CoordinateExtent,
+  spatialIndex?: SpatialIndex
 ): { changes: (NodeDimensionChange | NodePositionChange)[]; updatedInternals: boolean } {
   const viewportNode = domNode?.querySelector('.xyflow__viewport');
   let updatedInternals = false;
@@ -330,6 +477,8 @@ export function updateNodeInternals<NodeType extends InternalNodeBase>(
   const { m22: zoom } = new window.DOMMatrixReadOnly(style.transform);
   // 在这个数组中，我们收集可能触发变化的节点（比如扩展父节点）
   const parentExpandChildren: ParentExpandChild[] = [];
+  // 父节点会适配其子节点的节点
+  const parentFitChildren: ParentExpandChild[] = [];
 
   for (const update of updates.values()) {
     const node = nodeLookup.get(update.id);
@@ -345,6 +494,7 @@ export function updateNodeInternals<NodeType extends InternalNodeBase>(
           handleBounds: undefined,
         },
       });
+      spatialIndex?.update(node.id, null);
       updatedInternals = true;
       continue;
     }
@@ -375,8 +525,8 @@ export function updateNodeInternals<NodeType extends InternalNodeBase>(
           ...node.internals,
           positionAbsolute,
           handleBounds: {
-            source: getHandleBounds('source', update.nodeElement, nodeBounds, zoom, node.id),
-            target: getHandleBounds('target', update.nodeElement, nodeBounds, zoom, node.id),
+            source: getHandleBounds('source', update.nodeElement, nodeBounds, zoom, node.id, node.rotation),
+            target: getHandleBounds('target', update.nodeElement, nodeBounds, zoom, node.id, node.rotation),
           },
         },
       };
@@ -387,6 +537,7 @@ export function updateNodeInternals<NodeType extends InternalNodeBase>(
         updateChildNode(newNode, nodeLookup, parentLookup, { nodeOrigin });
       }
 
+      spatialIndex?.update(node.id, getNodeSpatialIndexRect(nodeLookup.get(node.id)!));
       updatedInternals = true;
 
       if (dimensionChanged) {
@@ -396,7 +547,13 @@ export function updateNodeInternals<NodeType extends InternalNodeBase>(
           dimensions,
         });
 
-        if (node.expandParent && node.parentId) {
+        if (node.parentId && nodeLookup.get(node.parentId)?.fitChildren) {
+          parentFitChildren.push({
+            id: node.id,
+            parentId: node.parentId,
+            rect: getUnrotatedRect(newNode),
+          });
+        } else if (node.expandParent && node.parentId) {
           parentExpandChildren.push({
             id: node.id,
             parentId: node.parentId,
@@ -412,6 +569,10 @@ export function updateNodeInternals<NodeType extends InternalNodeBase>(
     changes.push(...parentExpandChanges);
   }
 
+  if (parentFitChildren.length > 0) {
+    changes.push(...handleFitParent(parentFitChildren, nodeLookup, parentLookup, nodeOrigin));
+  }
+
   return { changes, updatedInternals };
 }
 
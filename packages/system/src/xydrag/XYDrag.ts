@@ -10,6 +10,17 @@ import {
   snapPosition, // 对齐位置到网格
   getInternalNodesBounds, // 获取内部节点边界
   rectToBox, // 将矩形转换为盒子
+  boxToRect, // 将盒子转换为矩形
+  getBoundsOfBoxes, // 合并盒子
+  pointToRendererPoint, // 将屏幕坐标转换为画布坐标
+  snapRectToNodes, // 对齐到附近的节点
+  getDropTarget, // 获取指针下方的放置容器
+  getReparentChanges, // 获取更换父节点的变更
+  resolveNodeCollisions, // 防止节点重叠
+  type HelperLine, // 辅助线类型
+  type NodeCollisionMode, // 节点碰撞模式
+  type NodeMove, // 节点移动类型
+  type SpatialIndex, // 空间索引类型
 } from '../utils';
 import { getDragItems, getEventHandlerParams, hasSelector } from './utils'; // 导入拖拽相关的工具函数
 import type {
@@ -28,6 +39,7 @@ import type {
   UpdateNodePositions, // 更新节点位置函数类型
   Box, // 盒子类型
   InternalNodeBase, // 内部节点基础类型
+  NodeChange, // 节点变更类型
 } from '../types';
 
 export type OnDrag = (
@@ -46,6 +58,13 @@ type StoreItems<OnNodeDrag> = {
   nodeExtent: CoordinateExtent; // 节点范围限制
   snapGrid: SnapGrid; // 网格对齐设置
   snapToGrid: boolean; // 是否启用网格对齐
+  snapToNodes?: boolean; // 是否对齐到附近节点的边缘和中心
+  snapToNodesThreshold?: number; // 对齐到节点的距离阈值（屏幕像素）
+  nodeCollision?: NodeCollisionMode | null; // 拖拽的节点是阻止重叠还是推开其他节点
+  nodeSpatialIndex?: SpatialIndex; // 节点空间索引
+  setHelperLines?: (helperLines: HelperLine[]) => void; // 更新当前显示的辅助线
+  setDropTargetId?: (id: string | null) => void; // 更新当前高亮的放置容器
+  triggerNodeChanges?: (changes: NodeChange[]) => void; // 触发节点变更
   nodeOrigin: NodeOrigin; // 节点原点
   multiSelectionActive: boolean; // 是否激活多选
   domNode?: Element | null; // DOM节点
@@ -110,6 +129,7 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
   let dragStarted = false; // 拖拽是否已开始
   let d3Selection: Selection<Element, unknown, null, undefined> | null = null; // D3选择
   let abortDrag = false; // 中止拖拽，防止多点触控意外拖拽
+  let dropTargetId: string | undefined; // 当前指针下方的放置容器
 
   // 公共函数
   function update({
@@ -130,6 +150,14 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
         nodeExtent, // 节点范围限制
         snapGrid, // 网格对齐设置
         snapToGrid, // 是否启用网格对齐
+        snapToNodes, // 是否对齐到节点
+        snapToNodesThreshold = 5, // 对齐到节点的距离阈值
+        nodeCollision, // 节点碰撞模式
+        nodeSpatialIndex, // 节点空间索引
+        setHelperLines, // 更新辅助线的函数
+        setDropTargetId, // 更新放置容器的函数
+        triggerNodeChanges, // 触发节点变更的函数
+        transform, // 变换矩阵
         nodeOrigin, // 节点原点
         onNodeDrag, // 节点拖拽中回调
         onSelectionDrag, // 选择拖拽中回调
@@ -148,6 +176,63 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
         nodesBox = rectToBox(rect); // 将矩形转换为盒子
       }
 
+      const getNextPosition = (dragItem: NodeDragItem): XYPosition => {
+        // 计算拖拽项的下一个绝对位置
+        const nextPosition = { x: x - dragItem.distance.x, y: y - dragItem.distance.y };
+        return snapToGrid ? snapPosition(nextPosition, snapGrid) : nextPosition; // 如果启用网格对齐，对齐位置到网格
+      };
+
+      let snapOffset: XYPosition = { x: 0, y: 0 }; // 对齐到节点的偏移量
+
+      if (snapToNodes && dragItems.size > 0) {
+        // 所有拖拽项作为一个整体对齐到附近的节点
+        let draggedBox: Box = { x: Infinity, y: Infinity, x2: -Infinity, y2: -Infinity };
+        for (const dragItem of dragItems.values()) {
+          draggedBox = getBoundsOfBoxes(draggedBox, rectToBox({ ...getNextPosition(dragItem), ...dragItem.measured }));
+        }
+
+        const result = snapRectToNodes({
+          rect: boxToRect(draggedBox), // 拖拽项的边界
+          nodeLookup, // 节点查找映射
+          draggedNodeIds: new Set(dragItems.keys()), // 被拖拽的节点不参与对齐
+          threshold: snapToNodesThreshold / transform[2], // 阈值转换为画布坐标
+          // 只对齐到可见区域内的节点
+          searchRect: containerBounds
+            ? {
+                ...pointToRendererPoint({ x: 0, y: 0 }, transform),
+                width: containerBounds.width / transform[2],
+                height: containerBounds.height / transform[2],
+              }
+            : undefined,
+          spatialIndex: nodeSpatialIndex, // 节点空间索引
+        });
+
+        snapOffset = result.snapOffset; // 更新对齐偏移量
+        setHelperLines?.(result.helperLines); // 更新辅助线
+      }
+
+      const moves = new Map<string, NodeMove>(); // 拖拽项的当前位置和下一个位置
+
+      for (const [id, dragItem] of dragItems) {
+        const nextPosition = getNextPosition(dragItem); // 计算下一个位置
+        nextPosition.x += snapOffset.x; // 加上对齐到节点的偏移量
+        nextPosition.y += snapOffset.y;
+        moves.set(id, { from: dragItem.internals.positionAbsolute, to: nextPosition });
+      }
+
+      let nextPositions = new Map(Array.from(moves, ([id, { to }]) => [id, to])); // 拖拽项的下一个位置
+      let pushedPositions = new Map<string, XYPosition>(); // 被推开的节点的绝对位置
+
+      if (nodeCollision) {
+        // 拖拽的节点停在其他节点前面，或者把它们推开
+        ({ positions: nextPositions, pushedPositions } = resolveNodeCollisions({
+          moves,
+          nodeLookup,
+          mode: nodeCollision,
+          spatialIndex: nodeSpatialIndex, // 节点空间索引
+        }));
+      }
+
       for (const [id, dragItem] of dragItems) {
         // 遍历所有拖拽项
         if (!nodeLookup.has(id)) {
@@ -159,11 +244,7 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
           continue;
         }
 
-        let nextPosition = { x: x - dragItem.distance.x, y: y - dragItem.distance.y }; // 计算下一个位置
-        if (snapToGrid) {
-          // 如果启用网格对齐
-          nextPosition = snapPosition(nextPosition, snapGrid); // 对齐位置到网格
-        }
+        const nextPosition = nextPositions.get(id)!; // 下一个位置
 
         /*
          * 如果有多个节点被选中且设置了节点范围，需要为每个节点调整节点范围
@@ -208,6 +289,35 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
         dragItem.internals.positionAbsolute = positionAbsolute; // 更新拖拽项的绝对位置
       }
 
+      // 查找指针下方的放置容器，被拖拽的节点放下时会成为它的子节点
+      dropTargetId = getDropTarget({
+        position: { x, y },
+        nodeLookup,
+        draggedNodeIds: new Set(dragItems.keys()),
+        spatialIndex: nodeSpatialIndex,
+      })?.id;
+      setDropTargetId?.(dropTargetId ?? null);
+
+      if (pushedPositions.size > 0) {
+        // 被推开的节点保持它们相对位置的变化量
+        const pushChanges: NodeChange[] = [];
+
+        for (const [id, pushedPosition] of pushedPositions) {
+          // 被推开的节点和拖拽的节点一样限制在它们的范围内
+          const { position } = calculateNodePosition({
+            nodeId: id,
+            nextPosition: pushedPosition,
+            nodeLookup,
+            nodeExtent,
+            nodeOrigin,
+            onError,
+          });
+          pushChanges.push({ id, type: 'position', position });
+        }
+
+        triggerNodeChanges?.(pushChanges); // 触发被推开节点的变更
+      }
+
       if (!hasChange) {
         // 如果没有变化
         return; // 返回
@@ -327,6 +437,7 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
         containerBounds = domNode?.getBoundingClientRect() || null; // 获取容器边界
 
         abortDrag = false; // 重置中止拖拽标志
+        dropTargetId = undefined; // 重置放置容器
 
         if (nodeDragThreshold === 0) {
           // 如果拖拽阈值为0
@@ -382,6 +493,10 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
       })
       .on('end', (event: UseDragEvent) => {
         // 结束事件处理器
+        const { setHelperLines, setDropTargetId } = getStoreItems();
+        setHelperLines?.([]); // 拖拽结束后移除辅助线
+        setDropTargetId?.(null); // 拖拽结束后移除放置容器的高亮
+
         if (!dragStarted || abortDrag) {
           // 如果拖拽未开始或已中止
           return; // 返回
@@ -397,6 +512,41 @@ export function XYDrag<OnNodeDrag extends (e: any, nodes: any, node: any) => voi
 
           updateNodePositions(dragItems, false); // 更新节点位置
 
+          const { nodes, nodeOrigin, triggerNodeChanges } = getStoreItems();
+          const reparentedIds = [...dragItems.values()]
+            .filter((dragItem) => {
+              if (dragItem.parentId === dropTargetId) {
+                // 节点仍在原来的父节点中
+                return false;
+              }
+
+              if (dropTargetId) {
+                // 节点被放到了另一个容器中
+                return true;
+              }
+
+              // 节点被拖出了原来的容器，extent为parent的节点无法离开父节点
+              const parent = dragItem.parentId ? nodeLookup.get(dragItem.parentId) : undefined;
+              return !!parent?.dropContainer && dragItem.extent !== 'parent';
+            })
+            .map((dragItem) => dragItem.id);
+
+          if (triggerNodeChanges && reparentedIds.length > 0) {
+            triggerNodeChanges(
+              getReparentChanges({
+                nodes,
+                nodeLookup,
+                nodeIds: reparentedIds,
+                parentId: dropTargetId,
+                // 使用拖拽后的位置，因为受控模式下节点可能还没有更新
+                positionsAbsolute: new Map(
+                  [...dragItems.values()].map((dragItem) => [dragItem.id, dragItem.internals.positionAbsolute])
+                ),
+                nodeOrigin,
+              })
+            );
+          }
+
           if (onDragStop || onNodeDragStop || (!nodeId && onSelectionDragStop)) {
             // 如果有回调
             const [currentNode, currentNodes] = getEventHandlerParams({
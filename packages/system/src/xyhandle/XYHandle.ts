@@ -16,7 +16,14 @@ import {
 } from '../types';
 
 import { getClosestHandle, isConnectionValid, getHandleType, getHandle } from './utils';
-import { IsValidParams, OnPointerDownParams, Result, XYHandleInstance } from './types';
+import {
+  GetValidHandlesParams,
+  IsValidParams,
+  OnPointerDownParams,
+  Result,
+  ValidHandle,
+  XYHandleInstance,
+} from './types';
 
 const alwaysValid = () => true;
 
@@ -231,7 +238,7 @@ function onPointerDown(
 
 // checks if  and returns connection in fom of an object { source: 123, target: 312 }
 function isValidHandle(
-  event: MouseEvent | TouchEvent,
+  event: MouseEvent | TouchEvent | KeyboardEvent,
   {
     handle,
     connectionMode,
@@ -250,8 +257,8 @@ function isValidHandle(
     ? doc.querySelector(`.${lib}-flow__handle[data-id="${flowId}-${handle?.nodeId}-${handle?.id}-${handle?.type}"]`)
     : null;
 
-  const { x, y } = getEventPosition(event);
-  const handleBelow = doc.elementFromPoint(x, y);
+  // keyboard events don't have a position, so only the passed handle gets checked
+  const handleBelow = 'key' in event ? null : elementFromEvent(event, doc);
   /*
    * we always want to prioritize the handle below the mouse cursor over the closest distance handle,
    * because it could be that the center of another handle is closer to the mouse pointer than the handle below the cursor
@@ -301,7 +308,57 @@ function isValidHandle(
   return result;
 }
 
+function elementFromEvent(event: MouseEvent | TouchEvent, doc: Document | ShadowRoot) {
+  const { x, y } = getEventPosition(event);
+
+  return doc.elementFromPoint(x, y);
+}
+
+/*
+ * Returns all handles that a connection from the passed handle can end at, sorted by their distance to it.
+ * This is used to create connections with the keyboard, where there is no pointer that points to a handle.
+ */
+function getValidHandles(event: KeyboardEvent, params: GetValidHandlesParams): ValidHandle[] {
+  const { fromNodeId, fromHandleId, fromType, connectionMode, nodeLookup } = params;
+  const fromHandle = getHandle(fromNodeId, fromType, fromHandleId, nodeLookup, connectionMode, true);
+
+  if (!fromHandle) {
+    return [];
+  }
+
+  const validHandles: ValidHandle[] = [];
+
+  for (const node of nodeLookup.values()) {
+    if (node.hidden) {
+      continue;
+    }
+
+    for (const handle of [
+      ...(node.internals.handleBounds?.source ?? []),
+      ...(node.internals.handleBounds?.target ?? []),
+    ]) {
+      const result = isValidHandle(event, {
+        ...params,
+        handle: { nodeId: node.id, id: handle.id, type: handle.type },
+      });
+
+      if (result.isValid && result.connection && result.toHandle) {
+        validHandles.push({
+          toHandle: result.toHandle,
+          to: getHandlePosition(node, handle, handle.position, true),
+          connection: result.connection,
+        });
+      }
+    }
+  }
+
+  const getDistance = ({ to }: ValidHandle) => Math.hypot(to.x - fromHandle.x, to.y - fromHandle.y);
+
+  return validHandles.sort((a, b) => getDistance(a) - getDistance(b));
+}
+
 export const XYHandle: XYHandleInstance = {
   onPointerDown,
   isValid: isValidHandle,
+  getValidHandles,
 };
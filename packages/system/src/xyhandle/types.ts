@@ -12,6 +12,7 @@ import {
   type IsValidConnection,
   NodeLookup,
   FinalConnectionState,
+  XYPosition,
 } from '../types';
 
 export type OnPointerDownParams = {
@@ -52,9 +53,20 @@ export type IsValidParams = {
   nodeLookup: NodeLookup;
 };
 
+export type GetValidHandlesParams = Omit<IsValidParams, 'handle'>;
+
+export type ValidHandle = {
+  /** The handle that the connection can end at */
+  toHandle: Handle;
+  /** The absolute position of the center of the handle */
+  to: XYPosition;
+  connection: Connection;
+};
+
 export type XYHandleInstance = {
   onPointerDown: (event: MouseEvent | TouchEvent, params: OnPointerDownParams) => void;
-  isValid: (event: MouseEvent | TouchEvent, params: IsValidParams) => Result;
+  isValid: (event: MouseEvent | TouchEvent | KeyboardEvent, params: IsValidParams) => Result;
+  getValidHandles: (event: KeyboardEvent, params: GetValidHandlesParams) => ValidHandle[];
 };
 
 export type Result = {
@@ -1,7 +1,13 @@
 import { drag } from 'd3-drag'; // 从 d3-drag 导入拖拽功能
 import { select } from 'd3-selection'; // 从 d3-selection 导入选择功能
 
-import { getControlDirection, getDimensionsAfterResize, getResizeDirection } from './utils'; // 导入工具函数：获取控制方向、获取调整大小后的尺寸、获取调整大小的方向
+import {
+  getControlDirection,
+  getDimensionsAfterResize,
+  getLocalPointerPosition,
+  getResizeDirection,
+  getRotatedResizePosition,
+} from './utils'; // 导入工具函数：获取控制方向、获取调整大小后的尺寸、获取调整大小的方向、处理旋转的节点
 import { getPointerPosition } from '../utils'; // 导入获取指针位置的工具函数
 import type {
   CoordinateExtent, // 坐标范围类型
@@ -9,6 +15,7 @@ import type {
   NodeBase, // 节点基础类型
   NodeLookup, // 节点查找类型
   NodeOrigin, // 节点原点类型
+  Rect, // 矩形类型
   Transform, // 变换类型
   XYPosition, // XY位置类型
 } from '../types';
@@ -41,7 +48,8 @@ export type XYResizerChildChange = {
 type XYResizerParams = {
   // XYResizer参数类型
   domNode: HTMLDivElement; // DOM节点
-  nodeId: string; // 节点ID
+  nodeId?: string; // 节点ID
+  getBounds?: () => Rect | null; // 代替节点调整大小的矩形（例如选中节点的边界），使用绝对坐标
   getStoreItems: () => {
     // 获取存储项的函数
     nodeLookup: NodeLookup; // 节点查找
@@ -101,7 +109,14 @@ function nodeToChildExtent(child: NodeBase, parent: NodeBase, nodeOrigin: NodeOr
   ];
 }
 
-export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: XYResizerParams): XYResizerInstance {
+export function XYResizer({
+  domNode,
+  nodeId,
+  getBounds,
+  getStoreItems,
+  onChange,
+  onEnd,
+}: XYResizerParams): XYResizerInstance {
   // 导出XYResizer函数
   const selection = select(domNode); // 选择DOM节点
 
@@ -121,24 +136,28 @@ export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: X
     const controlDirection = getControlDirection(controlPosition); // 获取控制方向
 
     let node: InternalNodeBase | undefined = undefined; // 声明节点变量
+    let bounds: Rect | undefined = undefined; // 声明矩形变量（不调整节点大小时使用）
     let containerBounds: DOMRect | null = null; // 声明容器边界变量
     let childNodes: XYResizerChildChange[] = []; // 声明子节点数组
     let parentNode: InternalNodeBase | undefined = undefined; // 声明父节点变量（用于修复expandParent）
     let parentExtent: CoordinateExtent | undefined = undefined; // 声明父节点范围变量
     let childExtent: CoordinateExtent | undefined = undefined; // 声明子节点范围变量
+    let rotation = 0; // 节点的旋转角度，旋转的节点在其自身的坐标系中调整大小
 
     const dragHandler = drag<HTMLDivElement, unknown>() // 创建拖拽处理器
       .on('start', (event: ResizeDragEvent) => {
         // 开始拖拽事件
         const { nodeLookup, transform, snapGrid, snapToGrid, nodeOrigin, paneDomNode } = getStoreItems(); // 获取存储项
-        node = nodeLookup.get(nodeId); // 获取节点
+        bounds = getBounds?.() ?? undefined; // 获取矩形
+        node = !bounds && nodeId ? nodeLookup.get(nodeId) : undefined; // 获取节点
 
-        if (!node) {
-          // 如果节点不存在
+        if (!node && !bounds) {
+          // 如果节点和矩形都不存在
           return; // 返回
         }
 
         containerBounds = paneDomNode?.getBoundingClientRect() ?? null; // 获取容器边界
+        rotation = node?.rotation ?? 0; // 获取旋转角度
         const { xSnapped, ySnapped } = getPointerPosition(event.sourceEvent, {
           // 获取指针位置
           transform,
@@ -147,13 +166,15 @@ export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: X
           containerBounds,
         });
 
-        prevValues = {
-          // 设置前一个值
-          width: node.measured.width ?? 0, // 宽度
-          height: node.measured.height ?? 0, // 高度
-          x: node.position.x ?? 0, // x坐标
-          y: node.position.y ?? 0, // y坐标
-        };
+        prevValues = bounds
+          ? { ...bounds } // 矩形的位置和尺寸
+          : {
+              // 设置前一个值
+              width: node!.measured.width ?? 0, // 宽度
+              height: node!.measured.height ?? 0, // 高度
+              x: node!.position.x ?? 0, // x坐标
+              y: node!.position.y ?? 0, // y坐标
+            };
 
         startValues = {
           // 设置开始值
@@ -165,7 +186,7 @@ export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: X
 
         parentNode = undefined; // 重置父节点
 
-        if (node.parentId && (node.extent === 'parent' || node.expandParent)) {
+        if (node?.parentId && (node.extent === 'parent' || node.expandParent)) {
           // 如果节点有父ID且范围为parent或expandParent为true
           parentNode = nodeLookup.get(node.parentId); // 获取父节点
           parentExtent = parentNode && node.extent === 'parent' ? nodeToParentExtent(parentNode) : undefined; // 获取父节点范围
@@ -180,7 +201,7 @@ export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: X
 
         for (const [childId, child] of nodeLookup) {
           // 遍历所有节点
-          if (child.parentId === nodeId) {
+          if (node && child.parentId === nodeId) {
             // 如果是当前节点的子节点
             childNodes.push({
               // 添加到子节点数组
@@ -223,31 +244,34 @@ export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: X
         });
         const childChanges: XYResizerChildChange[] = []; // 初始化子节点变更数组
 
-        if (!node) {
-          // 如果节点不存在
+        if (!node && !bounds) {
+          // 如果节点和矩形都不存在
           return; // 返回
         }
         const { x: prevX, y: prevY, width: prevWidth, height: prevHeight } = prevValues; // 获取前一个值
         const change: XYResizerChange = {}; // 初始化变更对象
-        const nodeOrigin = node.origin ?? storeNodeOrigin; // 获取节点原点
+        const nodeOrigin: NodeOrigin = node ? node.origin ?? storeNodeOrigin : [0, 0]; // 获取节点原点，矩形的位置是左上角
 
-        const { width, height, x, y } = getDimensionsAfterResize(
+        const dimensions = getDimensionsAfterResize(
           // 获取调整大小后的尺寸
           startValues,
           controlDirection,
-          pointerPosition,
+          getLocalPointerPosition(startValues, pointerPosition, rotation), // 旋转的节点使用其坐标系中的指针位置
           boundaries,
           keepAspectRatio,
           nodeOrigin,
           parentExtent,
           childExtent
         );
+        const { width, height } = dimensions;
+        const { x, y } = getRotatedResizePosition(startValues, dimensions, nodeOrigin, rotation); // 使对面的边在旋转后保持不动
 
         const isWidthChange = width !== prevWidth; // 是否宽度变化
         const isHeightChange = height !== prevHeight; // 是否高度变化
 
-        const isXPosChange = x !== prevX && isWidthChange; // 是否x坐标变化
-        const isYPosChange = y !== prevY && isHeightChange; // 是否y坐标变化
+        // 旋转节点的中心会移动，所以宽度和高度的变化都会影响位置
+        const isXPosChange = x !== prevX && (rotation ? isWidthChange || isHeightChange : isWidthChange); // 是否x坐标变化
+        const isYPosChange = y !== prevY && (rotation ? isWidthChange || isHeightChange : isHeightChange); // 是否y坐标变化
 
         if (!isXPosChange && !isYPosChange && !isWidthChange && !isHeightChange) {
           // 如果没有变化
@@ -292,7 +316,7 @@ export function XYResizer({ domNode, nodeId, getStoreItems, onChange, onEnd }: X
         }
 
         // 从顶部/左侧调整大小时修复expandParent
-        if (parentNode && node.expandParent) {
+        if (parentNode && node?.expandParent) {
           // 如果有父节点且expandParent为true
           const xLimit = nodeOrigin[0] * (change.width ?? 0); // 计算x限制
           if (change.x && change.x < xLimit) {
@@ -0,0 +1,122 @@
+import { drag } from 'd3-drag';
+import { select } from 'd3-selection';
+
+import { getNodeDimensions, getPointerPosition } from '../utils';
+import type { NodeLookup, Transform, XYPosition } from '../types';
+import type { OnRotate, OnRotateEnd, OnRotateStart, ResizeDragEvent } from './types';
+
+type XYRotatorParams = {
+  domNode: HTMLDivElement;
+  nodeId: string;
+  getStoreItems: () => {
+    nodeLookup: NodeLookup;
+    transform: Transform;
+    paneDomNode: HTMLDivElement | null;
+  };
+  onChange: (rotation: number) => void;
+  onEnd?: (rotation: number) => void;
+};
+
+type XYRotatorUpdateParams = {
+  /** The rotation snaps to multiples of this angle while the shift key is pressed */
+  snapAngle: number;
+  onRotateStart: OnRotateStart | undefined;
+  onRotate: OnRotate | undefined;
+  onRotateEnd: OnRotateEnd | undefined;
+};
+
+export type XYRotatorInstance = {
+  update: (params: XYRotatorUpdateParams) => void;
+  destroy: () => void;
+};
+
+// the angle of the line from the center to the point, 0 points upwards and the angle grows clockwise
+function getAngle(center: XYPosition, point: XYPosition): number {
+  return (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI + 90;
+}
+
+function normalizeRotation(rotation: number): number {
+  return ((rotation % 360) + 360) % 360;
+}
+
+export function XYRotator({ domNode, nodeId, getStoreItems, onChange, onEnd }: XYRotatorParams): XYRotatorInstance {
+  const selection = select(domNode);
+
+  function update({ snapAngle, onRotateStart, onRotate, onRotateEnd }: XYRotatorUpdateParams) {
+    let center: XYPosition | null = null;
+    let containerBounds: DOMRect | null = null;
+    let startAngle = 0;
+    let startRotation = 0;
+    let rotation = 0;
+
+    const getPointerAngle = (event: ResizeDragEvent) => {
+      const { transform } = getStoreItems();
+      const pointerPosition = getPointerPosition(event.sourceEvent, { transform, containerBounds });
+
+      return getAngle(center!, pointerPosition);
+    };
+
+    const dragHandler = drag<HTMLDivElement, unknown>()
+      .on('start', (event: ResizeDragEvent) => {
+        const { nodeLookup, paneDomNode } = getStoreItems();
+        const node = nodeLookup.get(nodeId);
+
+        if (!node) {
+          center = null;
+          return;
+        }
+
+        const { width, height } = getNodeDimensions(node);
+        center = {
+          x: node.internals.positionAbsolute.x + width / 2,
+          y: node.internals.positionAbsolute.y + height / 2,
+        };
+        containerBounds = paneDomNode?.getBoundingClientRect() ?? null;
+
+        // the rotation changes relative to the start, so that the node doesn't jump when the drag starts
+        startAngle = getPointerAngle(event);
+        startRotation = node.rotation ?? 0;
+        rotation = startRotation;
+
+        onRotateStart?.(event, { rotation });
+      })
+      .on('drag', (event: ResizeDragEvent) => {
+        if (!center) {
+          return;
+        }
+
+        let nextRotation = normalizeRotation(startRotation + getPointerAngle(event) - startAngle);
+
+        if (event.sourceEvent.shiftKey && snapAngle > 0) {
+          nextRotation = normalizeRotation(Math.round(nextRotation / snapAngle) * snapAngle);
+        }
+
+        if (nextRotation === rotation) {
+          return;
+        }
+
+        rotation = nextRotation;
+        onRotate?.(event, { rotation });
+        onChange(rotation);
+      })
+      .on('end', (event: ResizeDragEvent) => {
+        if (!center) {
+          return;
+        }
+
+        onRotateEnd?.(event, { rotation });
+        onEnd?.(rotation);
+      });
+
+    selection.call(dragHandler);
+  }
+
+  function destroy() {
+    selection.on('.drag', null);
+  }
+
+  return {
+    update,
+    destroy,
+  };
+}
@@ -45,3 +45,13 @@ export type ShouldResize = OnResizeHandler<ResizeParamsWithDirection, boolean>;
 export type OnResizeStart = OnResizeHandler;
 export type OnResize = OnResizeHandler<ResizeParamsWithDirection>;
 export type OnResizeEnd = OnResizeHandler;
+
+export type RotateParams = {
+  rotation: number;
+};
+
+type OnRotateHandler = (event: ResizeDragEvent, params: RotateParams) => void;
+
+export type OnRotateStart = OnRotateHandler;
+export type OnRotate = OnRotateHandler;
+export type OnRotateEnd = OnRotateHandler;
@@ -1,5 +1,5 @@
-import { CoordinateExtent, NodeOrigin } from '../types'; // 导入坐标范围和节点原点类型
-import { getPointerPosition } from '../utils'; // 导入获取指针位置的工具函数
+import { CoordinateExtent, NodeOrigin, XYPosition } from '../types'; // 导入坐标范围、节点原点和位置类型
+import { getPointerPosition, rotatePoint } from '../utils'; // 导入获取指针位置和旋转点的工具函数
 import { ControlPosition } from './types'; // 导入控制位置类型
 
 type GetResizeDirectionParams = {
@@ -316,3 +316,74 @@ export function getDimensionsAfterResize(
     y: nodeOrigin[1] * distY * (!affectsY ? 1 : -1) + y, // 返回Y坐标，考虑原点偏移
   };
 }
+
+/**
+ * 将指针位置转换到旋转节点自身的坐标系中，这样拖动的距离就是沿节点的边计算的
+ * @param startValues - 起始值
+ * @param pointerPosition - 指针位置
+ * @param rotation - 节点的旋转角度（度）
+ * @returns 节点坐标系中的指针位置
+ */
+export function getLocalPointerPosition(
+  startValues: StartValues,
+  pointerPosition: ReturnType<typeof getPointerPosition>,
+  rotation: number
+): ReturnType<typeof getPointerPosition> {
+  if (!rotation) {
+    return pointerPosition;
+  }
+
+  const origin = { x: 0, y: 0 };
+  const distance = rotatePoint(
+    { x: pointerPosition.x - startValues.pointerX, y: pointerPosition.y - startValues.pointerY },
+    origin,
+    -rotation
+  );
+  const snappedDistance = rotatePoint(
+    { x: pointerPosition.xSnapped - startValues.pointerX, y: pointerPosition.ySnapped - startValues.pointerY },
+    origin,
+    -rotation
+  );
+
+  return {
+    x: startValues.pointerX + distance.x,
+    y: startValues.pointerY + distance.y,
+    xSnapped: startValues.pointerX + snappedDistance.x,
+    ySnapped: startValues.pointerY + snappedDistance.y,
+  };
+}
+
+/**
+ * 旋转的节点围绕其中心旋转，调整大小会移动中心。
+ * 返回修正后的位置，使对面的边在旋转后的坐标系中保持不动
+ * @param startValues - 起始值
+ * @param values - 在节点坐标系中调整大小后的尺寸和位置
+ * @param nodeOrigin - 节点原点
+ * @param rotation - 节点的旋转角度（度）
+ * @returns 修正后的位置
+ */
+export function getRotatedResizePosition(
+  startValues: StartValues,
+  values: PrevValues,
+  nodeOrigin: NodeOrigin,
+  rotation: number
+): XYPosition {
+  if (!rotation) {
+    return { x: values.x, y: values.y };
+  }
+
+  const getCenter = ({ x, y, width, height }: PrevValues) => ({
+    x: x + (0.5 - nodeOrigin[0]) * width,
+    y: y + (0.5 - nodeOrigin[1]) * height,
+  });
+  const startCenter = getCenter(startValues);
+  const center = getCenter(values);
+  // 中心的移动在未旋转和旋转的坐标系中的差值
+  const centerDistance = { x: startCenter.x - center.x, y: startCenter.y - center.y };
+  const rotatedCenterDistance = rotatePoint(centerDistance, { x: 0, y: 0 }, rotation);
+
+  return {
+    x: values.x + centerDistance.x - rotatedCenterDistance.x,
+    y: values.y + centerDistance.y - rotatedCenterDistance.y,
+  };
+}